@@ -4,8 +4,12 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SettingsProvider } from "@/lib/settingsContext";
+import { AuthProvider, useAuth } from "@/lib/auth";
+import { ServerEventsProvider } from "@/lib/serverEvents";
+import { Loader2 } from "lucide-react";
 import NotFound from "@/pages/not-found";
 import CommandCenter from "@/pages/CommandCenter";
+import Login from "@/pages/Login";
 
 function Router() {
   return (
@@ -16,15 +20,38 @@ function Router() {
   );
 }
 
+// Settings and the app itself only load once someone is signed in
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return <Login />;
+
+  return (
+    <SettingsProvider>
+      <ServerEventsProvider>
+        <Router />
+      </ServerEventsProvider>
+    </SettingsProvider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <SettingsProvider>
+      <AuthProvider>
         <TooltipProvider>
           <Toaster />
-          <Router />
+          <AuthGate />
         </TooltipProvider>
-      </SettingsProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
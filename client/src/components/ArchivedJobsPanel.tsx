@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SelectJob } from "@shared/schema";
+
+export function ArchivedJobsPanel() {
+  const [search, setSearch] = useState("");
+
+  const { data: jobs = [], isLoading, isFetching, refetch } = useQuery<SelectJob[]>({
+    queryKey: ["/api/jobs/archived"],
+    staleTime: 0,
+  });
+
+  const searchLower = search.trim().toLowerCase();
+  const filteredJobs = searchLower
+    ? jobs.filter(job =>
+        job.jobId.toLowerCase().includes(searchLower) ||
+        job.customerName.toLowerCase().includes(searchLower) ||
+        job.address.toLowerCase().includes(searchLower))
+    : jobs;
+
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-sm font-medium">Archived Jobs</CardTitle>
+            <CardDescription className="text-xs">
+              Jobs deleted or deactivated in ServiceM8, found by the daily full sync. They're hidden from the boards and come back
+              automatically if they're made active in ServiceM8 again.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="refresh-archived-jobs">
+            <RefreshCw className={cn("h-4 w-4 mr-1", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-2 space-y-3">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by job number, customer or address"
+          className="h-8"
+          data-testid="archived-jobs-search"
+        />
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading archived jobs...
+          </div>
+        ) : filteredJobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {jobs.length === 0 ? "No archived jobs" : "No archived jobs match your search"}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Job</TableHead>
+                <TableHead className="text-xs">Customer</TableHead>
+                <TableHead className="text-xs">Address</TableHead>
+                <TableHead className="text-xs">Reason</TableHead>
+                <TableHead className="text-xs">Archived</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredJobs.map((job) => (
+                <TableRow key={job.id} data-testid={`archived-job-${job.id}`}>
+                  <TableCell className="text-xs font-medium">{job.jobId}</TableCell>
+                  <TableCell className="text-xs">{job.customerName}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{job.address}</TableCell>
+                  <TableCell className="text-xs">
+                    <Badge variant="outline" className="text-[10px]">{job.archivedReason}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {job.archivedAt && format(new Date(job.archivedAt), "dd MMM yyyy HH:mm")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
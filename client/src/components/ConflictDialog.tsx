@@ -0,0 +1,54 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle } from "lucide-react";
+import { fieldLabel, formatValue } from "@/components/JobHistory";
+import type { EditConflictError } from "@/lib/conflicts";
+
+interface ConflictDialogProps {
+  conflict: EditConflictError<unknown> | null;
+  subject: string; // e.g. 'Job #1042'
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+}
+
+// Shown when someone else saved a change to the same fields while this user was editing
+export function ConflictDialog({ conflict, subject, onKeepMine, onKeepTheirs }: ConflictDialogProps) {
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => { if (!open) onKeepTheirs(); }}>
+      <DialogContent className="max-w-lg" data-testid="conflict-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {subject} was changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            Their change was saved while you were making yours. Keep theirs, or save yours over it.
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Theirs</TableHead>
+              <TableHead>Yours</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {conflict?.conflicts.map(({ field, theirs, mine }) => (
+              <TableRow key={field}>
+                <TableCell className="font-medium capitalize">{fieldLabel(field)}</TableCell>
+                <TableCell className="break-all">{formatValue(theirs)}</TableCell>
+                <TableCell className="break-all">{formatValue(mine)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <DialogFooter>
+          <Button variant="outline" onClick={onKeepTheirs} data-testid="conflict-keep-theirs">Keep theirs</Button>
+          <Button onClick={onKeepMine} data-testid="conflict-keep-mine">Save mine</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, RotateCcw, Save } from "lucide-react";
+import { api, ApiError } from "@/lib/api";
+import {
+  CUSTOM_FIELD_TARGETS,
+  DEFAULT_CUSTOM_FIELD_MAPPINGS,
+  type CustomFieldMapping,
+  type CustomFieldTarget,
+  type DiscoveredCustomField,
+} from "@shared/customFields";
+import type { CustomFieldMappingsSetting, VersionConflictBody } from "@shared/api";
+
+const TARGET_LABELS: Record<CustomFieldTarget, string> = {
+  assignedStaff: "Assigned staff",
+  fenceLength: "Fence length (m)",
+  gateCount: "Gate count",
+  leadSource: "Lead source",
+  extra: "Extra field",
+};
+
+const NOT_MAPPED = "none";
+
+type CustomFieldMappingsResponse = CustomFieldMappingsSetting & {
+  discovered: DiscoveredCustomField[];
+};
+
+export function CustomFieldsPanel() {
+  const queryClient = useQueryClient();
+  const [mappings, setMappings] = useState<CustomFieldMapping[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [newFieldName, setNewFieldName] = useState("");
+  const [addedFields, setAddedFields] = useState<string[]>([]);
+
+  const { data, isLoading } = useQuery<CustomFieldMappingsResponse>({
+    queryKey: ["/api/custom-field-mappings"],
+  });
+
+  useEffect(() => {
+    if (data && !isDirty) setMappings(data.mappings);
+  }, [data, isDirty]);
+
+  const saveMutation = useMutation({
+    mutationFn: (mappingsToSave: CustomFieldMapping[]) => api.customFieldMappings.save(mappingsToSave, data?.version ?? 0),
+    onSuccess: (result) => {
+      setIsDirty(false);
+      setAddedFields([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-field-mappings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast.success(`Custom field mappings saved - ${result.updated} job${result.updated === 1 ? "" : "s"} updated`);
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.status === 409) {
+        const { current } = error.body as VersionConflictBody<CustomFieldMappingsSetting>;
+        queryClient.setQueryData<CustomFieldMappingsResponse>(["/api/custom-field-mappings"], prev => prev && { ...prev, ...current });
+        setIsDirty(false);
+        setAddedFields([]);
+        toast.error("Custom field mappings were changed on another computer. Their mappings have been loaded; please make your changes again.");
+        return;
+      }
+      toast.error(error instanceof ApiError && error.status === 400 ? "Some mappings are incomplete" : error.message);
+    },
+  });
+
+  const updateMappings = (next: CustomFieldMapping[]) => {
+    setMappings(next);
+    setIsDirty(true);
+  };
+
+  const setTarget = (fieldName: string, target: string) => {
+    const others = mappings.filter(mapping => mapping.fieldName !== fieldName);
+    if (target === NOT_MAPPED) {
+      updateMappings(others);
+      return;
+    }
+    const existing = mappings.find(mapping => mapping.fieldName === fieldName);
+    updateMappings(existing
+      ? mappings.map(mapping => mapping.fieldName === fieldName ? { ...mapping, target: target as CustomFieldTarget } : mapping)
+      : [...others, { fieldName, target: target as CustomFieldTarget }]);
+  };
+
+  const setLabel = (fieldName: string, label: string) => {
+    updateMappings(mappings.map(mapping => mapping.fieldName === fieldName ? { ...mapping, label } : mapping));
+  };
+
+  const addField = () => {
+    const fieldName = newFieldName.trim();
+    if (!fieldName) return;
+    setAddedFields(fields => fields.includes(fieldName) ? fields : [...fields, fieldName]);
+    setNewFieldName("");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading custom fields...
+      </div>
+    );
+  }
+
+  // Fields seen on synced jobs, then mapped or added fields no synced job has yet
+  const discovered = data?.discovered ?? [];
+  const discoveredNames = new Set(discovered.map(field => field.fieldName));
+  const rows: DiscoveredCustomField[] = [
+    ...discovered,
+    ...Array.from(new Set([...mappings.map(mapping => mapping.fieldName), ...addedFields]))
+      .filter(fieldName => !discoveredNames.has(fieldName))
+      .map(fieldName => ({ fieldName, jobCount: 0, sampleValue: null })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">ServiceM8 Custom Fields</CardTitle>
+            <CardDescription>
+              Choose which job attribute each ServiceM8 custom field fills. Values are copied onto jobs when they sync and shown on
+              the job card. If several fields fill the same attribute, the first one with a value is used.
+              {data?.isDefault && !isDirty && " Using the built-in staff field names."}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="shrink-0" onClick={() => updateMappings(DEFAULT_CUSTOM_FIELD_MAPPINGS)}>
+            <RotateCcw className="h-4 w-4 mr-1" /> Reset to defaults
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No custom fields found yet. They're listed here once a sync has picked up jobs that use them.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Custom field</TableHead>
+                <TableHead>Jobs</TableHead>
+                <TableHead>Example</TableHead>
+                <TableHead>Maps to</TableHead>
+                <TableHead>Label</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(field => {
+                const mapping = mappings.find(mapping => mapping.fieldName === field.fieldName);
+                return (
+                  <TableRow key={field.fieldName} data-testid={`custom-field-${field.fieldName}`}>
+                    <TableCell className="font-mono text-xs">{field.fieldName}</TableCell>
+                    <TableCell className="text-xs">{field.jobCount}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">{field.sampleValue ?? "-"}</TableCell>
+                    <TableCell>
+                      <Select value={mapping?.target ?? NOT_MAPPED} onValueChange={(target) => setTarget(field.fieldName, target)}>
+                        <SelectTrigger className="h-8 w-44"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                          {CUSTOM_FIELD_TARGETS.map(target => (
+                            <SelectItem key={target} value={target}>{TARGET_LABELS[target]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {mapping?.target === "extra" && (
+                        <Input
+                          placeholder={field.fieldName}
+                          value={mapping.label || ""}
+                          onChange={(e) => setLabel(field.fieldName, e.target.value)}
+                          className="h-8 w-44"
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a field by name"
+            value={newFieldName}
+            onChange={(e) => setNewFieldName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addField()}
+            className="h-8 max-w-xs"
+          />
+          <Button variant="outline" size="sm" onClick={addField} disabled={!newFieldName.trim()}>
+            <Plus className="h-4 w-4 mr-1" /> Add
+          </Button>
+          <Button className="ml-auto" onClick={() => saveMutation.mutate(mappings)} disabled={!isDirty || saveMutation.isPending}>
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save and update jobs
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,22 +10,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { JobHistory } from "@/components/JobHistory";
 import { Job } from "@/lib/mockData";
 import { cn } from "@/lib/utils";
-import { CalendarClock, Mail, MessageSquare, Phone, User, AlertCircle, CheckCircle2, Clock, FileText, MapPin, DollarSign, Calendar, Briefcase, ExternalLink, Loader2, Send, Wrench } from "lucide-react";
+import { CalendarClock, CalendarX, Mail, MessageSquare, Phone, User, AlertCircle, CheckCircle2, Clock, FileText, MapPin, DollarSign, Calendar, Briefcase, ExternalLink, Loader2, Send, Wrench, Ruler } from "lucide-react";
 import { Draggable } from "@hello-pangea/dnd";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-
-interface WorkType {
-  id: number;
-  name: string;
-  description?: string;
-  color: string;
-  isDefault: boolean;
-  isActive: boolean;
-}
+import { api } from "@/lib/api";
+import type { WorkType } from "@shared/schema";
+import type { JobCompany } from "@shared/api";
 
 interface ServiceM8Note {
   uuid: string;
@@ -55,6 +51,7 @@ interface CommunicationItem {
   content: string;
   staffName?: string;
   direction?: 'inbound' | 'outbound' | 'unknown';
+  classificationReason?: string; // Why sync gave it this type and direction
 }
 
 interface JobCardProps {
@@ -62,29 +59,15 @@ interface JobCardProps {
   index: number;
 }
 
-interface CompanyInfo {
-  companyName: string;
-  companyEmail: string;
-  companyPhone: string;
-  companyMobile: string;
-  contacts: Array<{
-    uuid: string;
-    name: string;
-    email: string;
-    mobile: string;
-    phone: string;
-    isPrimary: boolean;
-  }>;
-}
-
 export function JobCard({ job, index }: JobCardProps) {
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [communications, setCommunications] = useState<CommunicationItem[]>([]);
   const [loadingNotes, setLoadingNotes] = useState(false);
   const [notesError, setNotesError] = useState<string | null>(null);
+  const [commSearch, setCommSearch] = useState("");
   
   // Company info state
-  const [companyInfo, setCompanyInfo] = useState<CompanyInfo | null>(null);
+  const [companyInfo, setCompanyInfo] = useState<JobCompany | null>(null);
   const [loadingCompanyInfo, setLoadingCompanyInfo] = useState(false);
   const [companyInfoError, setCompanyInfoError] = useState<string | null>(null);
   
@@ -109,25 +92,13 @@ export function JobCard({ job, index }: JobCardProps) {
   // Fetch work types for the dropdown
   const { data: workTypes = [] } = useQuery<WorkType[]>({
     queryKey: ["workTypes"],
-    queryFn: async () => {
-      const res = await fetch("/api/work-types");
-      if (!res.ok) throw new Error("Failed to fetch work types");
-      return res.json();
-    },
+    queryFn: () => api.workTypes.list(),
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
   
   // Mutation to update job work type
   const updateJobMutation = useMutation({
-    mutationFn: async (workTypeId: number) => {
-      const res = await fetch(`/api/jobs/${job.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ workTypeId }),
-      });
-      if (!res.ok) throw new Error("Failed to update job");
-      return res.json();
-    },
+    mutationFn: (workTypeId: number) => api.jobs.update(job.id, { workTypeId }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["jobs"] });
       toast({
@@ -151,33 +122,37 @@ export function JobCard({ job, index }: JobCardProps) {
   };
   
   const currentWorkType = workTypes.find(wt => wt.id === job.workTypeId);
+
+  const commSearchLower = commSearch.trim().toLowerCase();
+  const visibleCommunications = commSearchLower
+    ? communications.filter(item =>
+        item.content.toLowerCase().includes(commSearchLower) ||
+        (item.staffName || "").toLowerCase().includes(commSearchLower))
+    : communications;
+
+  const jobDetails: [string, string][] = [
+    ...(job.fenceLength != null ? [["Fence length", `${job.fenceLength} m`] as [string, string]] : []),
+    ...(job.gateCount != null ? [["Gates", String(job.gateCount)] as [string, string]] : []),
+    ...(job.leadSource ? [["Lead source", job.leadSource] as [string, string]] : []),
+    ...Object.entries(job.extraFields || {}),
+  ];
   
   useEffect(() => {
     if (detailsOpen && job.serviceM8Uuid) {
       setLoadingNotes(true);
       setNotesError(null);
 
-      // Use the communications endpoint which fetches feed items, notes, and activities
-      fetch(`/api/jobs/${job.serviceM8Uuid}/communications`)
-        .then(async res => {
-          if (!res.ok) {
-            const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || `Error ${res.status}`);
-          }
-          return res.json();
-        })
+      // Feed items and notes copied from ServiceM8 by sync
+      api.jobs.communications(job.serviceM8Uuid)
         .then(data => {
-          // Data comes pre-formatted from the API
-          const items: CommunicationItem[] = (data || []).map((item: any, idx: number) => ({
-            uuid: `comm-${idx}`,
-            date: item.timestamp?.replace(' ', 'T') || new Date().toISOString(),
-            type: item.type === 'internal_note' ? 'note' :
-                  item.type === 'system' ? 'note' :
-                  item.type === 'update' ? 'note' :
-                  item.type as CommunicationItem['type'],
-            content: item.message || '',
-            staffName: item.author,
-            direction: item.direction
+          const items: CommunicationItem[] = (data || []).map(item => ({
+            uuid: item.serviceM8Uuid,
+            date: new Date(item.occurredAt).toISOString(),
+            type: item.type === 'system' ? 'note' : item.type as CommunicationItem['type'],
+            content: item.message,
+            staffName: item.author ?? undefined,
+            direction: item.direction as CommunicationItem['direction'],
+            classificationReason: item.classificationReason ?? undefined,
           }));
 
           setCommunications(items);
@@ -191,14 +166,7 @@ export function JobCard({ job, index }: JobCardProps) {
       // Also fetch company info
       setLoadingCompanyInfo(true);
       setCompanyInfoError(null);
-      fetch(`/api/servicem8/job-company/${job.serviceM8Uuid}`)
-        .then(async res => {
-          if (!res.ok) {
-            const data = await res.json().catch(() => ({}));
-            throw new Error(data.error || "Failed to fetch company info");
-          }
-          return res.json();
-        })
+      api.servicem8.jobCompany(job.serviceM8Uuid)
         .then(data => {
           setCompanyInfo(data);
         })
@@ -214,8 +182,7 @@ export function JobCard({ job, index }: JobCardProps) {
   useEffect(() => {
     if (smsDialogOpen && job.serviceM8Uuid) {
       setLoadingContact(true);
-      fetch(`/api/servicem8/job-contact/${job.serviceM8Uuid}`)
-        .then(res => res.json())
+      api.servicem8.jobContact(job.serviceM8Uuid)
         .then(data => {
           // Prefer mobile, fallback to phone
           const phoneNumber = data.mobile || data.phone || "";
@@ -232,8 +199,7 @@ export function JobCard({ job, index }: JobCardProps) {
   useEffect(() => {
     if (emailDialogOpen && job.serviceM8Uuid) {
       setLoadingEmailContact(true);
-      fetch(`/api/servicem8/job-contact/${job.serviceM8Uuid}`)
-        .then(res => res.json())
+      api.servicem8.jobContact(job.serviceM8Uuid)
         .then(data => {
           setEmailTo(data.email || "");
         })
@@ -267,22 +233,12 @@ export function JobCard({ job, index }: JobCardProps) {
 
     setSendingSms(true);
     try {
-      const response = await fetch("/api/messaging/sms", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          to: smsPhone,
-          message: smsMessage,
-          jobUuid: job.serviceM8Uuid
-        })
+      await api.messaging.sms({
+        to: smsPhone,
+        message: smsMessage,
+        jobUuid: job.serviceM8Uuid
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || data.message || "Failed to send SMS");
-      }
-
       toast({
         title: "SMS sent!",
         description: `Message sent to ${smsPhone}`,
@@ -313,23 +269,13 @@ export function JobCard({ job, index }: JobCardProps) {
 
     setSendingEmail(true);
     try {
-      const response = await fetch("/api/messaging/email", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          to: emailTo,
-          subject: emailSubject,
-          body: emailBody,
-          jobUuid: job.serviceM8Uuid
-        })
+      await api.messaging.email({
+        to: emailTo,
+        subject: emailSubject,
+        body: emailBody,
+        jobUuid: job.serviceM8Uuid
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || data.message || "Failed to send email");
-      }
-
       toast({
         title: "Email sent!",
         description: `Email sent to ${emailTo}`,
@@ -422,6 +368,16 @@ export function JobCard({ job, index }: JobCardProps) {
                       {job.jobId}
                     </span>
                     {getUrgencyIcon(job.urgency)}
+                    {job.allocationError && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <CalendarX className="h-4 w-4 text-red-500 cursor-help" data-testid={`allocation-error-${job.id}`} />
+                        </TooltipTrigger>
+                        <TooltipContent side="top">
+                          <p>ServiceM8 booking failed: {job.allocationError}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                   </div>
                   <h3 className="font-semibold text-sm leading-tight text-foreground line-clamp-1">
                     {job.customerName}
@@ -634,338 +590,385 @@ export function JobCard({ job, index }: JobCardProps) {
           </DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <MapPin className="h-4 w-4" />
-                <span>Address</span>
-              </div>
-              <p className="text-sm font-medium">{job.address || "No address"}</p>
-            </div>
+        <Tabs defaultValue="details">
+          <TabsList className="mb-3">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history" data-testid={`job-history-tab-${job.id}`}>History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="mt-0">
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    <span>Address</span>
+                  </div>
+                  <p className="text-sm font-medium">{job.address || "No address"}</p>
+                </div>
             
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <DollarSign className="h-4 w-4" />
-                <span>Quote Value</span>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <DollarSign className="h-4 w-4" />
+                    <span>Quote Value</span>
+                  </div>
+                  <p className="text-lg font-bold text-primary">${job.quoteValue.toLocaleString()}</p>
+                </div>
               </div>
-              <p className="text-lg font-bold text-primary">${job.quoteValue.toLocaleString()}</p>
-            </div>
-          </div>
           
-          <Separator />
+              <Separator />
           
-          {/* Company Contact Info */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <User className="h-4 w-4" />
-                <span>Company Contacts</span>
-              </div>
-              {loadingCompanyInfo && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
-            </div>
-            
-            {loadingCompanyInfo ? (
-              <div className="flex items-center justify-center bg-muted/30 rounded-md p-4">
-                <Loader2 className="h-4 w-4 animate-spin mr-2 text-muted-foreground" />
-                <span className="text-sm text-muted-foreground">Loading company contacts...</span>
-              </div>
-            ) : companyInfoError ? (
-              <div className="flex flex-col items-center justify-center bg-muted/30 rounded-md p-3 text-center">
-                <AlertCircle className="h-5 w-5 text-amber-500 mb-2" />
-                <p className="text-sm text-amber-600 font-medium">{companyInfoError}</p>
-                <p className="text-xs text-muted-foreground mt-1">Please reconnect to ServiceM8 in Settings</p>
-              </div>
-            ) : companyInfo ? (
-              <div className="bg-muted/30 rounded-md p-3 space-y-3">
-                {/* Company Info */}
-                <div className="grid grid-cols-2 gap-3 text-sm">
-                  {companyInfo.companyEmail && (
-                    <div className="flex items-center gap-2">
-                      <Mail className="h-3.5 w-3.5 text-muted-foreground" />
-                      <a href={`mailto:${companyInfo.companyEmail}`} className="text-primary hover:underline truncate">
-                        {companyInfo.companyEmail}
-                      </a>
-                    </div>
-                  )}
-                  {companyInfo.companyPhone && (
-                    <div className="flex items-center gap-2">
-                      <Phone className="h-3.5 w-3.5 text-muted-foreground" />
-                      <a href={`tel:${companyInfo.companyPhone}`} className="hover:underline">
-                        {companyInfo.companyPhone}
-                      </a>
-                    </div>
-                  )}
-                  {companyInfo.companyMobile && (
-                    <div className="flex items-center gap-2">
-                      <MessageSquare className="h-3.5 w-3.5 text-muted-foreground" />
-                      <a href={`tel:${companyInfo.companyMobile}`} className="hover:underline">
-                        {companyInfo.companyMobile}
-                      </a>
-                    </div>
-                  )}
+              {/* Company Contact Info */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <User className="h-4 w-4" />
+                    <span>Company Contacts</span>
+                  </div>
+                  {loadingCompanyInfo && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
                 </div>
-                
-                {/* Contact List */}
-                {companyInfo.contacts.length > 0 && (
-                  <div className="space-y-2 pt-2 border-t">
-                    <span className="text-xs font-medium text-muted-foreground">Contacts</span>
-                    {companyInfo.contacts.map((contact) => (
-                      <div key={contact.uuid} className="flex items-center justify-between text-sm bg-white/50 rounded px-2 py-1.5">
+            
+                {loadingCompanyInfo ? (
+                  <div className="flex items-center justify-center bg-muted/30 rounded-md p-4">
+                    <Loader2 className="h-4 w-4 animate-spin mr-2 text-muted-foreground" />
+                    <span className="text-sm text-muted-foreground">Loading company contacts...</span>
+                  </div>
+                ) : companyInfoError ? (
+                  <div className="flex flex-col items-center justify-center bg-muted/30 rounded-md p-3 text-center">
+                    <AlertCircle className="h-5 w-5 text-amber-500 mb-2" />
+                    <p className="text-sm text-amber-600 font-medium">{companyInfoError}</p>
+                    <p className="text-xs text-muted-foreground mt-1">Please reconnect to ServiceM8 in Settings</p>
+                  </div>
+                ) : companyInfo ? (
+                  <div className="bg-muted/30 rounded-md p-3 space-y-3">
+                    {/* Company Info */}
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                      {companyInfo.companyEmail && (
                         <div className="flex items-center gap-2">
-                          <User className="h-3.5 w-3.5 text-muted-foreground" />
-                          <span className="font-medium">{contact.name}</span>
-                          {contact.isPrimary && (
-                            <Badge variant="secondary" className="text-[10px] px-1 py-0">Primary</Badge>
-                          )}
+                          <Mail className="h-3.5 w-3.5 text-muted-foreground" />
+                          <a href={`mailto:${companyInfo.companyEmail}`} className="text-primary hover:underline truncate">
+                            {companyInfo.companyEmail}
+                          </a>
                         </div>
-                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                          {contact.mobile && (
-                            <a href={`tel:${contact.mobile}`} className="hover:text-primary flex items-center gap-1">
-                              <Phone className="h-3 w-3" />
-                              {contact.mobile}
-                            </a>
-                          )}
-                          {contact.email && (
-                            <a href={`mailto:${contact.email}`} className="hover:text-primary flex items-center gap-1">
-                              <Mail className="h-3 w-3" />
-                              {contact.email}
-                            </a>
-                          )}
+                      )}
+                      {companyInfo.companyPhone && (
+                        <div className="flex items-center gap-2">
+                          <Phone className="h-3.5 w-3.5 text-muted-foreground" />
+                          <a href={`tel:${companyInfo.companyPhone}`} className="hover:underline">
+                            {companyInfo.companyPhone}
+                          </a>
                         </div>
+                      )}
+                      {companyInfo.companyMobile && (
+                        <div className="flex items-center gap-2">
+                          <MessageSquare className="h-3.5 w-3.5 text-muted-foreground" />
+                          <a href={`tel:${companyInfo.companyMobile}`} className="hover:underline">
+                            {companyInfo.companyMobile}
+                          </a>
+                        </div>
+                      )}
+                    </div>
+                
+                    {/* Contact List */}
+                    {companyInfo.contacts.length > 0 && (
+                      <div className="space-y-2 pt-2 border-t">
+                        <span className="text-xs font-medium text-muted-foreground">Contacts</span>
+                        {companyInfo.contacts.map((contact) => (
+                          <div key={contact.uuid} className="flex items-center justify-between text-sm bg-white/50 rounded px-2 py-1.5">
+                            <div className="flex items-center gap-2">
+                              <User className="h-3.5 w-3.5 text-muted-foreground" />
+                              <span className="font-medium">{contact.name}</span>
+                              {contact.isPrimary && (
+                                <Badge variant="secondary" className="text-[10px] px-1 py-0">Primary</Badge>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                              {contact.mobile && (
+                                <a href={`tel:${contact.mobile}`} className="hover:text-primary flex items-center gap-1">
+                                  <Phone className="h-3 w-3" />
+                                  {contact.mobile}
+                                </a>
+                              )}
+                              {contact.email && (
+                                <a href={`mailto:${contact.email}`} className="hover:text-primary flex items-center gap-1">
+                                  <Mail className="h-3 w-3" />
+                                  {contact.email}
+                                </a>
+                              )}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                )}
+                    )}
                 
-                {!companyInfo.companyEmail && !companyInfo.companyPhone && !companyInfo.companyMobile && companyInfo.contacts.length === 0 && (
-                  <p className="text-sm text-muted-foreground">No contact information available</p>
+                    {!companyInfo.companyEmail && !companyInfo.companyPhone && !companyInfo.companyMobile && companyInfo.contacts.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No contact information available</p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground bg-muted/30 rounded-md p-3">
+                    {job.serviceM8Uuid ? "No company contact information found" : "Job not linked to ServiceM8"}
+                  </p>
                 )}
               </div>
-            ) : (
-              <p className="text-sm text-muted-foreground bg-muted/30 rounded-md p-3">
-                {job.serviceM8Uuid ? "No company contact information found" : "Job not linked to ServiceM8"}
-              </p>
-            )}
-          </div>
           
-          <Separator />
+              <Separator />
           
-          <div className="space-y-1">
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Briefcase className="h-4 w-4" />
-              <span>Description</span>
-            </div>
-            <p className="text-sm bg-muted/50 p-3 rounded-md">{job.description || "No description"}</p>
-          </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Briefcase className="h-4 w-4" />
+                  <span>Description</span>
+                </div>
+                <p className="text-sm bg-muted/50 p-3 rounded-md">{job.description || "No description"}</p>
+              </div>
           
-          <Separator />
+              <Separator />
           
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <User className="h-4 w-4" />
-                <span>Assigned Staff</span>
-              </div>
-              <p className="text-sm font-medium">{job.assignedStaff}</p>
-            </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <User className="h-4 w-4" />
+                    <span>Assigned Staff</span>
+                  </div>
+                  <p className="text-sm font-medium">{job.assignedStaff}</p>
+                </div>
             
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Calendar className="h-4 w-4" />
-                <span>Status</span>
-              </div>
-              <div className="flex gap-2">
-                <Badge variant={job.lifecyclePhase === 'work_order' ? 'default' : 'secondary'}>
-                  {job.lifecyclePhase === 'work_order' ? 'Work Order' : 'Quote'}
-                </Badge>
-                <Badge variant="outline">{job.status}</Badge>
-              </div>
-            </div>
-          </div>
-          
-          {/* Job Type Selection */}
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Wrench className="h-4 w-4" />
-                <span>Job Type</span>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4" />
+                    <span>Status</span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Badge variant={job.lifecyclePhase === 'work_order' ? 'default' : 'secondary'}>
+                      {job.lifecyclePhase === 'work_order' ? 'Work Order' : 'Quote'}
+                    </Badge>
+                    <Badge variant="outline">{job.status}</Badge>
+                  </div>
+                </div>
               </div>
-              {workTypes.length > 0 ? (
-                <Select
-                  value={job.workTypeId?.toString() || "none"}
-                  onValueChange={handleWorkTypeChange}
-                >
-                  <SelectTrigger className="h-9 text-sm" data-testid={`select-job-type-dialog-${job.id}`}>
-                    <SelectValue placeholder="Select job type..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {workTypes.filter(wt => wt.isActive).map(wt => (
-                      <SelectItem key={wt.id} value={wt.id.toString()}>
-                        {wt.name}
-                      </SelectItem>
+
+              {/* Attributes from mapped ServiceM8 custom fields */}
+              {jobDetails.length > 0 && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Ruler className="h-4 w-4" />
+                    <span>Job Details</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm" data-testid={`job-details-${job.id}`}>
+                    {jobDetails.map(([label, value]) => (
+                      <div key={label} className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">{label}</span>
+                        <span className="font-medium text-right">{value}</span>
+                      </div>
                     ))}
-                  </SelectContent>
-                </Select>
-              ) : (
-                <p className="text-sm text-muted-foreground">
-                  {currentWorkType?.name || "Not set"}
-                </p>
+                  </div>
+                </div>
               )}
-            </div>
-            
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <AlertCircle className="h-4 w-4" />
-                <span>Priority</span>
-              </div>
-              <Badge variant={job.urgency === 'critical' ? 'destructive' : job.urgency === 'high' ? 'default' : 'secondary'}>
-                {job.urgency}
-              </Badge>
-            </div>
-          </div>
           
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <MessageSquare className="h-4 w-4" />
-                <span>Last Contact</span>
-              </div>
-              <p className="text-sm">
-                {job.lastCommunicationType === 'email' ? 'Email' : 
-                 job.lastCommunicationType === 'call' ? 'Phone call' : 
-                 job.lastCommunicationType === 'sms' ? 'SMS' : 'Note'} - {job.daysSinceLastContact} days ago
-              </p>
-            </div>
+              {/* Job Type Selection */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Wrench className="h-4 w-4" />
+                    <span>Job Type</span>
+                  </div>
+                  {workTypes.length > 0 ? (
+                    <Select
+                      value={job.workTypeId?.toString() || "none"}
+                      onValueChange={handleWorkTypeChange}
+                    >
+                      <SelectTrigger className="h-9 text-sm" data-testid={`select-job-type-dialog-${job.id}`}>
+                        <SelectValue placeholder="Select job type..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {workTypes.filter(wt => wt.isActive).map(wt => (
+                          <SelectItem key={wt.id} value={wt.id.toString()}>
+                            {wt.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {currentWorkType?.name || "Not set"}
+                    </p>
+                  )}
+                </div>
             
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <CalendarClock className="h-4 w-4" />
-                <span>Quote Age</span>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <AlertCircle className="h-4 w-4" />
+                    <span>Priority</span>
+                  </div>
+                  <Badge variant={job.urgency === 'critical' ? 'destructive' : job.urgency === 'high' ? 'default' : 'secondary'}>
+                    {job.urgency}
+                  </Badge>
+                </div>
               </div>
-              <p className="text-sm">
-                {job.hoursSinceQuoteSent != null 
-                  ? `${job.hoursSinceQuoteSent} hours since quote sent`
-                  : job.daysSinceQuoteSent != null
-                    ? `${job.daysSinceQuoteSent} days since quote sent`
-                    : "Quote not sent yet"}
-              </p>
-            </div>
-          </div>
           
-          <Separator />
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <MessageSquare className="h-4 w-4" />
-                <span>Communication History</span>
-              </div>
-              {loadingNotes && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
-            </div>
-            
-            <ScrollArea className="h-[200px] rounded-md border p-2">
-              {loadingNotes ? (
-                <div className="flex items-center justify-center h-full text-muted-foreground">
-                  <Loader2 className="h-5 w-5 animate-spin mr-2" />
-                  Loading communication history...
-                </div>
-              ) : notesError ? (
-                <div className="flex flex-col items-center justify-center h-full text-center py-4">
-                  <AlertCircle className="h-5 w-5 text-amber-500 mb-2" />
-                  <p className="text-sm text-amber-600 font-medium">{notesError}</p>
-                  <p className="text-xs text-muted-foreground mt-1">Please reconnect to ServiceM8 in Settings</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MessageSquare className="h-4 w-4" />
+                    <span>Last Contact</span>
+                  </div>
+                  <p className="text-sm">
+                    {job.lastCommunicationType === 'email' ? 'Email' : 
+                     job.lastCommunicationType === 'call' ? 'Phone call' : 
+                     job.lastCommunicationType === 'sms' ? 'SMS' : 'Note'} - {job.daysSinceLastContact} days ago
+                  </p>
                 </div>
-              ) : communications.length === 0 ? (
-                <p className="text-sm text-muted-foreground text-center py-4">No communication history found</p>
-              ) : (
-                <div className="space-y-3">
-                  {communications.map((item) => (
-                    <div key={item.uuid} className={cn(
-                      "flex gap-3 p-2 rounded-md",
-                      item.direction === 'inbound' ? "bg-green-50 border-l-2 border-green-400" :
-                      item.direction === 'outbound' ? "bg-blue-50 border-l-2 border-blue-400" :
-                      "bg-muted/30"
-                    )}>
-                      <div className="mt-0.5">{getCommIcon(item)}</div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1 flex-wrap">
-                          <span className="text-xs font-medium text-muted-foreground">
-                            {item.date ? format(new Date(item.date), 'dd MMM yyyy, h:mm a') : 'Unknown date'}
-                          </span>
-                          {item.staffName && (
-                            <span className="text-xs text-muted-foreground">by {item.staffName}</span>
-                          )}
-                          <Badge variant="outline" className="text-[10px] px-1 py-0">
-                            {item.type}
-                          </Badge>
-                          {item.direction === 'inbound' && (
-                            <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-green-100 text-green-700">
-                              From Client
-                            </Badge>
-                          )}
-                          {item.direction === 'outbound' && (
-                            <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-blue-100 text-blue-700">
-                              To Client
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-sm whitespace-pre-wrap break-words">{item.content}</p>
-                      </div>
-                    </div>
-                  ))}
+            
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CalendarClock className="h-4 w-4" />
+                    <span>Quote Age</span>
+                  </div>
+                  <p className="text-sm">
+                    {job.hoursSinceQuoteSent != null 
+                      ? `${job.hoursSinceQuoteSent} hours since quote sent`
+                      : job.daysSinceQuoteSent != null
+                        ? `${job.daysSinceQuoteSent} days since quote sent`
+                        : "Quote not sent yet"}
+                  </p>
                 </div>
-              )}
-            </ScrollArea>
-          </div>
+              </div>
           
-          {(job.postInstallDate || job.panelInstallDate || job.tentativePostDate || job.tentativePanelDate) && (
-            <>
               <Separator />
               <div className="space-y-2">
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Calendar className="h-4 w-4" />
-                  <span>Schedule</span>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MessageSquare className="h-4 w-4" />
+                    <span>Communication History</span>
+                  </div>
+                  {loadingNotes && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
                 </div>
-                <div className="grid grid-cols-2 gap-2 text-sm">
-                  {job.postInstallDate && (
-                    <div className="bg-green-50 border border-green-200 p-2 rounded">
-                      <span className="font-medium text-green-700">Posts:</span> {format(job.postInstallDate, 'dd MMM yyyy')}
-                    </div>
-                  )}
-                  {job.panelInstallDate && (
-                    <div className="bg-green-50 border border-green-200 p-2 rounded">
-                      <span className="font-medium text-green-700">Panels:</span> {format(job.panelInstallDate, 'dd MMM yyyy')}
+                {communications.length > 0 && (
+                  <Input
+                    value={commSearch}
+                    onChange={(e) => setCommSearch(e.target.value)}
+                    placeholder="Search messages..."
+                    className="h-8 text-sm"
+                    data-testid={`comm-search-${job.id}`}
+                  />
+                )}
+            
+                <ScrollArea className="h-[200px] rounded-md border p-2">
+                  {loadingNotes ? (
+                    <div className="flex items-center justify-center h-full text-muted-foreground">
+                      <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                      Loading communication history...
                     </div>
-                  )}
-                  {job.tentativePostDate && (
-                    <div className="bg-amber-50 border border-amber-200 p-2 rounded">
-                      <span className="font-medium text-amber-700">Tentative Posts:</span> {format(job.tentativePostDate, 'dd MMM yyyy')}
+                  ) : notesError ? (
+                    <div className="flex flex-col items-center justify-center h-full text-center py-4">
+                      <AlertCircle className="h-5 w-5 text-amber-500 mb-2" />
+                      <p className="text-sm text-amber-600 font-medium">{notesError}</p>
                     </div>
-                  )}
-                  {job.tentativePanelDate && (
-                    <div className="bg-amber-50 border border-amber-200 p-2 rounded">
-                      <span className="font-medium text-amber-700">Tentative Panels:</span> {format(job.tentativePanelDate, 'dd MMM yyyy')}
+                  ) : communications.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No communication history synced from ServiceM8 yet</p>
+                  ) : visibleCommunications.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No messages match your search</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {visibleCommunications.map((item) => (
+                        <div key={item.uuid} className={cn(
+                          "flex gap-3 p-2 rounded-md",
+                          item.direction === 'inbound' ? "bg-green-50 border-l-2 border-green-400" :
+                          item.direction === 'outbound' ? "bg-blue-50 border-l-2 border-blue-400" :
+                          "bg-muted/30"
+                        )}>
+                          <div className="mt-0.5">{getCommIcon(item)}</div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                              <span className="text-xs font-medium text-muted-foreground">
+                                {item.date ? format(new Date(item.date), 'dd MMM yyyy, h:mm a') : 'Unknown date'}
+                              </span>
+                              {item.staffName && (
+                                <span className="text-xs text-muted-foreground">by {item.staffName}</span>
+                              )}
+                              <Badge variant="outline" className="text-[10px] px-1 py-0" title={item.classificationReason}>
+                                {item.type}
+                              </Badge>
+                              {item.direction === 'inbound' && (
+                                <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-green-100 text-green-700">
+                                  From Client
+                                </Badge>
+                              )}
+                              {item.direction === 'outbound' && (
+                                <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-blue-100 text-blue-700">
+                                  To Client
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="text-sm whitespace-pre-wrap break-words">{item.content}</p>
+                          </div>
+                        </div>
+                      ))}
                     </div>
                   )}
-                </div>
+                </ScrollArea>
               </div>
-            </>
-          )}
           
-          {job.serviceM8Uuid && (
-            <>
-              <Separator />
-              <Button 
-                variant="outline" 
-                className="w-full"
-                onClick={() => window.open(`https://go.servicem8.com/job/${job.serviceM8Uuid}`, '_blank')}
-              >
-                <ExternalLink className="h-4 w-4 mr-2" />
-                Open in ServiceM8
-              </Button>
-            </>
-          )}
-        </div>
+              {(job.postInstallDate || job.panelInstallDate || job.tentativePostDate || job.tentativePanelDate || job.allocationError) && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Calendar className="h-4 w-4" />
+                      <span>Schedule</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {job.postInstallDate && (
+                        <div className="bg-green-50 border border-green-200 p-2 rounded">
+                          <span className="font-medium text-green-700">Posts:</span> {format(job.postInstallDate, 'dd MMM yyyy')}
+                        </div>
+                      )}
+                      {job.panelInstallDate && (
+                        <div className="bg-green-50 border border-green-200 p-2 rounded">
+                          <span className="font-medium text-green-700">Panels:</span> {format(job.panelInstallDate, 'dd MMM yyyy')}
+                        </div>
+                      )}
+                      {job.tentativePostDate && (
+                        <div className="bg-amber-50 border border-amber-200 p-2 rounded">
+                          <span className="font-medium text-amber-700">Tentative Posts:</span> {format(job.tentativePostDate, 'dd MMM yyyy')}
+                        </div>
+                      )}
+                      {job.tentativePanelDate && (
+                        <div className="bg-amber-50 border border-amber-200 p-2 rounded">
+                          <span className="font-medium text-amber-700">Tentative Panels:</span> {format(job.tentativePanelDate, 'dd MMM yyyy')}
+                        </div>
+                      )}
+                    </div>
+                    {job.allocationError && (
+                      <div className="flex items-start gap-2 bg-red-50 border border-red-200 p-2 rounded text-sm text-red-700">
+                        <CalendarX className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>Not booked in ServiceM8 - {job.allocationError}. Reschedule the job to try again.</span>
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+          
+              {job.serviceM8Uuid && (
+                <>
+                  <Separator />
+                  <Button 
+                    variant="outline" 
+                    className="w-full"
+                    onClick={() => window.open(`https://go.servicem8.com/job/${job.serviceM8Uuid}`, '_blank')}
+                  >
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open in ServiceM8
+                  </Button>
+                </>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-0">
+            <JobHistory jobId={Number(job.id)} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
       </Dialog>
       
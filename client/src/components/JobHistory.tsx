@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, History } from "lucide-react";
+import { api } from "@/lib/api";
+import type { AuditSource, JobHistoryEntry } from "@shared/schema";
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  ui: "App",
+  sync: "Sync",
+  automation: "Automatic",
+};
+
+const SOURCE_STYLES: Record<AuditSource, string> = {
+  ui: "bg-blue-50 text-blue-700 border-blue-200",
+  sync: "bg-purple-50 text-purple-700 border-purple-200",
+  automation: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+// 'panelInstallDate' -> 'panel install date'
+export function fieldLabel(field: string): string {
+  return field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "string" && ISO_DATE.test(value)) return format(new Date(value), "d MMM yyyy, h:mm a");
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function describe(entry: JobHistoryEntry): string {
+  const subject = entry.entityType === "stage_progress" ? `Stage "${entry.stageName ?? "unknown"}"` : "Job";
+  if (entry.action === "create") return `${subject} created`;
+  if (entry.action === "delete") return `${subject} deleted`;
+  return `${subject} ${fieldLabel(entry.field ?? "value")}`;
+}
+
+export function JobHistory({ jobId }: { jobId: number }) {
+  const { data: history = [], isLoading, error } = useQuery<JobHistoryEntry[]>({
+    queryKey: ["/api/jobs", jobId, "history"],
+    queryFn: () => api.jobs.history(jobId),
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-8">{(error as Error).message}</p>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-sm text-muted-foreground">
+        <History className="h-5 w-5 mb-2" />
+        No changes recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`job-history-${jobId}`}>
+      {history.map(entry => (
+        <div key={entry.id} className="border rounded-md p-2 text-sm">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{entry.actorName}</span>
+            <Badge variant="outline" className={`h-4 text-[10px] px-1 ${SOURCE_STYLES[entry.source as AuditSource] ?? ""}`}>
+              {SOURCE_LABELS[entry.source as AuditSource] ?? entry.source}
+            </Badge>
+            <span className="ml-auto">{format(new Date(entry.createdAt), "d MMM yyyy, h:mm a")}</span>
+          </div>
+          <div className="mt-1">{describe(entry)}</div>
+          {entry.action === "update" && (
+            <div className="mt-0.5 text-xs text-muted-foreground break-all">
+              <span className="line-through">{formatValue(entry.before)}</span>
+              <span className="mx-1">→</span>
+              <span className="text-foreground">{formatValue(entry.after)}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
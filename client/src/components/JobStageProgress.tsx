@@ -1,8 +1,13 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle2, Circle, Clock, Loader2 } from "lucide-react";
-import type { WorkType, WorkTypeStage, JobStageProgress as JobStageProgressType } from "@shared/schema";
+import { ConflictDialog } from "@/components/ConflictDialog";
+import { EditConflictError, patchVersioned } from "@/lib/conflicts";
+import { api } from "@/lib/api";
+import type { StageProgressUpdate } from "@shared/api";
+import type { WorkType, WorkTypeStage, JobStageProgress as JobStageProgressType, StageProgressStatus } from "@shared/schema";
 
 interface JobStageProgressProps {
   jobId: number;
@@ -20,39 +25,32 @@ export function JobStageProgress({ jobId, workTypeId, compact = false }: JobStag
 
   const { data: stageProgress = [] } = useQuery<JobStageProgressType[]>({
     queryKey: ["/api/jobs", jobId, "stage-progress"],
-    queryFn: async () => {
-      const res = await fetch(`/api/jobs/${jobId}/stage-progress`);
-      if (!res.ok) throw new Error("Failed to fetch stage progress");
-      return res.json();
-    },
+    queryFn: () => api.stageProgress.list(jobId),
     enabled: !!jobId,
   });
 
+  const [conflict, setConflict] = useState<{ stageId: number; error: EditConflictError<JobStageProgressType, StageProgressUpdate> } | null>(null);
   const updateProgressMutation = useMutation({
-    mutationFn: async ({ stageId, status }: { stageId: number; status: string }) => {
-      const res = await fetch(`/api/jobs/${jobId}/stage-progress/${stageId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
-      });
-      if (!res.ok) throw new Error("Failed to update stage progress");
-      return res.json();
+    mutationFn: ({ stageId, status }: { stageId: number; status: StageProgressStatus }) => {
+      const base = stageProgress.find(p => p.stageId === stageId);
+      return patchVersioned(base, { status }, body => api.stageProgress.update(jobId, stageId, body));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "stage-progress"] });
     },
+    onError: (error: Error, { stageId }) => {
+      if (error instanceof EditConflictError) {
+        const current = error.current as JobStageProgressType;
+        queryClient.setQueryData<JobStageProgressType[]>(["/api/jobs", jobId, "stage-progress"], (progress) =>
+          progress?.map(p => p.stageId === current.stageId ? current : p)
+        );
+        setConflict({ stageId, error: error as EditConflictError<JobStageProgressType, StageProgressUpdate> });
+      }
+    },
   });
 
   const initializeStageMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch(`/api/jobs/${jobId}/initialize-stages`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ workTypeId }),
-      });
-      if (!res.ok) throw new Error("Failed to initialize stages");
-      return res.json();
-    },
+    mutationFn: () => api.stageProgress.initialize(jobId, workTypeId!),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "stage-progress"] });
     },
@@ -110,6 +108,15 @@ export function JobStageProgress({ jobId, workTypeId, compact = false }: JobStag
 
   return (
     <div className="space-y-2">
+      <ConflictDialog
+        conflict={conflict?.error ?? null}
+        subject={`"${stages.find(stage => stage.id === conflict?.stageId)?.name ?? "This stage"}"`}
+        onKeepMine={() => {
+          if (conflict) updateProgressMutation.mutate({ stageId: conflict.stageId, status: conflict.error.updates.status! });
+          setConflict(null);
+        }}
+        onKeepTheirs={() => setConflict(null)}
+      />
       <div className="flex items-center justify-between text-xs font-medium text-muted-foreground mb-1">
         <span className="flex items-center gap-1.5">
           <Badge variant="outline" className={cn("h-5 text-[10px]", `bg-${workType.color}-50 text-${workType.color}-700 border-${workType.color}-200`)}>
@@ -0,0 +1,26 @@
+import { WifiOff } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useServerEventsStatus } from "@/lib/serverEvents";
+
+// Only shown while the live update stream is down; the boards catch up once it reconnects
+export function LiveUpdatesIndicator() {
+  const connected = useServerEventsStatus();
+  if (connected) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className="flex items-center gap-1 rounded-md border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-700"
+          data-testid="live-updates-offline"
+        >
+          <WifiOff className="h-3.5 w-3.5" />
+          Offline
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        Live updates have stopped. Reconnecting... Changes made by others won't show until then.
+      </TooltipContent>
+    </Tooltip>
+  );
+}
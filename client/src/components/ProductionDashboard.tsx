@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from "react";
 import { Job, PIPELINES } from "@/lib/mockData";
 import { useSettings } from "@/lib/settingsContext";
+import { useServerEvents } from "@/lib/serverEvents";
+import { EditConflictError, patchVersioned } from "@/lib/conflicts";
+import { ConflictDialog } from "@/components/ConflictDialog";
 import { PipelineBoard } from "@/components/PipelineBoard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,38 +15,9 @@ import { Play, Pause, CheckSquare, Package, Loader2, Wrench } from "lucide-react
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-
-interface WorkType {
-  id: number;
-  name: string;
-  description?: string;
-  color: string;
-  isDefault: boolean;
-  isActive: boolean;
-}
-
-interface WorkTypeStage {
-  id: number;
-  workTypeId: number;
-  name: string;
-  key: string;
-  orderIndex: number;
-  category: string;
-  description?: string;
-}
-
-interface StageProgress {
-  id: number;
-  jobId: number;
-  stageId: number;
-  status: string;
-  completedAt?: string;
-  completedBy?: string;
-  notes?: string;
-  timerRunning: boolean;
-  timerStartedAt?: string;
-  totalTimeSeconds: number;
-}
+import { api } from "@/lib/api";
+import type { JobStageProgress as StageProgress, StageProgressStatus, WorkType, WorkTypeStage } from "@shared/schema";
+import type { StageProgressUpdate } from "@shared/api";
 
 interface ProductionDashboardProps {
   jobs: Job[];
@@ -83,16 +57,13 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
   const { data: workTypesWithStages = {} } = useQuery<Record<number, { workType: WorkType; stages: WorkTypeStage[] }>>({
     queryKey: ["workTypesWithStages"],
     queryFn: async () => {
-      const res = await fetch("/api/work-types");
-      if (!res.ok) throw new Error("Failed to fetch work types");
-      const workTypes: WorkType[] = await res.json();
+      const workTypes = await api.workTypes.list();
       
       const result: Record<number, { workType: WorkType; stages: WorkTypeStage[] }> = {};
       
       for (const wt of workTypes) {
-        const stagesRes = await fetch(`/api/work-types/${wt.id}/stages`);
-        if (stagesRes.ok) {
-          const stages: WorkTypeStage[] = await stagesRes.json();
+        const stages = await api.workTypes.stages(wt.id).catch(() => null);
+        if (stages) {
           result[wt.id] = { workType: wt, stages: stages.sort((a, b) => a.orderIndex - b.orderIndex) };
         }
       }
@@ -110,9 +81,9 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
       
       for (const job of productionJobs) {
         if (job.workTypeId) {
-          const res = await fetch(`/api/jobs/${job.id}/stage-progress`);
-          if (res.ok) {
-            result[job.id] = await res.json();
+          const progress = await api.stageProgress.list(job.id).catch(() => null);
+          if (progress) {
+            result[job.id] = progress;
           }
         }
       }
@@ -122,20 +93,46 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
     staleTime: 30 * 1000,
   });
   
+  // Put a stage's latest progress in the cache, or reload if the job's stages aren't cached yet
+  const setCachedProgress = (progress: StageProgress) => {
+    const jobKey = String(progress.jobId);
+    let cached = false;
+    queryClient.setQueriesData<Record<string, StageProgress[]>>({ queryKey: ["stageProgress"] }, (current) => {
+      const jobProgress = current?.[jobKey];
+      if (!current || !jobProgress) return current;
+      cached = true;
+      const updated = jobProgress.some(p => p.stageId === progress.stageId)
+        ? jobProgress.map(p => p.stageId === progress.stageId ? progress : p)
+        : [...jobProgress, progress];
+      return { ...current, [jobKey]: updated };
+    });
+    // A job that has only just been given stages isn't in the cache yet
+    if (!cached) queryClient.invalidateQueries({ queryKey: ["stageProgress"] });
+  };
+
+  // Stage changes made by others show up as they're saved
+  useServerEvents((event) => {
+    if (event.type !== "stage_progress") return;
+    if (!productionJobs.some(job => job.id === String(event.jobId))) return;
+    setCachedProgress(event.progress);
+  });
+  
   // Mutation to update stage progress
+  const [stageConflict, setStageConflict] = useState<{ jobId: number; stageId: number; error: EditConflictError<StageProgress, StageProgressUpdate> } | null>(null);
   const updateStageMutation = useMutation({
-    mutationFn: async ({ jobId, stageId, status }: { jobId: number; stageId: number; status: string }) => {
-      const res = await fetch(`/api/jobs/${jobId}/stage-progress/${stageId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
-      });
-      if (!res.ok) throw new Error("Failed to update stage");
-      return res.json();
+    mutationFn: ({ jobId, stageId, status }: { jobId: number; stageId: number; status: StageProgressStatus }) => {
+      const base = stageProgressMap[String(jobId)]?.find(p => p.stageId === stageId);
+      return patchVersioned(base, { status }, body => api.stageProgress.update(jobId, stageId, body));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["stageProgress"] });
     },
+    onError: (error: Error, { jobId, stageId }) => {
+      if (error instanceof EditConflictError) {
+        setCachedProgress(error.current as StageProgress);
+        setStageConflict({ jobId, stageId, error: error as EditConflictError<StageProgress, StageProgressUpdate> });
+      }
+    },
   });
   
   const toggleStageComplete = (jobId: number, stageId: number, currentStatus: string) => {
@@ -221,7 +218,7 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
       
       // Try to save to backend (for a generic job timer, use stageId = 0)
       try {
-        await fetch(`/api/jobs/${dbJobId}/stages/0/timer/stop`, { method: 'POST' });
+        await api.stageProgress.stopTimer(dbJobId, 0);
       } catch (e) {
         console.error("Failed to save timer to backend:", e);
       }
@@ -239,7 +236,7 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
       
       // Try to save to backend
       try {
-        await fetch(`/api/jobs/${dbJobId}/stages/0/timer/start`, { method: 'POST' });
+        await api.stageProgress.startTimer(dbJobId, 0);
       } catch (e) {
         console.error("Failed to save timer to backend:", e);
       }
@@ -454,6 +451,18 @@ export function ProductionDashboard({ jobs, onJobMove }: ProductionDashboardProp
           </CardContent>
         </Card>
       </TabsContent>
+
+      <ConflictDialog
+        conflict={stageConflict?.error ?? null}
+        subject={`The stage on ${jobs.find(job => job.id === String(stageConflict?.jobId))?.jobId ?? "this job"}`}
+        onKeepMine={() => {
+          if (stageConflict) {
+            updateStageMutation.mutate({ jobId: stageConflict.jobId, stageId: stageConflict.stageId, status: stageConflict.error.updates.status! });
+          }
+          setStageConflict(null);
+        }}
+        onKeepTheirs={() => setStageConflict(null)}
+      />
     </Tabs>
   );
 }
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Job, SCHEDULER_COLUMNS } from "@/lib/mockData";
 import { useSettings } from "@/lib/settingsContext";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
@@ -9,16 +10,22 @@ import { Calendar as CalendarIcon, MapPin, Truck, Factory, Users, Clock, GripVer
 import { format, addDays, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, parseISO, differenceInDays, isAfter, addWeeks } from "date-fns";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { JobStageProgress } from "@/components/JobStageProgress";
+import { useAuth } from "@/lib/auth";
+import { useServerEvents } from "@/lib/serverEvents";
+import { isOwnJob } from "@shared/permissions";
+import type { JobStageProgress as JobStageProgressType, SchedulerStage } from "@shared/schema";
 
 interface SchedulerDashboardProps {
   jobs: Job[];
   onJobMove: (jobId: string, newStatus: string) => void;
-  onScheduleJob?: (jobId: string, type: 'posts' | 'panels', date: Date) => void;
+  onScheduleJob?: (jobId: string, type: 'posts' | 'panels', date: Date, fromTentative?: boolean) => void; // fromTentative clears the tentative date in the same edit
   onUnscheduleJob?: (jobId: string, type: 'posts' | 'panels') => void;
   onTentativeSchedule?: (jobId: string, type: 'posts' | 'panels', date: Date) => void;
   onUnscheduleTentative?: (jobId: string, type: 'posts' | 'panels') => void;
   onConfirmTentative?: (jobId: string, type: 'posts' | 'panels') => void;
-  onSchedulerStageChange?: (jobId: string, newStage: string) => void;
+  onSchedulerStageChange?: (jobId: string, newStage: SchedulerStage) => void;
+  canUpdateOwnStages?: boolean; // Show the stage checklist on the user's own jobs, for installers
 }
 
 type SchedulerView = 'alljobs' | 'tentative' | 'install';
@@ -30,9 +37,28 @@ export function SchedulerDashboard({
   onTentativeSchedule,
   onUnscheduleTentative,
   onConfirmTentative,
-  onSchedulerStageChange
+  onSchedulerStageChange,
+  canUpdateOwnStages = false
 }: SchedulerDashboardProps) {
   const { staff, pipelines, getDailyInstallCapacity } = useSettings();
+  const { user } = useAuth();
+  const ownStaffMember = staff.find(member => member.id === user?.staffId);
+  const showsStages = (job: Job) => canUpdateOwnStages && !!job.workTypeId && !!ownStaffMember
+    && isOwnJob(job, { id: ownStaffMember.id, serviceM8Uuid: ownStaffMember.serviceM8Uuid ?? null });
+  const queryClient = useQueryClient();
+
+  // Keep the stage checklists on installers' cards in step with changes made elsewhere
+  useServerEvents((event) => {
+    if (event.type !== "stage_progress") return;
+    const { progress } = event;
+    queryClient.setQueryData<JobStageProgressType[]>(["/api/jobs", event.jobId, "stage-progress"], (current) => {
+      if (!current) return current;
+      return current.some(p => p.stageId === progress.stageId)
+        ? current.map(p => p.stageId === progress.stageId ? progress : p)
+        : [...current, progress];
+    });
+  });
+
   const [schedulerView, setSchedulerView] = useState<SchedulerView>('alljobs');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [tentativeSelectedDate, setTentativeSelectedDate] = useState<Date>(addWeeks(new Date(), 2));
@@ -140,13 +166,9 @@ export function SchedulerDashboard({
         return;
       }
       
-      // If this was a tentative job being confirmed, clear tentative state first
-      if (isTentativeDrag && onUnscheduleTentative) {
-        onUnscheduleTentative(jobId, type as 'posts' | 'panels');
-      }
-      
+      // A tentative job being confirmed is one edit, so a single undo puts it back
       if (onScheduleJob) {
-        onScheduleJob(jobId, type as 'posts' | 'panels', date);
+        onScheduleJob(jobId, type as 'posts' | 'panels', date, isTentativeDrag);
       }
     }
     
@@ -381,7 +403,7 @@ export function SchedulerDashboard({
           <DragDropContext onDragEnd={(result) => {
             if (!result.destination || !onSchedulerStageChange) return;
             const jobId = result.draggableId.replace('kanban-', '');
-            const newStage = result.destination.droppableId;
+            const newStage = result.destination.droppableId as SchedulerStage;
             onSchedulerStageChange(jobId, newStage);
           }}>
             <div className="flex-1 flex gap-3 overflow-x-auto pb-2">
@@ -406,7 +428,7 @@ export function SchedulerDashboard({
                             {columnJobs.map((job, index) => {
                               const isComplete = job.status === 'complete';
                               return (
-                              <Draggable key={job.id} draggableId={`kanban-${job.id}`} index={index}>
+                              <Draggable key={job.id} draggableId={`kanban-${job.id}`} index={index} isDragDisabled={!onSchedulerStageChange}>
                                 {(provided, snapshot) => (
                                   <div
                                     ref={provided.innerRef}
@@ -428,6 +450,11 @@ export function SchedulerDashboard({
                                       <MapPin className="h-3 w-3 shrink-0" /> 
                                       <span className="truncate">{job.address.split('\n')[0]}</span>
                                     </div>
+                                    {showsStages(job) && (
+                                      <div className="mt-2 pt-2 border-t">
+                                        <JobStageProgress jobId={Number(job.id)} workTypeId={job.workTypeId} />
+                                      </div>
+                                    )}
                                   </div>
                                 )}
                               </Draggable>
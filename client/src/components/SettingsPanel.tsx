@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ReactNode } from "react";
 import { useSettings, StaffMember, PipelineColumn, PipelineConfig } from "@/lib/settingsContext";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -9,10 +9,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
-import { Pencil, Trash2, Plus, Save, X, User, GripVertical, Settings, Layers, Users, Check, Boxes, ChevronDown, ChevronUp } from "lucide-react";
+import { Pencil, Trash2, Plus, Save, X, User, GripVertical, Settings, Layers, Users, Check, Boxes, ChevronDown, ChevronUp, History, Workflow, Archive, Tags, UserCog, type LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { WorkType, WorkTypeStage, InsertWorkType, InsertWorkTypeStage } from "@shared/schema";
+import type { WorkTypeCreate, WorkTypeStageCreate, WorkTypeStageUpdate, ServiceM8OAuthStatus } from "@shared/api";
+import { api } from "@/lib/api";
+import { SyncHistoryPanel } from "@/components/SyncHistoryPanel";
+import { SyncConflictsPanel } from "@/components/SyncConflictsPanel";
+import { ArchivedJobsPanel } from "@/components/ArchivedJobsPanel";
+import { StatusRulesPanel } from "@/components/StatusRulesPanel";
+import { CustomFieldsPanel } from "@/components/CustomFieldsPanel";
+import { UsersPanel } from "@/components/UsersPanel";
+import { useAuth } from "@/lib/auth";
+import type { Permission } from "@shared/permissions";
+import { quoteAgingBandsSchema, type QuoteAgingBand } from "@shared/companySettings";
 
 const ROLE_OPTIONS = [
   { value: "sales", label: "Sales" },
@@ -37,43 +48,59 @@ const COLOR_OPTIONS = [
 
 const SKILL_OPTIONS = ["posts", "panels", "production"] as const;
 
-export function SettingsPanel() {
-  return (
-    <Tabs defaultValue="staff" className="w-full">
-      <TabsList className="grid w-full grid-cols-4 mb-4">
-        <TabsTrigger value="staff" className="flex items-center gap-2">
-          <Users className="h-4 w-4" />
-          Staff
-        </TabsTrigger>
-        <TabsTrigger value="work-types" className="flex items-center gap-2">
-          <Boxes className="h-4 w-4" />
-          Work Types
-        </TabsTrigger>
-        <TabsTrigger value="pipelines" className="flex items-center gap-2">
-          <Layers className="h-4 w-4" />
-          Pipelines
-        </TabsTrigger>
-        <TabsTrigger value="general" className="flex items-center gap-2">
-          <Settings className="h-4 w-4" />
-          General
-        </TabsTrigger>
-      </TabsList>
+const TIMEZONE_OPTIONS = [
+  { value: "Australia/Perth", label: "Perth (AWST)" },
+  { value: "Australia/Darwin", label: "Darwin (ACST)" },
+  { value: "Australia/Adelaide", label: "Adelaide (ACST/ACDT)" },
+  { value: "Australia/Brisbane", label: "Brisbane (AEST)" },
+  { value: "Australia/Sydney", label: "Sydney (AEST/AEDT)" },
+  { value: "Australia/Melbourne", label: "Melbourne (AEST/AEDT)" },
+  { value: "Australia/Hobart", label: "Hobart (AEST/AEDT)" },
+  { value: "Pacific/Auckland", label: "Auckland (NZST/NZDT)" },
+  { value: "UTC", label: "UTC" },
+];
+
+// Each tab shows only for users with its permission
+const SETTINGS_TABS: { value: string; label: string; icon: LucideIcon; permission: Permission; content: () => ReactNode }[] = [
+  { value: "staff", label: "Staff", icon: Users, permission: "staff.edit", content: () => <StaffSettings /> },
+  { value: "work-types", label: "Work Types", icon: Boxes, permission: "workTypes.edit", content: () => <WorkTypesSettings /> },
+  { value: "pipelines", label: "Pipelines", icon: Layers, permission: "settings.edit", content: () => <PipelineSettings /> },
+  { value: "general", label: "General", icon: Settings, permission: "settings.edit", content: () => <GeneralSettings /> },
+  { value: "status-rules", label: "Status Rules", icon: Workflow, permission: "settings.edit", content: () => <StatusRulesPanel /> },
+  { value: "custom-fields", label: "Custom Fields", icon: Tags, permission: "settings.edit", content: () => <CustomFieldsPanel /> },
+  {
+    value: "sync", label: "Sync", icon: History, permission: "sync.run",
+    content: () => <div className="space-y-4"><SyncConflictsPanel /><SyncHistoryPanel /></div>,
+  },
+  { value: "archived", label: "Archived", icon: Archive, permission: "system.manage", content: () => <ArchivedJobsPanel /> },
+  { value: "users", label: "Users", icon: UserCog, permission: "users.manage", content: () => <UsersPanel /> },
+];
 
-      <TabsContent value="staff">
-        <StaffSettings />
-      </TabsContent>
+// Full class names so Tailwind picks them up
+const TAB_GRID_COLS = ["grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6", "grid-cols-7", "grid-cols-8", "grid-cols-9"];
 
-      <TabsContent value="work-types">
-        <WorkTypesSettings />
-      </TabsContent>
+export function SettingsPanel() {
+  const { can } = useAuth();
+  const tabs = SETTINGS_TABS.filter(tab => can(tab.permission));
 
-      <TabsContent value="pipelines">
-        <PipelineSettings />
-      </TabsContent>
+  if (tabs.length === 0) return null;
 
-      <TabsContent value="general">
-        <GeneralSettings />
-      </TabsContent>
+  return (
+    <Tabs defaultValue={tabs[0].value} className="w-full">
+      <TabsList className={cn("grid w-full mb-4", TAB_GRID_COLS[tabs.length - 1])}>
+        {tabs.map(tab => (
+          <TabsTrigger key={tab.value} value={tab.value} className="flex items-center gap-2">
+            <tab.icon className="h-4 w-4" />
+            {tab.label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {tabs.map(tab => (
+        <TabsContent key={tab.value} value={tab.value}>
+          {tab.content()}
+        </TabsContent>
+      ))}
     </Tabs>
   );
 }
@@ -123,6 +150,7 @@ function StaffSettings() {
         skills: newStaffForm.skills || [],
         color: newStaffForm.color || "bg-blue-500",
         active: true,
+        serviceM8Uuid: newStaffForm.serviceM8Uuid?.trim() || undefined,
       });
       setNewStaffForm({
         name: "",
@@ -218,6 +246,16 @@ function StaffSettings() {
               </div>
             </div>
             
+            <div>
+              <Label className="text-xs">ServiceM8 Staff UUID</Label>
+              <Input
+                value={newStaffForm.serviceM8Uuid || ""}
+                onChange={(e) => setNewStaffForm({ ...newStaffForm, serviceM8Uuid: e.target.value })}
+                placeholder="Needed to book installs in ServiceM8"
+                data-testid="new-staff-sm8-uuid"
+              />
+            </div>
+
             <div>
               <Label className="text-xs">Skills</Label>
               <div className="flex gap-2 mt-1">
@@ -308,6 +346,15 @@ function StaffSettings() {
                     </Select>
                   </div>
                 </div>
+
+                <div>
+                  <Label className="text-xs">ServiceM8 Staff UUID</Label>
+                  <Input
+                    value={editForm.serviceM8Uuid || ""}
+                    onChange={(e) => setEditForm({ ...editForm, serviceM8Uuid: e.target.value.trim() || undefined })}
+                    placeholder="Needed to book installs in ServiceM8"
+                  />
+                </div>
                 
                 <div className="flex items-center gap-4">
                   <div>
@@ -472,7 +519,10 @@ function PipelineSettings() {
       <Card>
         <CardHeader className="p-4 pb-2">
           <CardTitle className="text-sm font-medium capitalize">{activePipeline} Pipeline Stages</CardTitle>
-          <CardDescription className="text-xs">Drag to reorder, click to edit</CardDescription>
+          <CardDescription className="text-xs">
+            Drag to reorder, click to edit
+            {activePipeline === "leads" && ". Link a stage to a ServiceM8 status or badge and moving a card there updates the job in ServiceM8."}
+          </CardDescription>
         </CardHeader>
         <CardContent className="p-4 pt-2 space-y-2">
           {columns.map((column, index) => (
@@ -522,6 +572,24 @@ function PipelineSettings() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {activePipeline === "leads" && (
+                    <>
+                      <Input
+                        value={editForm.serviceM8Status || ""}
+                        onChange={(e) => setEditForm({ ...editForm, serviceM8Status: e.target.value })}
+                        placeholder="ServiceM8 status"
+                        className="h-8 w-32"
+                        data-testid="edit-stage-sm8-status"
+                      />
+                      <Input
+                        value={editForm.serviceM8Badge || ""}
+                        onChange={(e) => setEditForm({ ...editForm, serviceM8Badge: e.target.value })}
+                        placeholder="ServiceM8 badge"
+                        className="h-8 w-32"
+                        data-testid="edit-stage-sm8-badge"
+                      />
+                    </>
+                  )}
                   <Button size="sm" onClick={handleSaveEdit}>
                     <Save className="h-3 w-3" />
                   </Button>
@@ -533,6 +601,12 @@ function PipelineSettings() {
                 <>
                   <div className={cn("w-3 h-3 rounded-full shrink-0", column.color)} />
                   <span className="flex-1 text-sm font-medium">{column.title}</span>
+                  {activePipeline === "leads" && column.serviceM8Status && (
+                    <Badge variant="secondary" className="text-[10px]">SM8: {column.serviceM8Status}</Badge>
+                  )}
+                  {activePipeline === "leads" && column.serviceM8Badge && (
+                    <Badge variant="secondary" className="text-[10px]">Badge: {column.serviceM8Badge}</Badge>
+                  )}
                   <Badge variant="outline" className="text-[10px] font-mono">{column.id}</Badge>
                   <Button 
                     size="icon" 
@@ -606,12 +680,13 @@ function PipelineSettings() {
 }
 
 function GeneralSettings() {
-  const { appSettings, setAppSettings } = useSettings();
+  const { appSettings, setAppSettings, pipelines } = useSettings();
   const [form, setForm] = useState(appSettings);
   const [saved, setSaved] = useState(false);
+  const [agingError, setAgingError] = useState<string | null>(null);
   const [newStageName, setNewStageName] = useState("");
   const [isAddingStage, setIsAddingStage] = useState(false);
-  const [oauthStatus, setOauthStatus] = useState<{ connected: boolean; message: string } | null>(null);
+  const [oauthStatus, setOauthStatus] = useState<ServiceM8OAuthStatus | null>(null);
   const [checkingOauth, setCheckingOauth] = useState(false);
 
   useEffect(() => {
@@ -621,9 +696,7 @@ function GeneralSettings() {
   const checkOAuthStatus = async () => {
     setCheckingOauth(true);
     try {
-      const res = await fetch("/api/auth/servicem8/status");
-      const data = await res.json();
-      setOauthStatus(data);
+      setOauthStatus(await api.servicem8.oauthStatus());
     } catch (err) {
       setOauthStatus({ connected: false, message: "Failed to check connection" });
     } finally {
@@ -637,11 +710,38 @@ function GeneralSettings() {
   };
 
   const handleSave = () => {
+    const agingBands = quoteAgingBandsSchema.safeParse(form.quoteAgingBands);
+    if (!agingBands.success) {
+      setAgingError(agingBands.error.errors[0]?.message || "Quote aging bands are invalid");
+      return;
+    }
+    setAgingError(null);
     setAppSettings(form);
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
+  const updateAgingBand = (index: number, changes: Partial<QuoteAgingBand>) => {
+    const newBands = [...form.quoteAgingBands];
+    newBands[index] = { ...newBands[index], ...changes };
+    setForm({ ...form, quoteAgingBands: newBands });
+  };
+
+  // New bands go in before the open-ended last band
+  const handleAddAgingBand = () => {
+    const bands = form.quoteAgingBands;
+    const previousLimit = bands.length > 1 ? bands[bands.length - 2].maxDays ?? 0 : 0;
+    const newBand: QuoteAgingBand = { stage: pipelines.quotes[0]?.id || "", maxDays: previousLimit + 7 };
+    setForm({ ...form, quoteAgingBands: [...bands.slice(0, -1), newBand, bands[bands.length - 1]] });
+  };
+
+  const handleDeleteAgingBand = (index: number) => {
+    const newBands = form.quoteAgingBands.filter((_, i) => i !== index);
+    // Whatever ends up last takes all older quotes
+    newBands[newBands.length - 1] = { ...newBands[newBands.length - 1], maxDays: null };
+    setForm({ ...form, quoteAgingBands: newBands });
+  };
+
   const handleAddStage = () => {
     if (!newStageName.trim()) return;
     const newStage = {
@@ -726,8 +826,89 @@ function GeneralSettings() {
                 data-testid="work-hours-input"
               />
             </div>
+            <div>
+              <Label className="text-xs">Company Timezone</Label>
+              <Select
+                value={form.companyTimezone}
+                onValueChange={(value) => setForm({ ...form, companyTimezone: value })}
+              >
+                <SelectTrigger data-testid="company-timezone-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground mt-1">ServiceM8 dates are read in this timezone</p>
+            </div>
           </div>
 
+        <div>
+          <Label className="text-xs mb-1 block">Quote Aging</Label>
+          <p className="text-[10px] text-muted-foreground mb-2">
+            Which Quotes Pipeline column a sent quote goes in, by days since it was sent
+          </p>
+          <div className="space-y-2">
+            {form.quoteAgingBands.map((band, index) => {
+              const isLast = index === form.quoteAgingBands.length - 1;
+              const previousLimit = index > 0 ? form.quoteAgingBands[index - 1].maxDays : null;
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={band.stage} onValueChange={(value) => updateAgingBand(index, { stage: value })}>
+                    <SelectTrigger className="h-8 flex-1" data-testid={`aging-band-stage-${index}`}>
+                      <SelectValue placeholder="Column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipelines.quotes.map(column => (
+                        <SelectItem key={column.id} value={column.id}>{column.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground w-20 text-right">
+                    {previousLimit !== null ? `${previousLimit + 1}` : "0"}
+                    {isLast ? "+ days" : " to"}
+                  </span>
+                  {isLast ? (
+                    <div className="w-20" />
+                  ) : (
+                    <Input
+                      type="number"
+                      min={0}
+                      value={band.maxDays ?? ""}
+                      onChange={(e) => updateAgingBand(index, { maxDays: parseInt(e.target.value) || 0 })}
+                      className="h-8 w-20"
+                      data-testid={`aging-band-days-${index}`}
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    disabled={form.quoteAgingBands.length === 1}
+                    onClick={() => handleDeleteAgingBand(index)}
+                    data-testid={`delete-aging-band-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {agingError && <p className="text-xs text-destructive">{agingError}</p>}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full mt-2"
+              onClick={handleAddAgingBand}
+              data-testid="add-aging-band-btn"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Band
+            </Button>
+          </div>
+        </div>
+
         <div>
           <Label className="text-xs mb-2 block">Install Stages</Label>
           <div className="space-y-2">
@@ -862,15 +1043,7 @@ function WorkTypesSettings() {
   });
 
   const createWorkTypeMutation = useMutation({
-    mutationFn: async (data: InsertWorkType) => {
-      const res = await fetch("/api/work-types", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
-      if (!res.ok) throw new Error("Failed to create work type");
-      return res.json();
-    },
+    mutationFn: (data: WorkTypeCreate) => api.workTypes.create(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types"] });
       setIsAddingWorkType(false);
@@ -879,10 +1052,7 @@ function WorkTypesSettings() {
   });
 
   const deleteWorkTypeMutation = useMutation({
-    mutationFn: async (id: number) => {
-      const res = await fetch(`/api/work-types/${id}`, { method: "DELETE" });
-      if (!res.ok) throw new Error("Failed to delete work type");
-    },
+    mutationFn: (id: number) => api.workTypes.delete(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types"] });
       if (selectedWorkType) setSelectedWorkType(null);
@@ -890,15 +1060,7 @@ function WorkTypesSettings() {
   });
 
   const createStageMutation = useMutation({
-    mutationFn: async (data: InsertWorkTypeStage) => {
-      const res = await fetch(`/api/work-types/${selectedWorkType?.id}/stages`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
-      if (!res.ok) throw new Error("Failed to create stage");
-      return res.json();
-    },
+    mutationFn: (data: WorkTypeStageCreate) => api.workTypes.createStage(selectedWorkType!.id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types", selectedWorkType?.id] });
       setIsAddingStage(false);
@@ -913,15 +1075,8 @@ function WorkTypesSettings() {
   });
 
   const updateStageMutation = useMutation({
-    mutationFn: async ({ stageId, data }: { stageId: number; data: Partial<WorkTypeStage> }) => {
-      const res = await fetch(`/api/work-types/${selectedWorkType?.id}/stages/${stageId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
-      });
-      if (!res.ok) throw new Error("Failed to update stage");
-      return res.json();
-    },
+    mutationFn: ({ stageId, data }: { stageId: number; data: WorkTypeStageUpdate }) =>
+      api.workTypes.updateStage(selectedWorkType!.id, stageId, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types", selectedWorkType?.id] });
       setEditingStageId(null);
@@ -930,27 +1085,14 @@ function WorkTypesSettings() {
   });
 
   const deleteStageMutation = useMutation({
-    mutationFn: async (stageId: number) => {
-      const res = await fetch(`/api/work-types/${selectedWorkType?.id}/stages/${stageId}`, { 
-        method: "DELETE" 
-      });
-      if (!res.ok) throw new Error("Failed to delete stage");
-    },
+    mutationFn: (stageId: number) => api.workTypes.deleteStage(selectedWorkType!.id, stageId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types", selectedWorkType?.id] });
     },
   });
 
   const reorderStagesMutation = useMutation({
-    mutationFn: async (stageIds: number[]) => {
-      const res = await fetch(`/api/work-types/${selectedWorkType?.id}/stages/reorder`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ stageIds }),
-      });
-      if (!res.ok) throw new Error("Failed to reorder stages");
-      return res.json();
-    },
+    mutationFn: (stageIds: number[]) => api.workTypes.reorderStages(selectedWorkType!.id, stageIds),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/work-types", selectedWorkType?.id] });
     },
@@ -958,7 +1100,7 @@ function WorkTypesSettings() {
 
   const handleCreateWorkType = () => {
     if (newWorkTypeForm.name) {
-      createWorkTypeMutation.mutate(newWorkTypeForm as InsertWorkType);
+      createWorkTypeMutation.mutate(newWorkTypeForm as WorkTypeCreate);
     }
   };
 
@@ -969,9 +1111,8 @@ function WorkTypesSettings() {
       createStageMutation.mutate({
         ...newStageForm,
         key,
-        workTypeId: selectedWorkType.id,
         orderIndex: stagesCount + 1,
-      } as InsertWorkTypeStage);
+      } as WorkTypeStageCreate);
     }
   };
 
@@ -982,7 +1123,7 @@ function WorkTypesSettings() {
 
   const handleSaveStageEdit = () => {
     if (editingStageId && editStageForm.name) {
-      updateStageMutation.mutate({ stageId: editingStageId, data: editStageForm });
+      updateStageMutation.mutate({ stageId: editingStageId, data: editStageForm as WorkTypeStageUpdate });
     }
   };
 
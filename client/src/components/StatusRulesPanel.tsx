@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, ChevronDown, ChevronUp, Eye, Loader2, Plus, RotateCcw, Save, Trash2, X } from "lucide-react";
+import { api, ApiError } from "@/lib/api";
+import {
+  DEFAULT_STATUS_RULES,
+  STATUS_RULE_FIELDS,
+  STATUS_RULE_OPERATORS,
+  STATUS_RULE_PHASES,
+  STATUS_RULE_STAGES,
+  type JobPlacement,
+  type StatusRule,
+  type StatusRuleCondition,
+  type StatusRulePreview,
+} from "@shared/statusRules";
+import type { StatusRulesSetting, VersionConflictBody } from "@shared/api";
+
+const PHASE_LABELS: Record<StatusRule["lifecyclePhase"], string> = {
+  quote: "Quote",
+  work_order: "Work Order",
+};
+
+const STAGE_LABELS: Record<StatusRule["schedulerStage"], string> = {
+  new_jobs_won: "New Jobs Won",
+  in_production: "In Production",
+  waiting_supplier: "Waiting on Supplier",
+  waiting_client: "Waiting on Client",
+  need_to_go_back: "Need to Go Back",
+  recently_completed: "Recently Completed",
+};
+
+const FIELD_LABELS: Record<StatusRuleCondition["field"], string> = {
+  status: "ServiceM8 status",
+  badge: "Badge",
+  customField: "Custom field",
+};
+
+function newRuleId() {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Drop the empty entries left while a comma separated value list is being typed
+function withoutBlankValues(rules: StatusRule[]): StatusRule[] {
+  return rules.map(rule => ({
+    ...rule,
+    conditions: rule.conditions.map(condition => ({
+      ...condition,
+      values: condition.values.map(value => value.trim()).filter(Boolean),
+    })),
+  }));
+}
+
+function describePlacement(placement: JobPlacement) {
+  const parts = [placement.lifecyclePhase, placement.status];
+  if (placement.lifecyclePhase === "work_order") parts.push(placement.schedulerStage);
+  if (placement.salesStage) parts.push(placement.salesStage);
+  return parts.join(" · ");
+}
+
+export function StatusRulesPanel() {
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<StatusRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [preview, setPreview] = useState<StatusRulePreview | null>(null);
+
+  const { data, isLoading } = useQuery<StatusRulesSetting>({
+    queryKey: ["/api/status-rules"],
+  });
+
+  useEffect(() => {
+    if (data && !isDirty) setRules(data.rules);
+  }, [data, isDirty]);
+
+  const previewMutation = useMutation({
+    mutationFn: (rulesToPreview: StatusRule[]) => api.statusRules.preview(rulesToPreview),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => toast.error(error instanceof ApiError && error.status === 400 ? "Some rules are incomplete" : error.message),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (rulesToSave: StatusRule[]) => api.statusRules.save(rulesToSave, data?.version ?? 0),
+    onSuccess: (result) => {
+      setIsDirty(false);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/status-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast.success(`Status rules saved - ${result.reclassified} job${result.reclassified === 1 ? "" : "s"} reclassified`);
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.status === 409) {
+        const { current } = error.body as VersionConflictBody<StatusRulesSetting>;
+        queryClient.setQueryData(["/api/status-rules"], current);
+        setIsDirty(false);
+        setPreview(null);
+        toast.error("Status rules were changed on another computer. Their rules have been loaded; please make your changes again.");
+        return;
+      }
+      toast.error(error instanceof ApiError && error.status === 400 ? "Some rules are incomplete" : error.message);
+    },
+  });
+
+  const updateRules = (next: StatusRule[]) => {
+    setRules(next);
+    setIsDirty(true);
+    setPreview(null);
+  };
+
+  const updateRule = (index: number, changes: Partial<StatusRule>) => {
+    updateRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, changes: Partial<StatusRuleCondition>) => {
+    const conditions = rules[ruleIndex].conditions.map((condition, i) =>
+      i === conditionIndex ? { ...condition, ...changes } : condition
+    );
+    updateRule(ruleIndex, { conditions });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRules(next);
+  };
+
+  const addRule = () => {
+    updateRules([
+      ...rules,
+      {
+        id: newRuleId(),
+        name: "New rule",
+        enabled: true,
+        conditions: [{ field: "status", operator: "contains", values: [] }],
+        lifecyclePhase: "quote",
+        schedulerStage: "new_jobs_won",
+        appStatus: "new_lead",
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading status rules...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">ServiceM8 Status Mapping</CardTitle>
+              <CardDescription>
+                Rules are checked top to bottom when jobs sync. The first enabled rule whose conditions all match sets the job's
+                phase, scheduler stage and status. Jobs that match no rule are treated as quotes.
+                {data?.isDefault && !isDirty && " Using the built-in rules."}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => updateRules(DEFAULT_STATUS_RULES)}>
+                <RotateCcw className="h-4 w-4 mr-1" /> Reset to defaults
+              </Button>
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="h-4 w-4 mr-1" /> Add rule
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {rules.map((rule, ruleIndex) => (
+            <div key={rule.id} className={`border rounded-lg p-3 space-y-3 ${rule.enabled ? "" : "opacity-60"}`}>
+              <div className="flex items-center gap-2">
+                <div className="flex flex-col">
+                  <Button variant="ghost" size="icon" className="h-5 w-5" disabled={ruleIndex === 0} onClick={() => moveRule(ruleIndex, -1)}>
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-5 w-5" disabled={ruleIndex === rules.length - 1} onClick={() => moveRule(ruleIndex, 1)}>
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Badge variant="outline">{ruleIndex + 1}</Badge>
+                <Input
+                  value={rule.name}
+                  onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                  className="h-8 max-w-xs"
+                />
+                <div className="flex items-center gap-2 ml-auto">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(ruleIndex, { enabled })} />
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => updateRules(rules.filter((_, i) => i !== ruleIndex))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2 pl-8">
+                <Label className="text-xs text-muted-foreground">When all of these match</Label>
+                {rule.conditions.map((condition, conditionIndex) => (
+                  <div key={conditionIndex} className="flex items-center gap-2">
+                    <Select
+                      value={condition.field}
+                      onValueChange={(field) => updateCondition(ruleIndex, conditionIndex, { field: field as StatusRuleCondition["field"] })}
+                    >
+                      <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {STATUS_RULE_FIELDS.map(field => (
+                          <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {condition.field === "customField" && (
+                      <Input
+                        placeholder="Field name"
+                        value={condition.customFieldName || ""}
+                        onChange={(e) => updateCondition(ruleIndex, conditionIndex, { customFieldName: e.target.value })}
+                        className="h-8 w-40"
+                      />
+                    )}
+                    <Select
+                      value={condition.operator}
+                      onValueChange={(operator) => updateCondition(ruleIndex, conditionIndex, { operator: operator as StatusRuleCondition["operator"] })}
+                    >
+                      <SelectTrigger className="h-8 w-28"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {STATUS_RULE_OPERATORS.map(operator => (
+                          <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Values, comma separated (any can match)"
+                      value={condition.values.join(", ")}
+                      onChange={(e) => updateCondition(ruleIndex, conditionIndex, {
+                        values: e.target.value.split(/,\s*/),
+                      })}
+                      className="h-8 flex-1"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={rule.conditions.length === 1}
+                      onClick={() => updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => updateRule(ruleIndex, {
+                    conditions: [...rule.conditions, { field: "status", operator: "contains", values: [] }],
+                  })}
+                >
+                  <Plus className="h-3 w-3 mr-1" /> Add condition
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 pl-8">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Phase</Label>
+                  <Select
+                    value={rule.lifecyclePhase}
+                    onValueChange={(phase) => updateRule(ruleIndex, { lifecyclePhase: phase as StatusRule["lifecyclePhase"] })}
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {STATUS_RULE_PHASES.map(phase => (
+                        <SelectItem key={phase} value={phase}>{PHASE_LABELS[phase]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Scheduler stage</Label>
+                  <Select
+                    value={rule.schedulerStage}
+                    onValueChange={(stage) => updateRule(ruleIndex, { schedulerStage: stage as StatusRule["schedulerStage"] })}
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {STATUS_RULE_STAGES.map(stage => (
+                        <SelectItem key={stage} value={stage}>{STAGE_LABELS[stage]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">App status</Label>
+                  <Input
+                    value={rule.appStatus}
+                    onChange={(e) => updateRule(ruleIndex, { appStatus: e.target.value })}
+                    className="h-8"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No rules - every job will be treated as a quote.</p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => previewMutation.mutate(withoutBlankValues(rules))} disabled={previewMutation.isPending}>
+              {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+              Preview changes
+            </Button>
+            <Button onClick={() => saveMutation.mutate(withoutBlankValues(rules))} disabled={!isDirty || saveMutation.isPending}>
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              Save and reclassify
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Preview</CardTitle>
+            <CardDescription>
+              {preview.changes.length} of {preview.evaluated} jobs would move.
+              {preview.skipped > 0 && ` ${preview.skipped} jobs haven't synced since status rules were added and are left until their next sync.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No jobs would change.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>ServiceM8 status</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.changes.map(change => (
+                    <TableRow key={change.jobId}>
+                      <TableCell>
+                        <div className="font-medium">{change.jobNumber}</div>
+                        <div className="text-xs text-muted-foreground">{change.customerName}</div>
+                      </TableCell>
+                      <TableCell>{change.serviceM8Status}</TableCell>
+                      <TableCell>{change.ruleName ?? <span className="text-muted-foreground">No match</span>}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="text-muted-foreground">{describePlacement(change.before)}</span>
+                          <ArrowRight className="h-3 w-3 shrink-0" />
+                          <span>{describePlacement(change.after)}</span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
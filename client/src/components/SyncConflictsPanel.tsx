@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatValue } from "@/components/SyncHistoryPanel";
+import { api } from "@/lib/api";
+import type { SyncConflictWithJob } from "@shared/schema";
+
+type Keep = "local" | "servicem8";
+
+export function SyncConflictsPanel() {
+  const queryClient = useQueryClient();
+
+  const { data: conflicts = [], isLoading, isFetching, refetch } = useQuery<SyncConflictWithJob[]>({
+    queryKey: ["/api/sync-conflicts"],
+    staleTime: 0,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, keep }: { id: number; keep: Keep }) => api.sync.resolveConflict(id, keep),
+    onSuccess: (_, { keep }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast.success(keep === "local" ? "Kept the local value" : "Took the ServiceM8 value");
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-conflicts"] });
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-sm font-medium">Sync Conflicts</CardTitle>
+            <CardDescription className="text-xs">
+              Fields changed in ServiceM8 that were also edited here since the last sync. The local value stays until you pick a side.
+              Keeping the local value doesn't change ServiceM8.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="refresh-sync-conflicts">
+            <RefreshCw className={cn("h-4 w-4 mr-1", isFetching && "animate-spin")} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading conflicts...
+          </div>
+        ) : conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">No conflicts to review</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Job</TableHead>
+                <TableHead className="text-xs">Field</TableHead>
+                <TableHead className="text-xs">Here</TableHead>
+                <TableHead className="text-xs">ServiceM8</TableHead>
+                <TableHead className="text-xs">Detected</TableHead>
+                <TableHead className="text-xs text-right">Keep</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {conflicts.map((conflict) => {
+                const isResolving = resolveMutation.isPending && resolveMutation.variables?.id === conflict.id;
+                return (
+                  <TableRow key={conflict.id} data-testid={`sync-conflict-${conflict.id}`}>
+                    <TableCell className="text-xs">
+                      <div className="font-medium">{conflict.jobNumber}</div>
+                      <div className="text-muted-foreground">{conflict.customerName}</div>
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">{conflict.field}</TableCell>
+                    <TableCell className="text-xs break-words max-w-[200px]">{formatValue(conflict.currentValue)}</TableCell>
+                    <TableCell className="text-xs break-words max-w-[200px]">{formatValue(conflict.serviceM8Value)}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">{format(new Date(conflict.detectedAt), "dd MMM HH:mm")}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs mr-1"
+                        disabled={isResolving}
+                        onClick={() => resolveMutation.mutate({ id: conflict.id, keep: "local" })}
+                        data-testid={`keep-local-${conflict.id}`}
+                      >
+                        Here
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        disabled={isResolving}
+                        onClick={() => resolveMutation.mutate({ id: conflict.id, keep: "servicem8" })}
+                        data-testid={`keep-servicem8-${conflict.id}`}
+                      >
+                        ServiceM8
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
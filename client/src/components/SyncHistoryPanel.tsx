@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceStrict } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, ArrowRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { api } from "@/lib/api";
+import type { SyncLog, SyncLogMetadata, SyncJobReport, SyncJobOutcome } from "@shared/schema";
+import type { SyncHistoryPage } from "@shared/api";
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<string, string> = {
+  success: "bg-green-500",
+  partial: "bg-amber-500",
+  error: "bg-red-500",
+  in_progress: "bg-blue-500",
+};
+
+const OUTCOME_STYLES: Record<SyncJobOutcome, string> = {
+  created: "border-green-500 text-green-700",
+  updated: "border-blue-500 text-blue-700",
+  unchanged: "border-gray-300 text-gray-500",
+  skipped: "border-amber-500 text-amber-700",
+  archived: "border-slate-400 text-slate-600",
+};
+
+function formatDuration(startedAt: string | Date, completedAt: string | Date | null) {
+  if (!completedAt) return "—";
+  return formatDistanceStrict(new Date(completedAt), new Date(startedAt));
+}
+
+// e.g. "2,400 job · 310 company"
+function formatFetched(fetched: Record<string, number>) {
+  return Object.entries(fetched)
+    .map(([endpoint, total]) => `${total.toLocaleString()} ${endpoint.replace(/\.json$/, "")}`)
+    .join(" · ");
+}
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "string") {
+    // ISO timestamps from the change report
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+      return format(new Date(value), "dd MMM yyyy HH:mm");
+    }
+    return value;
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "(none)";
+  return JSON.stringify(value);
+}
+
+export function SyncHistoryPanel() {
+  const [page, setPage] = useState(1);
+  const [selectedSyncId, setSelectedSyncId] = useState<number | null>(null);
+
+  const { data, isLoading, isFetching, refetch } = useQuery<SyncHistoryPage>({
+    queryKey: ["/api/sync/history", { page }],
+    queryFn: () => api.sync.history(page, PAGE_SIZE),
+    staleTime: 0,
+  });
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="p-4 pb-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-sm font-medium">Sync History</CardTitle>
+              <CardDescription className="text-xs">
+                Every ServiceM8 sync, with what it changed. Open a sync to see the before and after value of each field.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching} data-testid="refresh-sync-history">
+              <RefreshCw className={cn("h-4 w-4 mr-1", isFetching && "animate-spin")} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 pt-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading sync history...
+            </div>
+          ) : !data || data.items.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No syncs have run yet</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Started</TableHead>
+                    <TableHead className="text-xs">Type</TableHead>
+                    <TableHead className="text-xs">Status</TableHead>
+                    <TableHead className="text-xs">Duration</TableHead>
+                    <TableHead className="text-xs">Jobs</TableHead>
+                    <TableHead className="text-xs">Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map((log) => (
+                    <TableRow
+                      key={log.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedSyncId(log.id)}
+                      data-testid={`sync-row-${log.id}`}
+                    >
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {format(new Date(log.startedAt), "dd MMM HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <span className="capitalize">{log.syncType}</span>
+                        {log.trigger && log.trigger !== "webhook" && (
+                          <span className="text-muted-foreground"> · {log.trigger}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={cn("text-[10px] capitalize", STATUS_STYLES[log.status] || "bg-gray-500")}>
+                          {log.status.replace("_", " ")}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {formatDuration(log.startedAt, log.completedAt)}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {log.counts ? (
+                          <span>
+                            {log.counts.created} new · {log.counts.updated} updated · {log.counts.unchanged} same
+                            {log.counts.skipped > 0 && ` · ${log.counts.skipped} skipped`}
+                            {log.counts.archived > 0 && ` · ${log.counts.archived} archived`}
+                          </span>
+                        ) : log.status === "in_progress" && log.fetched ? (
+                          <span className="text-muted-foreground">
+                            Fetching · {Object.values(log.fetched).reduce((sum, total) => sum + total, 0).toLocaleString()} records
+                          </span>
+                        ) : (
+                          <span>{log.jobsProcessed ?? 0} processed</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-red-600 max-w-[200px] truncate" title={log.errorMessage || undefined}>
+                        {log.errorMessage || ""}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between pt-3">
+                <span className="text-xs text-muted-foreground">
+                  Page {data.page} of {totalPages} · {data.total} syncs
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    data-testid="sync-history-prev"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                    data-testid="sync-history-next"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <SyncDetailsDialog syncId={selectedSyncId} onClose={() => setSelectedSyncId(null)} />
+    </div>
+  );
+}
+
+function SyncDetailsDialog({ syncId, onClose }: { syncId: number | null; onClose: () => void }) {
+  const [search, setSearch] = useState("");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const { data: sync, isLoading } = useQuery<SyncLog>({
+    queryKey: ["/api/sync/history", syncId],
+    enabled: syncId !== null,
+  });
+
+  const metadata = (sync?.metadata || {}) as SyncLogMetadata;
+  const searchLower = search.trim().toLowerCase();
+  const reports = (metadata.jobs || []).filter((report) => {
+    if (!showUnchanged && report.outcome === "unchanged") return false;
+    if (!searchLower) return true;
+    return (
+      report.jobNumber?.toLowerCase().includes(searchLower) ||
+      report.customerName?.toLowerCase().includes(searchLower) ||
+      report.changes?.some((change) => change.field.toLowerCase().includes(searchLower))
+    );
+  });
+
+  return (
+    <Dialog open={syncId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Sync #{syncId}</DialogTitle>
+          <DialogDescription>
+            {sync
+              ? `${sync.syncType} sync started ${format(new Date(sync.startedAt), "dd MMM yyyy HH:mm:ss")}, took ${formatDuration(sync.startedAt, sync.completedAt)}`
+              : "Loading..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading sync details...
+          </div>
+        ) : sync ? (
+          <div className="space-y-3">
+            {sync.errorMessage && (
+              <p className="text-sm text-red-600 bg-red-50 rounded p-2">{sync.errorMessage}</p>
+            )}
+
+            {metadata.fetched && Object.keys(metadata.fetched).length > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="sync-details-fetched">
+                Fetched from ServiceM8: {formatFetched(metadata.fetched)}
+              </p>
+            )}
+
+            {metadata.fetchErrors && (
+              <div className="text-xs text-amber-700 bg-amber-50 rounded p-2 space-y-0.5" data-testid="sync-details-fetch-errors">
+                {Object.entries(metadata.fetchErrors).map(([subFetch, message]) => (
+                  <p key={subFetch}>
+                    Couldn't fetch {subFetch}, so existing values were kept: {message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <Input
+                placeholder="Filter by job number, customer or field..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-8 text-sm"
+                data-testid="sync-details-search"
+              />
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged" className="text-xs">Show unchanged</Label>
+              </div>
+            </div>
+
+            {!metadata.jobs ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                This sync ran before per-job reports were recorded
+              </p>
+            ) : reports.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No matching jobs</p>
+            ) : (
+              <ScrollArea className="h-[420px] pr-3">
+                <div className="space-y-2">
+                  {reports.map((report) => (
+                    <JobReportRow key={report.serviceM8Uuid} report={report} />
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function JobReportRow({ report }: { report: SyncJobReport }) {
+  return (
+    <div className="border rounded-md p-2" data-testid={`sync-job-${report.serviceM8Uuid}`}>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={cn("text-[10px] capitalize", OUTCOME_STYLES[report.outcome])}>
+          {report.outcome}
+        </Badge>
+        <span className="text-sm font-medium">{report.jobNumber || report.serviceM8Uuid}</span>
+        {report.customerName && <span className="text-sm text-muted-foreground">{report.customerName}</span>}
+      </div>
+      {report.reason && <p className="text-xs text-amber-700 mt-1">{report.reason}</p>}
+      {report.conflicts && report.conflicts.length > 0 && (
+        <p className="text-xs text-amber-700 mt-1">
+          Changed here and in ServiceM8, held for review: <span className="font-mono">{report.conflicts.join(", ")}</span>
+        </p>
+      )}
+      {report.changes && report.changes.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {report.changes.map((change) => (
+            <div key={change.field} className="grid grid-cols-[140px_1fr_16px_1fr] items-start gap-2 text-xs">
+              <span className="font-mono text-muted-foreground truncate" title={change.field}>{change.field}</span>
+              <span className="text-red-700 line-through break-words">{formatValue(change.before)}</span>
+              <ArrowRight className="h-3 w-3 mt-0.5 text-muted-foreground" />
+              <span className="text-green-700 break-words">{formatValue(change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
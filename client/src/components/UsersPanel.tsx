@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { KeyRound, Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { api } from "@/lib/api";
+import type { PublicUser, Staff } from "@shared/schema";
+import type { UpdateUserRequest } from "@shared/api";
+
+const NO_STAFF = "none";
+
+export function UsersPanel() {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [newUser, setNewUser] = useState({ username: "", displayName: "", password: "", isAdmin: false });
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: staffMembers = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (user: typeof newUser) => api.users.create(user),
+    onSuccess: (user) => {
+      setNewUser({ username: "", displayName: "", password: "", isAdmin: false });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast.success(`Created ${user.username}`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: number; updates: UpdateUserRequest }) => api.users.update(id, updates),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/users"] }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: ({ id, password }: { id: number; password: string }) => api.users.setPassword(id, password),
+    onSuccess: () => toast.success("Password updated"),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const resetPassword = (user: PublicUser) => {
+    const password = window.prompt(`New password for ${user.displayName}`);
+    if (password) passwordMutation.mutate({ id: user.id, password });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mr-2" /> Loading users...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Users</CardTitle>
+          <CardDescription>
+            Everyone who can sign in to the Command Center. Link a user to a staff member so their work can be matched to them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Staff member</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Last sign in</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(user => {
+                const isSelf = user.id === currentUser?.id;
+                return (
+                  <TableRow key={user.id} data-testid={`user-row-${user.id}`}>
+                    <TableCell>
+                      <div className="font-medium text-sm">{user.displayName}</div>
+                      <div className="text-xs text-muted-foreground">{user.username}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.staffId ?? NO_STAFF}
+                        onValueChange={(staffId) => updateMutation.mutate({ id: user.id, updates: { staffId: staffId === NO_STAFF ? null : staffId } })}
+                      >
+                        <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_STAFF}>Not linked</SelectItem>
+                          {staffMembers.map(member => (
+                            <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.isAdmin}
+                        disabled={isSelf}
+                        onCheckedChange={(isAdmin) => updateMutation.mutate({ id: user.id, updates: { isAdmin } })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.active}
+                        disabled={isSelf}
+                        onCheckedChange={(active) => updateMutation.mutate({ id: user.id, updates: { active } })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {user.lastLoginAt ? format(new Date(user.lastLoginAt), "d MMM yyyy, h:mm a") : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => resetPassword(user)}>
+                        <KeyRound className="h-4 w-4 mr-1" /> Reset password
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add User</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="new-user-username">Username</Label>
+              <Input
+                id="new-user-username"
+                value={newUser.username}
+                onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-user-name">Name</Label>
+              <Input
+                id="new-user-name"
+                value={newUser.displayName}
+                onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-user-password">Password</Label>
+              <Input
+                id="new-user-password"
+                type="password"
+                autoComplete="new-password"
+                value={newUser.password}
+                onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end justify-between gap-4">
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="new-user-admin"
+                  checked={newUser.isAdmin}
+                  onCheckedChange={(isAdmin) => setNewUser({ ...newUser, isAdmin })}
+                />
+                <Label htmlFor="new-user-admin">Admin</Label>
+              </div>
+              <Button
+                onClick={() => createMutation.mutate(newUser)}
+                disabled={!newUser.username || !newUser.displayName || !newUser.password || createMutation.isPending}
+                data-testid="add-user-btn"
+              >
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Add User
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
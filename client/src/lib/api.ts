@@ -0,0 +1,188 @@
+import type {
+  ApiErrorBody,
+  CreateUserRequest,
+  CustomFieldMappingsSaved,
+  EmailRequest,
+  JobCompany,
+  JobContact,
+  JobUpdate,
+  JobUpdated,
+  LoginRequest,
+  MessageSent,
+  ServiceM8OAuthStatus,
+  SettingSaved,
+  SignedIn,
+  SmsRequest,
+  StaffCreate,
+  StaffUpdate,
+  StageProgressUpdate,
+  StatusRulesSaved,
+  SyncHistoryPage,
+  SyncRequest,
+  SyncRunResult,
+  UndoResult,
+  UpdateUserRequest,
+  WorkTypeCreate,
+  WorkTypeStageCreate,
+  WorkTypeStageUpdate,
+  WorkTypeUpdate,
+} from "@shared/api";
+import type {
+  AppSettingEntry,
+  Communication,
+  CommunicationSearchResult,
+  JobHistoryEntry,
+  JobStageProgress,
+  PublicUser,
+  SelectJob,
+  Staff,
+  SyncConflict,
+  WorkType,
+  WorkTypeStage,
+} from "@shared/schema";
+import type { StatusRule, StatusRulePreview } from "@shared/statusRules";
+import type { CustomFieldMapping } from "@shared/customFields";
+import { queryClient } from "@/lib/queryClient";
+
+// Typed calls for the API, with the request and response shapes from shared/api.ts. Queries that
+// only need the default fetch (see queryClient.ts) keep using their URL as the query key.
+
+// A request the server refused. body is what it sent back, e.g. the current record with a 409.
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly body: ApiErrorBody & Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The server's sentence, or the first field that failed validation, e.g. 'to: Invalid email address'
+export function errorMessage(body: Partial<ApiErrorBody>, fallback: string): string {
+  if (typeof body.error === "string") return body.error;
+  const issue = body.error?.[0];
+  if (issue) return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+  return fallback;
+}
+
+async function request<T>(method: string, url: string, body: unknown, failureMessage: string): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : {},
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  // 204s and non-JSON errors have no body to read
+  const data = await res.json().catch(() => ({}));
+  // The session ended, so go back to the login screen as queries do. A 401 from the auth routes
+  // themselves is a wrong password, not a lost session.
+  if (res.status === 401 && !url.startsWith("/api/auth/")) {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  }
+  if (!res.ok) {
+    throw new ApiError(errorMessage(data, failureMessage), res.status, data);
+  }
+  return data as T;
+}
+
+const get = <T>(url: string, failureMessage: string) => request<T>("GET", url, undefined, failureMessage);
+const post = <T>(url: string, body: unknown, failureMessage: string) => request<T>("POST", url, body, failureMessage);
+const put = <T>(url: string, body: unknown, failureMessage: string) => request<T>("PUT", url, body, failureMessage);
+const patch = <T>(url: string, body: unknown, failureMessage: string) => request<T>("PATCH", url, body, failureMessage);
+const del = (url: string, failureMessage: string) => request<void>("DELETE", url, undefined, failureMessage);
+
+export const api = {
+  auth: {
+    login: (details: LoginRequest) => post<SignedIn>("/api/auth/login", details, "Failed to sign in"),
+    setup: (details: CreateUserRequest) => post<SignedIn>("/api/auth/setup", details, "Failed to create account"),
+    logout: () => post<{ success: true }>("/api/auth/logout", undefined, "Failed to sign out"),
+  },
+
+  jobs: {
+    // Carries expectedVersion when made from a copy of the job; see patchVersioned
+    update: (id: number | string, updates: JobUpdate) => patch<JobUpdated>(`/api/jobs/${id}`, updates, "Failed to update job"),
+    history: (id: number | string) => get<JobHistoryEntry[]>(`/api/jobs/${id}/history`, "Failed to load job history"),
+    // Keyed by the job's ServiceM8 uuid, as communications are stored
+    communications: (uuid: string) => get<Communication[]>(`/api/jobs/${uuid}/communications`, "Failed to load communication history"),
+    searchCommunications: (query: string) =>
+      get<CommunicationSearchResult[]>(`/api/communications/search?q=${encodeURIComponent(query)}`, "Failed to search communications"),
+    undo: (direction: "undo" | "redo") => post<UndoResult>(`/api/${direction}`, undefined, `Failed to ${direction}`),
+  },
+
+  stageProgress: {
+    list: (jobId: number | string) => get<JobStageProgress[]>(`/api/jobs/${jobId}/stage-progress`, "Failed to fetch stage progress"),
+    update: (jobId: number | string, stageId: number, updates: StageProgressUpdate) =>
+      patch<JobStageProgress>(`/api/jobs/${jobId}/stage-progress/${stageId}`, updates, "Failed to update stage progress"),
+    initialize: (jobId: number | string, workTypeId: number) =>
+      post<JobStageProgress[]>(`/api/jobs/${jobId}/initialize-stages`, { workTypeId }, "Failed to initialize stages"),
+    startTimer: (jobId: number | string, stageId: number) =>
+      post<JobStageProgress>(`/api/jobs/${jobId}/stages/${stageId}/timer/start`, undefined, "Failed to start timer"),
+    stopTimer: (jobId: number | string, stageId: number) =>
+      post<JobStageProgress>(`/api/jobs/${jobId}/stages/${stageId}/timer/stop`, undefined, "Failed to stop timer"),
+  },
+
+  workTypes: {
+    list: () => get<WorkType[]>("/api/work-types", "Failed to fetch work types"),
+    create: (workType: WorkTypeCreate) => post<WorkType>("/api/work-types", workType, "Failed to create work type"),
+    update: (id: number, updates: WorkTypeUpdate) => patch<WorkType>(`/api/work-types/${id}`, updates, "Failed to update work type"),
+    delete: (id: number) => del(`/api/work-types/${id}`, "Failed to delete work type"),
+    stages: (workTypeId: number) => get<WorkTypeStage[]>(`/api/work-types/${workTypeId}/stages`, "Failed to fetch stages"),
+    createStage: (workTypeId: number, stage: WorkTypeStageCreate) =>
+      post<WorkTypeStage>(`/api/work-types/${workTypeId}/stages`, stage, "Failed to create stage"),
+    updateStage: (workTypeId: number, stageId: number, updates: WorkTypeStageUpdate) =>
+      patch<WorkTypeStage>(`/api/work-types/${workTypeId}/stages/${stageId}`, updates, "Failed to update stage"),
+    deleteStage: (workTypeId: number, stageId: number) => del(`/api/work-types/${workTypeId}/stages/${stageId}`, "Failed to delete stage"),
+    reorderStages: (workTypeId: number, stageIds: number[]) =>
+      post<WorkTypeStage[]>(`/api/work-types/${workTypeId}/stages/reorder`, { stageIds }, "Failed to reorder stages"),
+  },
+
+  staff: {
+    create: (member: StaffCreate) => post<Staff>("/api/staff", member, "Failed to save staff member"),
+    update: (id: string, updates: StaffUpdate) => patch<Staff>(`/api/staff/${encodeURIComponent(id)}`, updates, "Failed to save staff member"),
+    delete: (id: string) => del(`/api/staff/${encodeURIComponent(id)}`, "Failed to delete staff member"),
+  },
+
+  users: {
+    create: (user: CreateUserRequest) => post<PublicUser>("/api/users", user, "Failed to create user"),
+    update: (id: number, updates: UpdateUserRequest) =>
+      patch<PublicUser>(`/api/users/${id}`, updates, "Failed to update user"),
+    setPassword: (id: number, password: string) => post<{ success: true }>(`/api/users/${id}/password`, { password }, "Failed to reset password"),
+  },
+
+  settings: {
+    get: (key: string) => get<AppSettingEntry>(`/api/settings/${key}`, `Failed to load ${key}`),
+    // Refused with 409 and the current entry if someone else has saved since expectedVersion
+    save: (key: string, value: unknown, expectedVersion: number) =>
+      put<SettingSaved>(`/api/settings/${key}`, { value, expectedVersion }, `Failed to save ${key}`),
+    versions: () => get<Record<string, number>>("/api/settings/versions", "Failed to check for settings changes"),
+  },
+
+  // Like settings.save, refused with 409 and the current rules or mappings if someone else has saved since expectedVersion
+  statusRules: {
+    preview: (rules: StatusRule[]) => post<StatusRulePreview>("/api/status-rules/preview", { rules }, "Failed to preview status rules"),
+    save: (rules: StatusRule[], expectedVersion: number) =>
+      put<StatusRulesSaved>("/api/status-rules", { rules, expectedVersion }, "Failed to save status rules"),
+  },
+
+  customFieldMappings: {
+    save: (mappings: CustomFieldMapping[], expectedVersion: number) =>
+      put<CustomFieldMappingsSaved>("/api/custom-field-mappings", { mappings, expectedVersion }, "Failed to save custom field mappings"),
+  },
+
+  sync: {
+    run: (options: SyncRequest = {}) => post<SyncRunResult>("/api/sync/servicem8", options, "Failed to sync with ServiceM8"),
+    history: (page: number, pageSize: number) =>
+      get<SyncHistoryPage>(`/api/sync/history?page=${page}&pageSize=${pageSize}`, "Failed to fetch sync history"),
+    resolveConflict: (id: number, keep: "local" | "servicem8") =>
+      post<SyncConflict>(`/api/sync-conflicts/${id}/resolve`, { keep }, "Failed to resolve conflict"),
+  },
+
+  servicem8: {
+    oauthStatus: () => get<ServiceM8OAuthStatus>("/api/auth/servicem8/status", "Failed to check connection"),
+    jobCompany: (jobUuid: string) => get<JobCompany>(`/api/servicem8/job-company/${jobUuid}`, "Failed to fetch company info"),
+    jobContact: (jobUuid: string) => get<JobContact>(`/api/servicem8/job-contact/${jobUuid}`, "Failed to fetch contact"),
+  },
+
+  messaging: {
+    sms: (message: SmsRequest) => post<MessageSent>("/api/messaging/sms", message, "Failed to send SMS"),
+    email: (message: EmailRequest) => post<MessageSent>("/api/messaging/email", message, "Failed to send email"),
+  },
+};
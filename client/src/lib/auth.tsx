@@ -0,0 +1,71 @@
+import { createContext, useContext, ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { hasPermission, type AuthUser, type Permission } from "@shared/permissions";
+
+type AuthState = { user: AuthUser | null; setupRequired: boolean };
+
+interface AuthContextType {
+  user: AuthUser | null;
+  setupRequired: boolean; // No accounts exist yet, so the first one is created instead of signing in
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  setup: (details: { username: string; displayName: string; password: string }) => Promise<void>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean; // Only for hiding what the user can't use; the server enforces it
+}
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<AuthState>({
+    queryKey: AUTH_QUERY_KEY,
+  });
+
+  // Whoever signs in next shouldn't see the last user's cached data
+  const setUser = (user: AuthUser | null) => {
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== AUTH_QUERY_KEY[0] });
+    queryClient.setQueryData<AuthState>(AUTH_QUERY_KEY, { user, setupRequired: false });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: ({ username, password }: { username: string; password: string }) => api.auth.login({ username, password }),
+    onSuccess: (result) => setUser(result.user),
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: (details: { username: string; displayName: string; password: string }) => api.auth.setup(details),
+    onSuccess: (result) => setUser(result.user),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => api.auth.logout(),
+    onSuccess: () => setUser(null),
+  });
+
+  return (
+    <AuthContext.Provider value={{
+      user: data?.user ?? null,
+      setupRequired: data?.setupRequired ?? false,
+      isLoading,
+      login: async (username, password) => { await loginMutation.mutateAsync({ username, password }); },
+      setup: async (details) => { await setupMutation.mutateAsync(details); },
+      logout: async () => { await logoutMutation.mutateAsync(); },
+      can: (permission) => hasPermission(data?.user?.role, permission),
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
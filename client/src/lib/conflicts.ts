@@ -0,0 +1,62 @@
+import { ApiError } from "@/lib/api";
+import type { VersionConflictBody } from "@shared/api";
+
+// Saving edits to versioned records (jobs, stage progress). The PATCH carries the version the edit
+// was made against; the server refuses it with 409 and the current record if someone else has
+// saved since.
+
+export type ConflictField = { field: string; theirs: unknown; mine: unknown };
+
+// Someone else changed a field this edit changes, to something else. Their record is in current.
+export class EditConflictError<T, U = Partial<T>> extends Error {
+  constructor(
+    message: string,
+    public readonly current: T,
+    public readonly conflicts: ConflictField[],
+    public readonly updates: U
+  ) {
+    super(message);
+    this.name = "EditConflictError";
+  }
+}
+
+// A conflict the retried save keeps hitting is left to the user rather than looping
+const MAX_ATTEMPTS = 3;
+
+// Compared as JSON, so Dates match the ISO strings the API returns
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Fields the edit changes that someone else has also changed, to a different value
+function conflictingFields(base: Record<string, any>, current: Record<string, any>, updates: object): ConflictField[] {
+  return Object.entries(updates)
+    .filter(([field, mine]) => !sameValue(current[field], base[field]) && !sameValue(current[field], mine))
+    .map(([field, mine]) => ({ field, theirs: current[field], mine: JSON.parse(JSON.stringify(mine ?? null)) }));
+}
+
+// Save an edit made against base with save, one of the PATCH calls in api. If the record has changed
+// since, but not in the fields being edited, the edit is reapplied on top of the newer version. If
+// it has, throws EditConflictError. save may answer with more than the record, as PATCH /api/jobs/:id does.
+export async function patchVersioned<T extends { version: number }, U extends object, R extends T = T>(
+  base: T | undefined,
+  updates: U,
+  save: (body: U & { expectedVersion?: number }) => Promise<R>
+): Promise<R> {
+  let known = base;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await save({ ...updates, expectedVersion: known?.version });
+    } catch (error) {
+      const current = error instanceof ApiError && error.status === 409
+        ? (error.body as Partial<VersionConflictBody<T>>).current
+        : undefined;
+      if (!current || !known) throw error;
+      const conflicts = conflictingFields(known, current, updates);
+      if (conflicts.length > 0 || attempt === MAX_ATTEMPTS - 1) {
+        throw new EditConflictError((error as ApiError).message, current, conflicts, updates);
+      }
+      known = current;
+    }
+  }
+}
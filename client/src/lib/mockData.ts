@@ -1,16 +1,6 @@
 import { addDays, subDays } from "date-fns";
-
-export type LifecyclePhase = 'quote' | 'work_order';
-export type SchedulerStage = 'new_jobs_won' | 'in_production' | 'waiting_supplier' | 'waiting_client' | 'need_to_go_back' | 'recently_completed';
-
-export interface JobContact {
-  uuid: string;
-  name: string;
-  email: string;
-  mobile: string;
-  phone: string;
-  isPrimary: boolean;
-}
+import type { InstallAllocations, InstallStage, LifecyclePhase, PurchaseOrderStatus, SchedulerStage } from "@shared/schema";
+import type { CompanyContact } from "@shared/api";
 
 export interface Job {
   id: string;
@@ -27,16 +17,23 @@ export interface Job {
   hoursSinceQuoteSent?: number; // For quotes sent < 24 hours ago
   daysSinceLastContact: number;
   assignedStaff: string;
+  assignedStaffId?: string; // Linked staff member, when assignedStaff matches one
+  fenceLength?: number; // metres
+  gateCount?: number;
+  leadSource?: string;
+  extraFields?: Record<string, string>; // Other mapped ServiceM8 custom fields, label -> value
   lastNote: string;
   dateCreated: Date;
   urgency: "low" | "medium" | "high" | "critical";
   lastContactWho: "us" | "client";
   dueDate?: Date;
-  purchaseOrderStatus: "none" | "ordered" | "received" | "delayed";
+  purchaseOrderStatus: PurchaseOrderStatus;
   productionTasks: { id: string; name: string; completed: boolean; assignedTo?: string }[];
-  installStage: 'pending_posts' | 'tentative_posts' | 'posts_scheduled' | 'measuring' | 'manufacturing_panels' | 'pending_panels' | 'tentative_panels' | 'panels_scheduled' | 'completed';
+  installStage: InstallStage;
   postInstallDate?: Date;
   panelInstallDate?: Date;
+  allocationError?: string; // Why the confirmed install dates couldn't be booked in ServiceM8
+  installAllocations?: InstallAllocations; // ServiceM8 bookings for the confirmed install dates
   estimatedProductionDuration: number; // days
   
   // Tentative scheduling (advance planning)
@@ -69,7 +66,7 @@ export interface Job {
   companyEmail?: string;
   companyPhone?: string;
   companyMobile?: string;
-  contacts?: JobContact[];
+  contacts?: CompanyContact[];
   
   // Sales pipeline stage for Quotes Pipeline (fresh, awaiting_reply, etc.)
   salesStage?: string;
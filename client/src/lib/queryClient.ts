@@ -37,6 +37,11 @@ export const getQueryFn: <T>(options: {
       return null;
     }
 
+    // The session ended (expired, signed out elsewhere or deactivated), so go back to the login screen
+    if (res.status === 401 && queryKey[0] !== "/api/auth/me") {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    }
+
     await throwIfResNotOk(res);
     return await res.json();
   };
@@ -0,0 +1,99 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { AUTH_QUERY_KEY, useAuth } from "@/lib/auth";
+import { SERVER_EVENT_TYPES, type ServerEvent } from "@shared/events";
+
+// One event stream per signed-in tab (GET /api/events). Components subscribe with useServerEvents
+// and update their own query caches from what arrives.
+
+type Listener = (event: ServerEvent) => void;
+
+interface ServerEventsContextType {
+  connected: boolean;
+  subscribe: (listener: Listener) => () => void;
+}
+
+// The browser retries a dropped stream by itself, but gives up on an error response
+const RECONNECT_MS = 10 * 1000;
+
+const ServerEventsContext = createContext<ServerEventsContextType | undefined>(undefined);
+
+export function ServerEventsProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const enabled = can("jobs.view") || can("scheduler.view");
+  const listeners = useRef(new Set<Listener>());
+  const [connected, setConnected] = useState(true);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const source = new EventSource("/api/events");
+    let dropped = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    source.onopen = () => {
+      setConnected(true);
+      // Whatever changed while the stream was down was missed, so reload it. The server also ends the
+      // stream when the user's role changes, so the user is reloaded too.
+      if (dropped) {
+        queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+        queryClient.invalidateQueries({ queryKey: ["stageProgress"] });
+        dropped = false;
+      }
+    };
+    source.onerror = () => {
+      dropped = true;
+      setConnected(false);
+      if (source.readyState === EventSource.CLOSED) {
+        reconnectTimer = setTimeout(() => setAttempt(n => n + 1), RECONNECT_MS);
+      }
+    };
+    for (const type of SERVER_EVENT_TYPES) {
+      source.addEventListener(type, (message) => {
+        const event: ServerEvent = JSON.parse((message as MessageEvent).data);
+        listeners.current.forEach(listener => listener(event));
+      });
+    }
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      source.close();
+    };
+  }, [enabled, attempt, queryClient]);
+
+  const subscribe = useCallback((listener: Listener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <ServerEventsContext.Provider value={{ connected: !enabled || connected, subscribe }}>
+      {children}
+    </ServerEventsContext.Provider>
+  );
+}
+
+export function useServerEventsStatus() {
+  const context = useContext(ServerEventsContext);
+  if (context === undefined) {
+    throw new Error("useServerEventsStatus must be used within a ServerEventsProvider");
+  }
+  return context.connected;
+}
+
+// Calls listener with each event from the server, always the latest listener passed in
+export function useServerEvents(listener: Listener) {
+  const context = useContext(ServerEventsContext);
+  if (context === undefined) {
+    throw new Error("useServerEvents must be used within a ServerEventsProvider");
+  }
+  const latest = useRef(listener);
+  latest.current = listener;
+  const { subscribe } = context;
+
+  useEffect(() => subscribe(event => latest.current(event)), [subscribe]);
+}
@@ -1,4 +1,10 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { DEFAULT_COMPANY_TIMEZONE, DEFAULT_QUOTE_AGING_BANDS, type QuoteAgingBand } from "@shared/companySettings";
+import { api, ApiError } from "@/lib/api";
+import type { AppSettingEntry, Staff } from "@shared/schema";
+import type { VersionConflictBody } from "@shared/api";
 
 export interface StaffMember {
   id: string;
@@ -8,12 +14,16 @@ export interface StaffMember {
   skills: ("posts" | "panels" | "production")[];
   color: string;
   active: boolean;
+  serviceM8Uuid?: string; // ServiceM8 staff uuid, needed to book install crews in ServiceM8
 }
 
 export interface PipelineColumn {
   id: string;
   title: string;
   color?: string;
+  // Leads Pipeline only: moving a card here sets this ServiceM8 status and/or badge
+  serviceM8Status?: string;
+  serviceM8Badge?: string;
 }
 
 export interface PipelineConfig {
@@ -32,11 +42,12 @@ export interface AppSettings {
   companyName: string;
   defaultWorkHoursPerDay: number;
   installStages: InstallStage[];
+  companyTimezone: string; // IANA timezone that ServiceM8 timestamps are read in
+  quoteAgingBands: QuoteAgingBand[]; // Quotes Pipeline columns for sent quotes by age
 }
 
 interface SettingsContextType {
   staff: StaffMember[];
-  setStaff: (staff: StaffMember[]) => void;
   addStaff: (member: StaffMember) => void;
   updateStaff: (member: StaffMember) => void;
   deleteStaff: (id: string) => void;
@@ -56,13 +67,8 @@ interface SettingsContextType {
 
 const STORAGE_KEY = "probuild_settings";
 
-const DEFAULT_STAFF: StaffMember[] = [
-  { id: "all", name: "All Staff", role: "sales", dailyCapacityHours: 0, skills: [], color: "bg-gray-500", active: true },
-  { id: "wayne", name: "Wayne", role: "sales", dailyCapacityHours: 8, skills: [], color: "bg-blue-500", active: true },
-  { id: "bradley", name: "Bradley", role: "sales", dailyCapacityHours: 8, skills: [], color: "bg-blue-500", active: true },
-  { id: "dave_turner", name: "Dave Turner", role: "sales", dailyCapacityHours: 8, skills: [], color: "bg-blue-500", active: true },
-  { id: "david_rees", name: "David Rees", role: "sales", dailyCapacityHours: 8, skills: [], color: "bg-blue-500", active: true },
-];
+// How often open clients check whether settings were changed elsewhere
+const SETTINGS_POLL_MS = 15000;
 
 const DEFAULT_PIPELINES: PipelineConfig = {
   leads: [
@@ -106,157 +112,218 @@ const DEFAULT_APP_SETTINGS: AppSettings = {
   companyName: "PROBUILD",
   defaultWorkHoursPerDay: 8,
   installStages: DEFAULT_INSTALL_STAGES,
+  companyTimezone: DEFAULT_COMPANY_TIMEZONE,
+  quoteAgingBands: DEFAULT_QUOTE_AGING_BANDS,
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-export function SettingsProvider({ children }: { children: ReactNode }) {
-  const [staff, setStaffState] = useState<StaffMember[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return parsed.staff || DEFAULT_STAFF;
-      }
-    } catch (e) {
-      console.error("Failed to load staff from storage:", e);
-    }
-    return DEFAULT_STAFF;
-  });
+// Read the copy cached in localStorage, so the app starts with the last settings seen
+function loadCachedSetting<T>(key: "pipelines" | "appSettings"): T | undefined {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved)[key];
+  } catch (e) {
+    console.error(`Failed to load ${key} from storage:`, e);
+  }
+  return undefined;
+}
 
-  const [pipelines, setPipelinesState] = useState<PipelineConfig>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return parsed.pipelines || DEFAULT_PIPELINES;
-      }
-    } catch (e) {
-      console.error("Failed to load pipelines from storage:", e);
-    }
-    return DEFAULT_PIPELINES;
-  });
+type VersionedSetting<T> = { value: T; version: number; dirty: boolean };
 
-  const [appSettings, setAppSettingsState] = useState<AppSettings>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        return parsed.appSettings || DEFAULT_APP_SETTINGS;
-      }
-    } catch (e) {
-      console.error("Failed to load app settings from storage:", e);
-    }
-    return DEFAULT_APP_SETTINGS;
-  });
+const SETTING_LABELS: Record<string, string> = {
+  pipelines: "Pipelines",
+  appSettings: "General settings",
+};
 
+// One app setting kept in step with the server. Edits are saved a second after the last change with
+// the version they were made on; if someone else saved first, their value is loaded instead.
+function useVersionedSetting<T>(key: "pipelines" | "appSettings", fallback: T, fromServer: (value: any) => T) {
+  const [setting, setSetting] = useState<VersionedSetting<T>>(() => {
+    const cached = loadCachedSetting<T>(key);
+    return { value: cached !== undefined ? fromServer(cached) : fallback, version: 0, dirty: false };
+  });
   const [isLoaded, setIsLoaded] = useState(false);
+  const settingRef = useRef(setting);
+  settingRef.current = setting;
+
+  const reload = useCallback(async () => {
+    const entry = await api.settings.get(key);
+    setSetting({ value: entry.value !== null ? fromServer(entry.value) : fallback, version: entry.version, dirty: false });
+  }, [key]);
+
+  useEffect(() => {
+    reload()
+      .catch(e => console.error(`Failed to load ${key} from server:`, e))
+      .finally(() => setIsLoaded(true));
+  }, [reload]);
 
-  // Load settings from database on mount
   useEffect(() => {
-    const loadFromServer = async () => {
+    if (!isLoaded || !setting.dirty) return;
+
+    const saveToServer = async () => {
+      const saving = setting;
       try {
-        const res = await fetch('/api/settings');
-        if (res.ok) {
-          const serverSettings = await res.json();
-          if (serverSettings.staff) setStaffState(serverSettings.staff);
-          if (serverSettings.pipelines) setPipelinesState(serverSettings.pipelines);
-          if (serverSettings.appSettings) setAppSettingsState(serverSettings.appSettings);
-        }
+        const { version } = await api.settings.save(key, saving.value, saving.version);
+        // Anything edited while the save was in flight is still unsaved, now against the new version
+        setSetting(prev => ({ ...prev, version, dirty: prev.value !== saving.value }));
       } catch (e) {
-        console.error("Failed to load settings from server:", e);
+        if (e instanceof ApiError && e.status === 409) {
+          const { current } = e.body as VersionConflictBody<AppSettingEntry>;
+          setSetting({ value: current.value !== null ? fromServer(current.value) : fallback, version: current.version, dirty: false });
+          toast.error(`${SETTING_LABELS[key]} were changed on another computer. Their changes have been loaded; please make yours again.`);
+          return;
+        }
+        console.error(`Failed to save ${key} to server:`, e);
+        toast.error(`Failed to save ${SETTING_LABELS[key].toLowerCase()}`);
       }
-      setIsLoaded(true);
     };
-    loadFromServer();
+
+    const timeoutId = setTimeout(saveToServer, 1000); // Debounce 1 second
+    return () => clearTimeout(timeoutId);
+  }, [setting, isLoaded]);
+
+  const update = useCallback((next: T | ((prev: T) => T)) => {
+    setSetting(prev => ({
+      ...prev,
+      value: typeof next === "function" ? (next as (prev: T) => T)(prev.value) : next,
+      dirty: true,
+    }));
   }, []);
 
-  // Save settings to both localStorage and database when they change
+  // Pick up a newer version saved elsewhere, unless there are local edits (their save will hit the conflict instead)
+  const refreshIfChanged = useCallback(async (serverVersion: number | undefined) => {
+    const current = settingRef.current;
+    if (serverVersion === undefined || serverVersion <= current.version || current.dirty) return false;
+    await reload();
+    return true;
+  }, [reload]);
+
+  return { value: setting.value, update, refreshIfChanged, isLoaded };
+}
+
+function toStaffMember(row: Staff): StaffMember {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role as StaffMember["role"],
+    dailyCapacityHours: row.dailyCapacityHours,
+    skills: (row.skills || []) as StaffMember["skills"],
+    color: row.color,
+    active: row.active,
+    serviceM8Uuid: row.serviceM8Uuid || undefined,
+  };
+}
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+
+  // Staff live in the staff table; ServiceM8 staff are added there by sync
+  const { data: staffRows = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+    refetchInterval: SETTINGS_POLL_MS,
+  });
+  const staff = staffRows.map(toStaffMember);
+
+  const pipelinesSetting = useVersionedSetting<PipelineConfig>("pipelines", DEFAULT_PIPELINES, value => value);
+  // Settings saved before a field existed pick up its default
+  const appSettingsSetting = useVersionedSetting<AppSettings>("appSettings", DEFAULT_APP_SETTINGS, value => ({ ...DEFAULT_APP_SETTINGS, ...value }));
+  const pipelines = pipelinesSetting.value;
+  const appSettings = appSettingsSetting.value;
+  const isLoaded = pipelinesSetting.isLoaded && appSettingsSetting.isLoaded;
+
+  // Keep a local copy for fast startup
   useEffect(() => {
-    if (!isLoaded) return; // Don't save until we've loaded from server
-    
-    const settingsData = { staff, pipelines, appSettings };
-    
-    // Save to localStorage for fast local access
+    if (!isLoaded) return;
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(settingsData));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ pipelines, appSettings }));
     } catch (e) {
       console.error("Failed to save settings to localStorage:", e);
     }
-    
-    // Debounced save to database
-    const saveToServer = async () => {
+  }, [pipelines, appSettings, isLoaded]);
+
+  // Tell this client when another one changes the settings
+  const { refreshIfChanged: refreshPipelines } = pipelinesSetting;
+  const { refreshIfChanged: refreshAppSettings } = appSettingsSetting;
+  useEffect(() => {
+    if (!isLoaded) return;
+    const checkVersions = async () => {
       try {
-        await fetch('/api/settings', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(settingsData),
-        });
+        const versions = await api.settings.versions();
+        const changed = await Promise.all([refreshPipelines(versions.pipelines), refreshAppSettings(versions.appSettings)]);
+        if (changed.some(Boolean)) toast.info("Settings were updated on another computer");
       } catch (e) {
-        console.error("Failed to save settings to server:", e);
+        console.error("Failed to check for settings changes:", e);
       }
     };
-    
-    const timeoutId = setTimeout(saveToServer, 1000); // Debounce 1 second
-    return () => clearTimeout(timeoutId);
-  }, [staff, pipelines, appSettings, isLoaded]);
+    const intervalId = setInterval(checkVersions, SETTINGS_POLL_MS);
+    return () => clearInterval(intervalId);
+  }, [isLoaded, refreshPipelines, refreshAppSettings]);
+
+  const saveStaff = async (save: () => Promise<unknown>) => {
+    try {
+      await save();
+    } catch (e) {
+      console.error("Failed to save staff:", e);
+      toast.error("Failed to save staff member");
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+  };
 
-  const setStaff = (newStaff: StaffMember[]) => setStaffState(newStaff);
-  
   const addStaff = (member: StaffMember) => {
-    setStaffState(prev => [...prev, member]);
+    saveStaff(() => api.staff.create(member));
   };
 
   const updateStaff = (member: StaffMember) => {
-    setStaffState(prev => prev.map(s => s.id === member.id ? member : s));
+    const { id, ...fields } = member;
+    saveStaff(() => api.staff.update(id, { ...fields, serviceM8Uuid: fields.serviceM8Uuid || null }));
   };
 
   const deleteStaff = (id: string) => {
-    setStaffState(prev => prev.filter(s => s.id !== id));
+    saveStaff(() => api.staff.delete(id));
   };
 
-  const setPipelines = (newPipelines: PipelineConfig) => setPipelinesState(newPipelines);
+  const setPipelines = (newPipelines: PipelineConfig) => pipelinesSetting.update(newPipelines);
 
   const addPipelineColumn = (pipelineType: keyof PipelineConfig, column: PipelineColumn) => {
-    setPipelinesState(prev => ({
+    pipelinesSetting.update(prev => ({
       ...prev,
       [pipelineType]: [...prev[pipelineType], column],
     }));
   };
 
   const updatePipelineColumn = (pipelineType: keyof PipelineConfig, column: PipelineColumn) => {
-    setPipelinesState(prev => ({
+    pipelinesSetting.update(prev => ({
       ...prev,
       [pipelineType]: prev[pipelineType].map(c => c.id === column.id ? column : c),
     }));
   };
 
   const deletePipelineColumn = (pipelineType: keyof PipelineConfig, columnId: string) => {
-    setPipelinesState(prev => ({
+    pipelinesSetting.update(prev => ({
       ...prev,
       [pipelineType]: prev[pipelineType].filter(c => c.id !== columnId),
     }));
   };
 
   const reorderPipelineColumns = (pipelineType: keyof PipelineConfig, columns: PipelineColumn[]) => {
-    setPipelinesState(prev => ({
+    pipelinesSetting.update(prev => ({
       ...prev,
       [pipelineType]: columns,
     }));
   };
 
-  const setAppSettings = (settings: AppSettings) => setAppSettingsState(settings);
+  const setAppSettings = (settings: AppSettings) => appSettingsSetting.update(settings);
 
   const getDailyInstallCapacity = () => {
     return staff
-      .filter(s => s.role === "install" && s.active && s.id !== "all")
+      .filter(s => s.role === "install" && s.active)
       .reduce((sum, s) => sum + s.dailyCapacityHours, 0);
   };
 
   return (
     <SettingsContext.Provider value={{
       staff,
-      setStaff,
       addStaff,
       updateStaff,
       deleteStaff,
@@ -1,20 +1,27 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Job } from "@/lib/mockData";
 import { useSettings } from "@/lib/settingsContext";
+import { useAuth } from "@/lib/auth";
+import { useServerEvents } from "@/lib/serverEvents";
+import { EditConflictError, patchVersioned } from "@/lib/conflicts";
+import { api, ApiError } from "@/lib/api";
 import { PipelineBoard } from "@/components/PipelineBoard";
 import { ProductionDashboard } from "@/components/ProductionDashboard";
 import { SchedulerDashboard } from "@/components/SchedulerDashboard";
 import { SettingsPanel } from "@/components/SettingsPanel";
+import { LiveUpdatesIndicator } from "@/components/LiveUpdatesIndicator";
+import { ConflictDialog } from "@/components/ConflictDialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Plus, Search, Settings, Users, Loader2 } from "lucide-react";
+import { RefreshCw, Plus, Search, Settings, Users, Loader2, LogOut } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import type { SelectJob } from "@shared/schema";
+import type { CommunicationSearchResult, SchedulerStage, SelectJob, Staff } from "@shared/schema";
+import type { JobUpdate } from "@shared/api";
 
 function mapDbJobToJob(dbJob: SelectJob): Job {
   return {
@@ -32,6 +39,11 @@ function mapDbJobToJob(dbJob: SelectJob): Job {
     hoursSinceQuoteSent: dbJob.hoursSinceQuoteSent ?? undefined,
     daysSinceLastContact: dbJob.daysSinceLastContact || 0,
     assignedStaff: dbJob.assignedStaff || "wayne",
+    assignedStaffId: dbJob.assignedStaffId || undefined,
+    fenceLength: dbJob.fenceLength ?? undefined,
+    gateCount: dbJob.gateCount ?? undefined,
+    leadSource: dbJob.leadSource || undefined,
+    extraFields: dbJob.extraFields || undefined,
     lastNote: dbJob.lastNote || "",
     dateCreated: dbJob.createdAt ? new Date(dbJob.createdAt) : new Date(),
     urgency: (dbJob.urgency as Job["urgency"]) || "low",
@@ -42,6 +54,8 @@ function mapDbJobToJob(dbJob: SelectJob): Job {
     installStage: (dbJob.installStage as Job["installStage"]) || "pending_posts",
     postInstallDate: dbJob.postInstallDate ? new Date(dbJob.postInstallDate) : undefined,
     panelInstallDate: dbJob.panelInstallDate ? new Date(dbJob.panelInstallDate) : undefined,
+    allocationError: dbJob.allocationError || undefined,
+    installAllocations: dbJob.installAllocations || undefined,
     tentativePostDate: dbJob.tentativePostDate ? new Date(dbJob.tentativePostDate) : undefined,
     tentativePanelDate: dbJob.tentativePanelDate ? new Date(dbJob.tentativePanelDate) : undefined,
     tentativeNotes: dbJob.tentativeNotes || undefined,
@@ -58,8 +72,13 @@ function mapDbJobToJob(dbJob: SelectJob): Job {
 
 export default function CommandCenter() {
   const queryClient = useQueryClient();
-  const { staff, pipelines, appSettings } = useSettings();
-  const [viewMode, setViewMode] = useState<"sales" | "production" | "scheduler">("sales");
+  const { pipelines, appSettings } = useSettings();
+  const { user, logout, can } = useAuth();
+  const [viewMode, setViewMode] = useState<"sales" | "production" | "scheduler">(
+    () => can("sales.view") ? "sales" : can("production.view") ? "production" : "scheduler"
+  );
+  const canEditJobs = can("jobs.edit");
+  const canOpenSettings = (["staff.edit", "workTypes.edit", "settings.edit", "sync.run", "jobs.view", "users.manage"] as const).some(can);
   const [selectedStaff, setSelectedStaff] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -71,34 +90,119 @@ export default function CommandCenter() {
 
   const jobs: Job[] = dbJobs.map(mapDbJobToJob);
 
-  const updateJobMutation = useMutation({
-    mutationFn: async ({ id, updates }: { id: string; updates: Partial<SelectJob> }) => {
-      const res = await fetch(`/api/jobs/${id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(updates),
+  // Other people's edits land in the job list as they're saved; a finished sync reloads it
+  useServerEvents((event) => {
+    if (event.type === "job") {
+      queryClient.setQueryData<SelectJob[]>(["/api/jobs"], (current) => {
+        if (!current) return current;
+        const updated = event.job;
+        if (!updated) return current.filter(job => job.id !== event.jobId);
+        return current.some(job => job.id === updated.id)
+          ? current.map(job => job.id === updated.id ? updated : job)
+          : [...current, updated];
       });
-      if (!res.ok) throw new Error("Failed to update job");
-      return res.json();
+    } else if (event.type === "sync_completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/archived"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync-conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/history"] });
+    }
+  });
+
+  // Staff synced from ServiceM8, which jobs are linked to by id
+  const { data: staffMembers = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  // Jobs whose emails, SMS or notes mention the search text also match
+  const trimmedSearch = searchQuery.trim();
+  const searchesCommunications = trimmedSearch.length >= 3;
+  const { data: communicationMatches = [] } = useQuery<CommunicationSearchResult[]>({
+    queryKey: ["/api/communications/search", trimmedSearch],
+    queryFn: () => api.jobs.searchCommunications(trimmedSearch),
+    enabled: searchesCommunications && can("jobs.view"),
+    placeholderData: (previous) => previous,
+  });
+  const communicationMatchUuids = new Set(
+    searchesCommunications ? communicationMatches.map(match => match.jobServiceM8Uuid) : []
+  );
+
+  // Edits are made against the job as this client last saw it; see patchVersioned
+  const [jobConflict, setJobConflict] = useState<{ id: string; error: EditConflictError<SelectJob, JobUpdate> } | null>(null);
+
+  const updateJobMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: JobUpdate }) => {
+      const base = queryClient.getQueryData<SelectJob[]>(["/api/jobs"])?.find(job => String(job.id) === id);
+      return patchVersioned(base, updates, body => api.jobs.update(id, body));
     },
-    onSuccess: () => {
+    onSuccess: (job, { updates }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      if (job.allocationError && ("postInstallDate" in updates || "panelInstallDate" in updates)) {
+        toast.warning(`Schedule saved, but the ServiceM8 booking failed - ${job.allocationError}`);
+      } else {
+        // Only offered when the edit went on the undo stack, so Undo can't take back an earlier edit
+        toast.success(`${job.jobId} updated`, job.undoable ? { action: { label: "Undo", onClick: () => undoMutation.mutate("undo") } } : undefined);
+      }
+    },
+    onError: (error: Error, { id }) => {
+      if (error instanceof EditConflictError) {
+        const current = error.current as SelectJob;
+        queryClient.setQueryData<SelectJob[]>(["/api/jobs"], (jobs) => jobs?.map(job => job.id === current.id ? current : job));
+        setJobConflict({ id, error: error as EditConflictError<SelectJob, JobUpdate> });
+        return;
+      }
+      // Put the card back where the server has it
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast.error(error.message);
     },
   });
 
+  // Undo and redo the user's own job edits, newest first. The server keeps the stack, so it
+  // survives a reload and refuses if the job has been changed since.
+  const undoMutation = useMutation({
+    mutationFn: (direction: "undo" | "redo") => api.jobs.undo(direction),
+    onSuccess: ({ description }, direction) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast.success(`${direction === "undo" ? "Undone" : "Redone"}: ${description}`, {
+        action: direction === "undo"
+          ? { label: "Redo", onClick: () => undoMutation.mutate("redo") }
+          : { label: "Undo", onClick: () => undoMutation.mutate("undo") },
+      });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, unless the user is typing somewhere
+  useEffect(() => {
+    if (!canEditJobs) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      const direction = key === "z" ? (event.shiftKey ? "redo" : "undo") : key === "y" ? "redo" : null;
+      if (!direction || undoMutation.isPending) return;
+      event.preventDefault();
+      undoMutation.mutate(direction);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [canEditJobs, undoMutation]);
+
   const syncServiceM8 = async () => {
     setIsSyncing(true);
     try {
-      const res = await fetch("/api/sync/servicem8", { method: "POST" });
-      const data = await res.json();
-      if (data.success) {
-        toast.success(`Synced ${data.jobsProcessed} jobs from ServiceM8`);
-        queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      const data = await api.sync.run();
+      const details = ` (${data.counts.created} new, ${data.counts.updated} updated)`;
+      if (data.status === "partial") {
+        toast.warning(`Synced ${data.jobsProcessed} jobs from ServiceM8${details}, but some data couldn't be fetched - see Settings > Sync`);
       } else {
-        toast.error(data.message || "Sync failed");
+        toast.success(`Synced ${data.jobsProcessed} jobs from ServiceM8${details}`);
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
     } catch (error) {
-      toast.error("Failed to sync with ServiceM8");
+      toast.error(error instanceof ApiError ? error.body.message || error.message : "Failed to sync with ServiceM8");
     } finally {
       setIsSyncing(false);
     }
@@ -108,16 +212,20 @@ export default function CommandCenter() {
     updateJobMutation.mutate({ id: jobId, updates: { status: newStatus } });
   };
 
-  const handleScheduleJob = (jobId: string, type: 'posts' | 'panels', date: Date) => {
+  const handleSalesStageMove = (jobId: string, newStage: string) => {
+    updateJobMutation.mutate({ id: jobId, updates: { salesStage: newStage } });
+  };
+
+  const handleScheduleJob = (jobId: string, type: 'posts' | 'panels', date: Date, fromTentative = false) => {
     if (type === 'posts') {
       updateJobMutation.mutate({ 
         id: jobId, 
-        updates: { postInstallDate: date, installStage: 'posts_scheduled' } 
+        updates: { postInstallDate: date, installStage: 'posts_scheduled', ...(fromTentative && { tentativePostDate: null }) } 
       });
     } else {
       updateJobMutation.mutate({ 
         id: jobId, 
-        updates: { panelInstallDate: date, installStage: 'panels_scheduled' } 
+        updates: { panelInstallDate: date, installStage: 'panels_scheduled', ...(fromTentative && { tentativePanelDate: null }) } 
       });
     }
   };
@@ -200,7 +308,7 @@ export default function CommandCenter() {
     }
   };
 
-  const handleSchedulerStageChange = (jobId: string, newStage: string) => {
+  const handleSchedulerStageChange = (jobId: string, newStage: SchedulerStage) => {
     updateJobMutation.mutate({ 
       id: jobId, 
       updates: { schedulerStage: newStage } 
@@ -208,11 +316,12 @@ export default function CommandCenter() {
   };
 
   const filteredJobs = jobs.filter((job) => {
-    const staffMatch = selectedStaff === "all" || job.assignedStaff === selectedStaff;
+    const staffMatch = selectedStaff === "all" || job.assignedStaffId === selectedStaff;
     const searchMatch = 
       job.customerName.toLowerCase().includes(searchQuery.toLowerCase()) ||
       job.jobId.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      job.address.toLowerCase().includes(searchQuery.toLowerCase());
+      job.address.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (!!job.serviceM8Uuid && communicationMatchUuids.has(job.serviceM8Uuid));
     return staffMatch && searchMatch;
   });
 
@@ -224,13 +333,14 @@ export default function CommandCenter() {
     job.status !== 'complete'
   );
   
-  // Jobs with quotes SENT for Quotes Pipeline (only fresh, awaiting_reply, or Hot Lead badge)
+  // Jobs with quotes SENT for Quotes Pipeline (in one of the quote aging columns, or Hot Lead badge)
   // Jobs with "Hot Lead" badge get routed to "hot" column via displaySalesStage
+  const agingStages = appSettings.quoteAgingBands.map(band => band.stage);
   const quotesJobs = filteredJobs
     .filter(job => 
       job.lifecyclePhase === 'quote' && 
       (
-        (job.salesStage && (job.salesStage === 'fresh' || job.salesStage === 'awaiting_reply')) ||
+        (job.salesStage && agingStages.includes(job.salesStage)) ||
         (job.badges && job.badges.includes('Hot Lead'))
       )
     )
@@ -264,42 +374,48 @@ export default function CommandCenter() {
           <div className="h-8 w-px bg-border mx-2" />
 
           <div className="flex bg-muted p-1 rounded-md">
-            <button
-              onClick={() => setViewMode("sales")}
-              data-testid="view-mode-sales"
-              className={cn(
-                "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
-                viewMode === "sales" 
-                  ? "bg-white text-primary shadow-sm" 
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              Sales
-            </button>
-            <button
-              onClick={() => setViewMode("production")}
-              data-testid="view-mode-production"
-              className={cn(
-                "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
-                viewMode === "production" 
-                  ? "bg-white text-primary shadow-sm" 
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              Production
-            </button>
-            <button
-              onClick={() => setViewMode("scheduler")}
-              data-testid="view-mode-scheduler"
-              className={cn(
-                "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
-                viewMode === "scheduler" 
-                  ? "bg-white text-primary shadow-sm" 
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              Scheduler
-            </button>
+            {can("sales.view") && (
+              <button
+                onClick={() => setViewMode("sales")}
+                data-testid="view-mode-sales"
+                className={cn(
+                  "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
+                  viewMode === "sales" 
+                    ? "bg-white text-primary shadow-sm" 
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                Sales
+              </button>
+            )}
+            {can("production.view") && (
+              <button
+                onClick={() => setViewMode("production")}
+                data-testid="view-mode-production"
+                className={cn(
+                  "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
+                  viewMode === "production" 
+                    ? "bg-white text-primary shadow-sm" 
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                Production
+              </button>
+            )}
+            {can("scheduler.view") && (
+              <button
+                onClick={() => setViewMode("scheduler")}
+                data-testid="view-mode-scheduler"
+                className={cn(
+                  "px-4 py-1.5 text-xs font-bold uppercase tracking-wide rounded-sm transition-all",
+                  viewMode === "scheduler" 
+                    ? "bg-white text-primary shadow-sm" 
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                Scheduler
+              </button>
+            )}
           </div>
         </div>
 
@@ -307,7 +423,7 @@ export default function CommandCenter() {
           <div className="relative w-64">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input 
-              placeholder="Search jobs, customers..." 
+              placeholder="Search jobs, customers, messages..." 
               className="pl-9 h-9 bg-muted/50 border-transparent focus:bg-background focus:border-primary transition-colors"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -322,7 +438,8 @@ export default function CommandCenter() {
                 <SelectValue placeholder="Select Staff" />
               </SelectTrigger>
               <SelectContent>
-                {staff.filter(s => s.active).map((member) => (
+                <SelectItem value="all">All Staff</SelectItem>
+                {staffMembers.filter(s => s.active).map((member) => (
                   <SelectItem key={member.id} value={member.id}>
                     {member.name}
                   </SelectItem>
@@ -331,34 +448,62 @@ export default function CommandCenter() {
             </Select>
           </div>
 
-          <Dialog open={settingsOpen} onOpenChange={setSettingsOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm" data-testid="settings-btn">
-                <Settings className="h-4 w-4 mr-2" />
-                Settings
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle className="flex items-center gap-2">
-                  <Settings className="h-5 w-5" />
+          {canOpenSettings && (
+            <Dialog open={settingsOpen} onOpenChange={setSettingsOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" data-testid="settings-btn">
+                  <Settings className="h-4 w-4 mr-2" />
                   Settings
-                </DialogTitle>
-              </DialogHeader>
-              <SettingsPanel />
-            </DialogContent>
-          </Dialog>
-
-          <Button size="sm" className="bg-primary hover:bg-primary/90" data-testid="new-job-btn">
-            <Plus className="h-4 w-4 mr-2" />
-            New Job
-          </Button>
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    <Settings className="h-5 w-5" />
+                    Settings
+                  </DialogTitle>
+                </DialogHeader>
+                <SettingsPanel />
+              </DialogContent>
+            </Dialog>
+          )}
+
+          {canEditJobs && (
+            <Button size="sm" className="bg-primary hover:bg-primary/90" data-testid="new-job-btn">
+              <Plus className="h-4 w-4 mr-2" />
+              New Job
+            </Button>
+          )}
+
+          <LiveUpdatesIndicator />
+          <ConflictDialog
+            conflict={jobConflict?.error ?? null}
+            subject={`Job ${jobConflict?.error.current.jobId ?? ""}`}
+            onKeepMine={() => {
+              if (jobConflict) updateJobMutation.mutate({ id: jobConflict.id, updates: jobConflict.error.updates });
+              setJobConflict(null);
+            }}
+            onKeepTheirs={() => setJobConflict(null)}
+          />
+
+          <div className="flex items-center gap-2 pl-3 border-l">
+            <span className="text-sm text-muted-foreground" data-testid="current-user">{user?.displayName}</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => logout()} title="Sign out" data-testid="logout-btn">
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 overflow-hidden p-6 pt-4">
-        {viewMode === "sales" && (
+        {!user?.role && (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground" data-testid="no-role-message">
+            Your account isn't linked to a staff member yet. Ask an admin to link it under Settings &gt; Users.
+          </div>
+        )}
+
+        {viewMode === "sales" && can("sales.view") && (
           <Tabs defaultValue="leads" className="h-full flex flex-col">
             <div className="flex items-center justify-between mb-4 shrink-0">
               <TabsList className="h-10 bg-muted/50 p-1">
@@ -366,21 +511,23 @@ export default function CommandCenter() {
                 <TabsTrigger value="quotes" className="px-6 data-[state=active]:bg-background data-[state=active]:shadow-sm" data-testid="quotes-tab">QUOTES PIPELINE</TabsTrigger>
               </TabsList>
               
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                className="text-muted-foreground hover:text-foreground" 
-                data-testid="sync-btn"
-                onClick={syncServiceM8}
-                disabled={isSyncing}
-              >
-                {isSyncing ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-4 w-4 mr-2" />
-                )}
-                {isSyncing ? "Syncing..." : "Sync ServiceM8"}
-              </Button>
+              {can("sync.run") && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  className="text-muted-foreground hover:text-foreground" 
+                  data-testid="sync-btn"
+                  onClick={syncServiceM8}
+                  disabled={isSyncing}
+                >
+                  {isSyncing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  {isSyncing ? "Syncing..." : "Sync ServiceM8"}
+                </Button>
+              )}
             </div>
 
             <TabsContent value="leads" className="flex-1 overflow-hidden mt-0 data-[state=active]:flex">
@@ -395,27 +542,28 @@ export default function CommandCenter() {
               <PipelineBoard 
                   columns={pipelines.quotes} 
                   jobs={quotesJobs} 
-                  onJobMove={handleJobMove}
+                  onJobMove={handleSalesStageMove}
                   statusField="salesStage"
                />
             </TabsContent>
           </Tabs>
         )}
 
-        {viewMode === "production" && (
+        {viewMode === "production" && can("production.view") && (
           <ProductionDashboard jobs={filteredJobs} onJobMove={handleJobMove} />
         )}
 
-        {viewMode === "scheduler" && (
+        {viewMode === "scheduler" && can("scheduler.view") && (
           <SchedulerDashboard 
             jobs={workOrderJobs} 
             onJobMove={handleJobMove}
-            onScheduleJob={handleScheduleJob}
-            onUnscheduleJob={handleUnscheduleJob}
-            onTentativeSchedule={handleTentativeSchedule}
-            onUnscheduleTentative={handleUnscheduleTentative}
-            onConfirmTentative={handleConfirmTentative}
-            onSchedulerStageChange={handleSchedulerStageChange}
+            onScheduleJob={canEditJobs ? handleScheduleJob : undefined}
+            onUnscheduleJob={canEditJobs ? handleUnscheduleJob : undefined}
+            onTentativeSchedule={canEditJobs ? handleTentativeSchedule : undefined}
+            onUnscheduleTentative={canEditJobs ? handleUnscheduleTentative : undefined}
+            onConfirmTentative={canEditJobs ? handleConfirmTentative : undefined}
+            onSchedulerStageChange={canEditJobs ? handleSchedulerStageChange : undefined}
+            canUpdateOwnStages={!can("stages.update") && can("stages.updateOwn")}
           />
         )}
       </main>
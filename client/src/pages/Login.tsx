@@ -0,0 +1,88 @@
+import { useState, type FormEvent } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+
+export default function Login() {
+  const { login, setup, setupRequired } = useAuth();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (setupRequired) {
+        await setup({ username, displayName, password });
+      } else {
+        await login(username, password);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">PROBUILD Command Center</CardTitle>
+          <CardDescription>
+            {setupRequired ? "Create the first admin account to get started." : "Sign in to continue."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus
+                data-testid="login-username"
+              />
+            </div>
+            {setupRequired && (
+              <div className="space-y-1">
+                <Label htmlFor="display-name">Your name</Label>
+                <Input
+                  id="display-name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  data-testid="login-display-name"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={setupRequired ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="login-password"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive" data-testid="login-error">{error}</p>}
+            <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password} data-testid="login-submit">
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {setupRequired ? "Create account" : "Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { mkdir, readFile, readdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { pathToFileURL } from "url";
+
+// Offline stand-in for the ServiceM8 API, for developing and reproducing sync bugs against a fixed
+// dataset. Serves the REST endpoints ServiceM8Client and the routes use (list + single record, with
+// $filter, $orderby and cursor paging), the SMS/email platform services, and the OAuth flow.
+//
+//   npm run sm8:sim -- [--port 5050] [--jobs 250] [--seed 1] [--fixtures dir] [--save dir]
+//                      [--fail-rate 0.1] [--lose-response-rate 0.1] [--latency 200]
+//
+// Then start the app with:
+//   SERVICEM8_BASE_URL=http://localhost:5050 SERVICEM8_OAUTH_BASE_URL=http://localhost:5050 \
+//   SERVICEM8_API_KEY=sim SERVICEM8_APP_ID=sim SERVICEM8_APP_SECRET=sim npm run dev
+//
+// --fixtures loads <object>.json files (e.g. recorded job.json, company.json responses) instead of
+// generating data. --save writes the dataset out in the same layout so it can be edited and reloaded.
+// --fail-rate answers that fraction of API requests with a 503 or a 429 + Retry-After.
+// --lose-response-rate saves that fraction of writes and then answers 502, as when ServiceM8 did the
+// write but the response never made it back, to check that retried writes aren't saved twice.
+
+type SM8Record = Record<string, any>;
+export type Dataset = Record<string, SM8Record[]>;
+
+export interface SimulatorOptions {
+  port: number;
+  jobs: number;
+  seed: number;
+  fixtures?: string;
+  save?: string;
+  failRate: number;
+  loseResponseRate: number;
+  latency: number;
+}
+
+// Objects served as collections. Anything else answers 404, as ServiceM8 does for unknown objects.
+const OBJECT_TYPES = [
+  "job", "company", "companycontact", "jobcontact", "feeditem", "note", "badge",
+  "jobactivity", "staff", "queue", "smslog", "emaillog",
+];
+
+const MAX_PAGE_SIZE = 5000;
+
+function parseArgs(argv: string[]): SimulatorOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args.set(argv[i].slice(2), argv[i + 1] && !argv[i + 1].startsWith("--") ? argv[++i] : "true");
+    }
+  }
+  return {
+    port: Number(args.get("port") || process.env.PORT || 5050),
+    jobs: Number(args.get("jobs") || 250),
+    seed: Number(args.get("seed") || 1),
+    fixtures: args.get("fixtures"),
+    save: args.get("save"),
+    failRate: Number(args.get("fail-rate") || 0),
+    loseResponseRate: Number(args.get("lose-response-rate") || 0),
+    latency: Number(args.get("latency") || 0),
+  };
+}
+
+// ============== DATASET ==============
+
+// Small deterministic PRNG (mulberry32) so the same seed always produces the same dataset
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+    uuid: () => {
+      const hex = Array.from({ length: 32 }, () => Math.floor(next() * 16).toString(16)).join("");
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+    },
+  };
+}
+
+// ServiceM8 timestamps: 'YYYY-MM-DD HH:mm:ss' in the account's local time (Perth, UTC+8)
+function sm8Timestamp(date: Date): string {
+  const perth = new Date(date.getTime() + 8 * 60 * 60 * 1000);
+  return perth.toISOString().replace("T", " ").slice(0, 19);
+}
+
+function daysAgo(days: number, hours: number = 0): Date {
+  return new Date(Date.now() - (days * 24 + hours) * 60 * 60 * 1000);
+}
+
+const FIRST_NAMES = ["Olivia", "Jack", "Charlotte", "Liam", "Amelia", "Noah", "Isla", "William", "Mia", "Thomas", "Grace", "Lucas"];
+const LAST_NAMES = ["Smith", "Jones", "Williams", "Brown", "Wilson", "Taylor", "Nguyen", "Martin", "Anderson", "Walker", "Harris", "Clarke"];
+const STREETS = ["Canning Hwy", "Stirling St", "Marine Pde", "Albany Hwy", "Great Eastern Hwy", "Scarborough Beach Rd", "Leach Hwy"];
+const SUBURBS = ["Fremantle", "Joondalup", "Rockingham", "Midland", "Cottesloe", "Armadale", "Scarborough", "Mandurah"];
+const DESCRIPTIONS = ["PVC picket fence - front yard", "Pool fencing with self-closing gate", "Colorbond boundary fence", "Slat screen and double driveway gate", "PVC privacy fence - rear boundary"];
+const STAFF_NAMES = ["Dave Mitchell", "Sarah Chen", "Tom Baker", "Priya Patel"];
+const BADGES = ["Urgent", "Council Approval", "Pool Compliance", "Repeat Customer"];
+
+function generateDataset(jobCount: number, seed: number): Dataset {
+  const random = createRandom(seed);
+  const dataset: Dataset = Object.fromEntries(OBJECT_TYPES.map(type => [type, []]));
+
+  const staff = STAFF_NAMES.map(name => {
+    const [first, last] = name.split(" ");
+    return {
+      uuid: random.uuid(),
+      first,
+      last,
+      email: `${first.toLowerCase()}@example.com`,
+      mobile: `04${random.int(10000000, 99999999)}`,
+      active: 1,
+      edit_date: sm8Timestamp(daysAgo(90)),
+    };
+  });
+  dataset.staff = staff;
+
+  dataset.badge = BADGES.map(name => ({ uuid: random.uuid(), name, active: 1, edit_date: sm8Timestamp(daysAgo(90)) }));
+
+  const companyCount = Math.max(1, Math.round(jobCount * 0.8));
+  for (let i = 0; i < companyCount; i++) {
+    const first = random.pick(FIRST_NAMES);
+    const last = random.pick(LAST_NAMES);
+    const company = {
+      uuid: random.uuid(),
+      name: random.chance(0.2) ? `${last} Property Group` : `${first} ${last}`,
+      email: `${first}.${last}${i}@example.com`.toLowerCase(),
+      phone: `08${random.int(10000000, 99999999)}`,
+      mobile: `04${random.int(10000000, 99999999)}`,
+      active: 1,
+      edit_date: sm8Timestamp(daysAgo(random.int(0, 60), random.int(0, 23))),
+    };
+    dataset.company.push(company);
+
+    for (let c = 0; c < random.int(1, 2); c++) {
+      dataset.companycontact.push({
+        uuid: random.uuid(),
+        company_uuid: company.uuid,
+        first: c === 0 ? first : random.pick(FIRST_NAMES),
+        last,
+        email: company.email,
+        mobile: company.mobile,
+        phone: company.phone,
+        is_primary: c === 0 ? 1 : 0,
+        active: 1,
+        edit_date: company.edit_date,
+      });
+    }
+  }
+
+  for (let i = 0; i < jobCount; i++) {
+    const company = random.pick(dataset.company);
+    const createdAt = daysAgo(random.int(1, 120));
+    const status = random.pick(["Quote", "Quote", "Quote", "Work Order", "Work Order", "Completed", "Unsuccessful"]);
+    const quoteSent = status !== "Quote" || random.chance(0.6);
+    const quoteSentAt = daysAgo(random.int(0, 30), random.int(0, 23));
+    const staffMember = random.chance(0.85) ? random.pick(staff) : null;
+    const badgeUuids = dataset.badge.filter(() => random.chance(0.15)).map(badge => badge.uuid);
+
+    const job = {
+      uuid: random.uuid(),
+      generated_job_id: String(1000 + i),
+      active: random.chance(0.97) ? 1 : 0,
+      status,
+      company_uuid: company.uuid,
+      job_address: `${random.int(1, 250)} ${random.pick(STREETS)}, ${random.pick(SUBURBS)} WA`,
+      billing_address: "",
+      job_description: random.pick(DESCRIPTIONS),
+      work_done_description: "",
+      total_invoice_amount: (random.int(15, 250) * 100).toFixed(2),
+      queue_uuid: "",
+      date: sm8Timestamp(createdAt),
+      quote_date: sm8Timestamp(createdAt),
+      quote_sent: quoteSent,
+      quote_sent_stamp: quoteSent ? sm8Timestamp(quoteSentAt) : "",
+      badges: JSON.stringify(badgeUuids),
+      customfield_values: staffMember ? [{ field_name: "customfield_staff_assigned", value: `${staffMember.first} ${staffMember.last}` }] : [],
+      edit_date: sm8Timestamp(daysAgo(random.int(0, 30), random.int(0, 23))),
+    };
+    dataset.job.push(job);
+
+    dataset.jobcontact.push({
+      uuid: random.uuid(),
+      job_uuid: job.uuid,
+      first: company.name.split(" ")[0],
+      last: company.name.split(" ").slice(1).join(" "),
+      email: company.email,
+      mobile: company.mobile,
+      phone: company.phone,
+      type: "JOB",
+      active: 1,
+      edit_date: job.edit_date,
+    });
+
+    for (let f = 0; f < random.int(0, 4); f++) {
+      const type = random.pick(["sms_received", "sms_sent", "email_sent", "email_received", "status_change"]);
+      const at = daysAgo(random.int(0, 30), random.int(0, 23));
+      dataset.feeditem.push({
+        uuid: random.uuid(),
+        related_object: "job",
+        related_object_uuid: job.uuid,
+        type,
+        message: type.startsWith("sms") ? "Hi, just checking in about the fence quote" : type.startsWith("email") ? "Quote for your new fence" : "Status changed",
+        staff_name: type.endsWith("_sent") ? random.pick(STAFF_NAMES) : "",
+        timestamp: sm8Timestamp(at),
+        active: 1,
+        edit_date: sm8Timestamp(at),
+      });
+    }
+
+    for (let n = 0; n < random.int(0, 2); n++) {
+      const at = daysAgo(random.int(0, 30));
+      dataset.note.push({
+        uuid: random.uuid(),
+        related_object: "job",
+        related_object_uuid: job.uuid,
+        note: random.pick(["Called customer, left voicemail", "Customer email received about gate width", "SMS sent to confirm site measure", "Measured site, 24m boundary"]),
+        timestamp: sm8Timestamp(at),
+        active: 1,
+        edit_date: sm8Timestamp(at),
+      });
+    }
+  }
+
+  return dataset;
+}
+
+async function loadFixtures(dir: string): Promise<Dataset> {
+  const dataset: Dataset = Object.fromEntries(OBJECT_TYPES.map(type => [type, []]));
+  for (const file of await readdir(dir)) {
+    if (!file.endsWith(".json")) continue;
+    const records = JSON.parse(await readFile(path.join(dir, file), "utf-8"));
+    if (!Array.isArray(records)) {
+      throw new Error(`Fixture ${file} must contain a JSON array of records`);
+    }
+    dataset[file.replace(/\.json$/, "")] = records;
+  }
+  return dataset;
+}
+
+async function saveFixtures(dataset: Dataset, dir: string) {
+  await mkdir(dir, { recursive: true });
+  for (const [objectType, records] of Object.entries(dataset)) {
+    await writeFile(path.join(dir, `${objectType}.json`), JSON.stringify(records, null, 2));
+  }
+}
+
+// ============== QUERY HANDLING ==============
+
+// Supports the subset of ServiceM8's OData-style $filter the app uses:
+// clauses like `field eq 'value'` or `active eq 1`, joined with `and`
+function matchesFilter(record: SM8Record, filter: string | undefined): boolean {
+  if (!filter) return true;
+  return filter.split(/\s+and\s+/i).every(clause => {
+    const match = clause.trim().match(/^(\w+)\s+(eq|ne|gt|ge|lt|le)\s+(?:'((?:[^']|'')*)'|(\S+))$/i);
+    if (!match) {
+      throw new Error(`Unsupported $filter clause: ${clause}`);
+    }
+    const [, field, op, quoted, bare] = match;
+    const expected = quoted !== undefined ? quoted.replace(/''/g, "'") : bare;
+    const actual = record[field];
+    const bothNumeric = quoted === undefined && !Number.isNaN(Number(expected)) && !Number.isNaN(Number(actual));
+    const left = bothNumeric ? Number(actual) : String(actual ?? "");
+    const right = bothNumeric ? Number(expected) : expected;
+
+    switch (op.toLowerCase()) {
+      case "eq": return left === right;
+      case "ne": return left !== right;
+      case "gt": return left > right;
+      case "ge": return left >= right;
+      case "lt": return left < right;
+      case "le": return left <= right;
+      default: return false;
+    }
+  });
+}
+
+function applyOrderBy(records: SM8Record[], orderBy: string | undefined): SM8Record[] {
+  if (!orderBy) return records;
+  const [field, direction] = orderBy.trim().split(/\s+/);
+  const sign = direction?.toLowerCase() === "desc" ? -1 : 1;
+  return [...records].sort((a, b) => (String(a[field] ?? "") < String(b[field] ?? "") ? -sign : String(a[field] ?? "") > String(b[field] ?? "") ? sign : 0));
+}
+
+function queryParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+// ============== SERVER ==============
+
+export function createSimulator(dataset: Dataset, options: SimulatorOptions) {
+  const app = express();
+  const sentMessages: SM8Record[] = [];
+
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use((req, _res, next) => {
+    console.log(`[Sim] ${req.method} ${req.originalUrl}`);
+    if (options.latency > 0) {
+      setTimeout(next, options.latency);
+    } else {
+      next();
+    }
+  });
+
+  // ServiceM8 accepts an API key or an OAuth bearer token; any non-empty value is good enough here
+  const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+    const bearer = req.get("authorization")?.replace(/^Bearer\s+/i, "");
+    if (!req.get("x-api-key") && !bearer) {
+      return res.status(401).json({ errorCode: 401, message: "Authentication required" });
+    }
+    next();
+  };
+
+  // Fault injection for exercising retries, backoff and partial syncs
+  const injectFaults = (_req: Request, res: Response, next: NextFunction) => {
+    if (options.failRate > 0 && Math.random() < options.failRate) {
+      if (Math.random() < 0.5) {
+        res.set("Retry-After", "1");
+        return res.status(429).json({ errorCode: 429, message: "Rate limit exceeded (simulated)" });
+      }
+      return res.status(503).json({ errorCode: 503, message: "Service unavailable (simulated)" });
+    }
+    next();
+  };
+
+  // The write goes through, but the client gets a gateway error instead of the answer
+  const loseResponses = (_req: Request, res: Response, next: NextFunction) => {
+    if (options.loseResponseRate > 0 && Math.random() < options.loseResponseRate) {
+      const json = res.json.bind(res);
+      res.json = (() => json.call(res.status(502), { errorCode: 502, message: "Bad gateway (simulated lost response)" })) as Response["json"];
+    }
+    next();
+  };
+
+  const collection = (objectType: string) => (OBJECT_TYPES.includes(objectType) ? (dataset[objectType] ||= []) : null);
+
+  // List endpoint with cursor paging: cursor=-1 starts, x-next-cursor names the next page
+  app.get("/api_1.0/:object.json", requireAuth, injectFaults, (req, res) => {
+    const records = collection(req.params.object);
+    if (!records) return res.status(404).json({ errorCode: 404, message: `Unknown object ${req.params.object}` });
+
+    let matched: SM8Record[];
+    try {
+      matched = applyOrderBy(records.filter(record => matchesFilter(record, queryParam(req, "$filter"))), queryParam(req, "$orderby"));
+    } catch (error: any) {
+      return res.status(400).json({ errorCode: 400, message: error.message });
+    }
+
+    const pageSize = Math.min(Number(queryParam(req, "$top")) || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const cursor = queryParam(req, "cursor");
+    const offset = cursor && cursor !== "-1" ? Number(cursor) || 0 : 0;
+    const page = matched.slice(offset, offset + pageSize);
+
+    if (cursor && offset + pageSize < matched.length) {
+      res.set("x-next-cursor", String(offset + pageSize));
+    }
+    res.json(page);
+  });
+
+  app.get("/api_1.0/:object/:uuid.json", requireAuth, injectFaults, (req, res) => {
+    const record = collection(req.params.object)?.find(item => item.uuid === req.params.uuid);
+    if (!record) return res.status(404).json({ errorCode: 404, message: "Record not found" });
+    res.json(record);
+  });
+
+  // Create and update bump edit_date so incremental syncs see the change. Like ServiceM8, a create
+  // with the uuid of an existing record updates that record.
+  app.post("/api_1.0/:object.json", requireAuth, injectFaults, loseResponses, (req, res) => {
+    const records = collection(req.params.object);
+    if (!records) return res.status(404).json({ errorCode: 404, message: `Unknown object ${req.params.object}` });
+    const record = { active: 1, ...req.body, uuid: req.body.uuid || randomUUID(), edit_date: sm8Timestamp(new Date()) };
+    const index = records.findIndex(item => item.uuid === record.uuid);
+    if (index >= 0) {
+      records[index] = { ...records[index], ...record };
+    } else {
+      records.push(record);
+    }
+    res.set("x-record-uuid", record.uuid);
+    res.json({ errorCode: 0, message: "OK" });
+  });
+
+  app.post("/api_1.0/:object/:uuid.json", requireAuth, injectFaults, loseResponses, (req, res) => {
+    const record = collection(req.params.object)?.find(item => item.uuid === req.params.uuid);
+    if (!record) return res.status(404).json({ errorCode: 404, message: "Record not found" });
+    Object.assign(record, req.body, { uuid: record.uuid, edit_date: sm8Timestamp(new Date()) });
+    res.json({ errorCode: 0, message: "OK" });
+  });
+
+  // ServiceM8 deletes are soft: the record stays with active = 0
+  app.delete("/api_1.0/:object/:uuid.json", requireAuth, injectFaults, loseResponses, (req, res) => {
+    const record = collection(req.params.object)?.find(item => item.uuid === req.params.uuid);
+    if (!record) return res.status(404).json({ errorCode: 404, message: "Record not found" });
+    Object.assign(record, { active: 0, edit_date: sm8Timestamp(new Date()) });
+    res.json({ errorCode: 0, message: "OK" });
+  });
+
+  // Messages are recorded (see GET /__sim/messages) and logged to the job diary like the real service
+  const sendMessage = (channel: "sms" | "email") => (req: Request, res: Response) => {
+    const { to, message, subject, body, regardingJobUUID } = req.body || {};
+    if (!to || (channel === "sms" ? !message : !body)) {
+      return res.status(400).json({ errorCode: 400, message: `Missing ${!to ? "to" : channel === "sms" ? "message" : "body"}` });
+    }
+
+    const messageID = randomUUID();
+    sentMessages.push({ messageID, channel, to, subject, message: message ?? body, regardingJobUUID, sentAt: new Date().toISOString() });
+    if (regardingJobUUID) {
+      const now = sm8Timestamp(new Date());
+      collection("feeditem")!.push({
+        uuid: randomUUID(),
+        related_object: "job",
+        related_object_uuid: regardingJobUUID,
+        type: `${channel}_sent`,
+        message: channel === "sms" ? message : subject || body,
+        staff_name: "Simulator",
+        timestamp: now,
+        active: 1,
+        edit_date: now,
+      });
+    }
+    res.json({ errorCode: 0, message: "OK", messageID, to });
+  };
+  app.post("/platform_service_sms", requireAuth, injectFaults, sendMessage("sms"));
+  app.post("/platform_service_email", requireAuth, injectFaults, sendMessage("email"));
+
+  // OAuth: authorize immediately redirects back with a code; any code or refresh token is exchanged
+  app.get("/oauth/authorize", (req, res) => {
+    const redirectUri = queryParam(req, "redirect_uri");
+    if (!redirectUri) return res.status(400).send("Missing redirect_uri");
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", `sim-code-${randomUUID()}`);
+    const state = queryParam(req, "state");
+    if (state) target.searchParams.set("state", state);
+    res.redirect(target.toString());
+  });
+
+  app.post("/oauth/access_token", (req, res) => {
+    const { grant_type, code, refresh_token } = req.body || {};
+    if ((grant_type === "authorization_code" && !code) || (grant_type === "refresh_token" && !refresh_token)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    if (grant_type !== "authorization_code" && grant_type !== "refresh_token") {
+      return res.status(400).json({ error: "unsupported_grant_type" });
+    }
+    res.json({
+      access_token: `sim-access-${randomUUID()}`,
+      refresh_token: `sim-refresh-${randomUUID()}`,
+      expires_in: 3600,
+      token_type: "bearer",
+      scope: req.body.scope || "",
+    });
+  });
+
+  // Simulator introspection
+  app.get("/__sim/messages", (_req, res) => res.json(sentMessages));
+  app.get("/__sim/stats", (_req, res) => {
+    res.json(Object.fromEntries(Object.entries(dataset).map(([objectType, records]) => [objectType, records.length])));
+  });
+
+  return app;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dataset = options.fixtures ? await loadFixtures(options.fixtures) : generateDataset(options.jobs, options.seed);
+
+  if (options.save) {
+    await saveFixtures(dataset, options.save);
+    console.log(`[Sim] Saved dataset to ${options.save}`);
+  }
+
+  const source = options.fixtures ? `fixtures from ${options.fixtures}` : `generated dataset (seed ${options.seed})`;
+  createSimulator(dataset, options).listen(options.port, () => {
+    console.log(`[Sim] ServiceM8 simulator listening on http://localhost:${options.port} with ${dataset.job.length} jobs, ${source}`);
+  });
+}
+
+// Only when run as a script; tests import createSimulator
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error("[Sim] Failed to start:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,164 @@
+import { storage } from "./storage";
+import { getCompanySettings } from "./companySettings";
+import { formatServiceM8Date, type ServiceM8Client } from "./servicem8";
+import { automationActor } from "./audit";
+import {
+  INSTALL_BOOKING_TYPES,
+  type InstallAllocations,
+  type InstallBookingType,
+  type SelectJob,
+  type Staff,
+} from "@shared/schema";
+
+// Confirmed install dates are written to ServiceM8 as job activities so field staff see them in the
+// ServiceM8 app: one booking per crew member, moved when the job is rescheduled and removed when it's
+// unscheduled. Failures are kept on the job (allocationError) instead of failing the schedule change.
+
+// Local time install crews start on site
+const INSTALL_START_HOUR = 7;
+
+const BOOKING_ACTOR = automationActor("Install bookings");
+
+const BOOKINGS: Record<InstallBookingType, {
+  label: string;
+  date: (job: SelectJob) => Date | null;
+  durationHours: (job: SelectJob) => number;
+  crewSize: (job: SelectJob) => number;
+}> = {
+  posts: {
+    label: "Posts",
+    date: job => job.postInstallDate,
+    durationHours: job => job.postInstallDuration || 6,
+    crewSize: job => job.postInstallCrewSize || 2,
+  },
+  panels: {
+    label: "Panels",
+    date: job => job.panelInstallDate,
+    durationHours: job => job.panelInstallDuration || 8,
+    crewSize: job => job.panelInstallCrewSize || 2,
+  },
+};
+
+// Job fields that change what should be booked in ServiceM8
+export const ALLOCATION_FIELDS = [
+  "postInstallDate",
+  "panelInstallDate",
+  "postInstallDuration",
+  "panelInstallDuration",
+  "postInstallCrewSize",
+  "panelInstallCrewSize",
+] as const;
+
+type CrewMember = { name: string; serviceM8Uuid: string };
+
+// Bring the job's ServiceM8 bookings in line with its confirmed install dates. Returns the job with
+// installAllocations and allocationError updated; never throws.
+export async function syncInstallAllocations(sm8Client: ServiceM8Client | null, job: SelectJob): Promise<SelectJob> {
+  const allocations: InstallAllocations = { ...(job.installAllocations || {}) };
+  const hasWork = INSTALL_BOOKING_TYPES.some(type => BOOKINGS[type].date(job) || allocations[type]);
+  if (!hasWork) {
+    return job.allocationError ? (await storage.updateJob(job.id, { allocationError: null }, BOOKING_ACTOR)) ?? job : job;
+  }
+
+  if (!sm8Client) {
+    return (await storage.updateJob(job.id, {
+      allocationError: "ServiceM8 is not connected, so install bookings weren't sent to ServiceM8",
+    }, BOOKING_ACTOR)) ?? job;
+  }
+
+  const { timeZone } = await getCompanySettings();
+  const staffList = await storage.getAllStaff();
+  const errors: string[] = [];
+
+  for (const type of INSTALL_BOOKING_TYPES) {
+    const booking = BOOKINGS[type];
+    const current = allocations[type];
+    // Updated as each ServiceM8 call succeeds, so a failure part way through doesn't lose track of
+    // bookings that were already made or removed
+    const activities = { ...(current?.activities || {}) };
+    try {
+      const date = booking.date(job);
+      if (date) {
+        const crew = installCrew(staffList, type, booking.crewSize(job));
+        if (crew.length === 0) {
+          throw new Error(`no active install staff with the '${type}' skill are linked to ServiceM8 staff`);
+        }
+        const window = bookingWindow(date, booking.durationHours(job), timeZone);
+        const moved = !current || current.start !== window.start || current.end !== window.end;
+        await bookCrew(sm8Client, job.serviceM8Uuid, crew, activities, window, moved);
+        allocations[type] = { ...window, activities };
+      } else if (current) {
+        await removeBookings(sm8Client, activities);
+        delete allocations[type];
+      }
+    } catch (error: any) {
+      console.error(`[Allocations] Failed to update ${type} booking for job ${job.jobId}:`, error.message);
+      errors.push(`${booking.label}: ${error.message}`);
+      // The old window stays recorded so the next attempt moves every booking again
+      if (Object.keys(activities).length > 0) {
+        allocations[type] = { start: current?.start ?? "", end: current?.end ?? "", activities };
+      } else {
+        delete allocations[type];
+      }
+    }
+  }
+
+  const updated = await storage.updateJob(job.id, {
+    installAllocations: allocations,
+    allocationError: errors.length > 0 ? errors.join("; ") : null,
+  }, BOOKING_ACTOR);
+  return updated ?? job;
+}
+
+// Install staff who do this kind of install and have a ServiceM8 staff uuid, up to the crew size
+function installCrew(staffList: Staff[], type: InstallBookingType, crewSize: number): CrewMember[] {
+  return staffList
+    .filter(member => member.role === "install" && member.active && member.serviceM8Uuid && (member.skills || []).includes(type))
+    .slice(0, crewSize)
+    .map(member => ({ name: member.name, serviceM8Uuid: member.serviceM8Uuid! }));
+}
+
+// Start and end in ServiceM8 local time for an install on the given day
+function bookingWindow(date: Date, durationHours: number, timeZone: string): { start: string; end: string } {
+  const day = formatServiceM8Date(date, timeZone).slice(0, 10);
+  const start = new Date(`${day}T00:00:00Z`);
+  start.setUTCHours(INSTALL_START_HOUR);
+  const end = new Date(start.getTime() + durationHours * 60 * 60 * 1000);
+  const format = (wallClock: Date) => wallClock.toISOString().slice(0, 19).replace("T", " ");
+  return { start: format(start), end: format(end) };
+}
+
+// Create, move or remove activities so there's exactly one per crew member at the booking window
+async function bookCrew(
+  sm8Client: ServiceM8Client,
+  jobUuid: string,
+  crew: CrewMember[],
+  activities: Record<string, string>,
+  window: { start: string; end: string },
+  moved: boolean
+) {
+  const crewUuids = new Set(crew.map(member => member.serviceM8Uuid));
+  for (const [staffUuid, activityUuid] of Object.entries(activities)) {
+    if (!crewUuids.has(staffUuid)) {
+      await sm8Client.deleteJobActivity(activityUuid);
+      delete activities[staffUuid];
+    }
+  }
+
+  for (const member of crew) {
+    const activity = { job_uuid: jobUuid, staff_uuid: member.serviceM8Uuid, start_date: window.start, end_date: window.end };
+    if (!activities[member.serviceM8Uuid]) {
+      activities[member.serviceM8Uuid] = await sm8Client.createJobActivity(activity);
+      console.log(`[Allocations] Booked ${member.name} on job ${jobUuid} for ${window.start}`);
+    } else if (moved) {
+      await sm8Client.updateJobActivity(activities[member.serviceM8Uuid], activity);
+    }
+  }
+}
+
+async function removeBookings(sm8Client: ServiceM8Client, activities: Record<string, string>) {
+  for (const [staffUuid, activityUuid] of Object.entries(activities)) {
+    await sm8Client.deleteJobActivity(activityUuid);
+    delete activities[staffUuid];
+  }
+}
@@ -0,0 +1,75 @@
+import type { AuditActor, AuditEntityType, FieldChange, InsertAuditEntry } from "@shared/schema";
+import { diffFields } from "./changes";
+
+// Building audit log entries. Storage writes them alongside the change they describe, so every
+// write path that takes an actor is covered.
+
+export const SYNC_ACTOR: AuditActor = { source: "sync", userId: null, name: "ServiceM8 sync" };
+
+// Changes the app makes by itself, such as remapping jobs after the status rules are saved
+export function automationActor(name: string): AuditActor {
+  return { source: "automation", userId: null, name };
+}
+
+export function userActor(user: Express.User): AuditActor {
+  return { source: "ui", userId: user.id, name: user.displayName };
+}
+
+// Job fields that change on every sync without anyone doing anything, or that are bookkeeping
+export const AUDIT_IGNORED_JOB_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "syncedAt",
+  "fieldProvenance",
+  "daysSinceQuoteSent",
+  "hoursSinceQuoteSent",
+  "daysSinceLastContact",
+  "daysSinceClientContact",
+  "serviceM8CustomFields",
+];
+
+// Changes to a setting's value: per key when both old and new are objects, otherwise the whole value
+export function settingChanges(before: unknown, after: unknown): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return diffFields(before, Object.fromEntries(keys.map(key => [key, after[key]])));
+  }
+  return diffFields({ value: before }, { value: after }).map(change => ({ ...change, field: "" }));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+type AuditTarget = { entityType: AuditEntityType; entityId: string | number; jobId?: number | null };
+
+export function updateEntries(target: AuditTarget, changes: FieldChange[], actor: AuditActor): InsertAuditEntry[] {
+  return changes.map(change => ({
+    ...entryBase(target, actor),
+    action: "update",
+    field: change.field || null,
+    before: change.before ?? null,
+    after: change.after ?? null,
+  }));
+}
+
+// A record created or deleted, kept whole in after or before
+export function recordEntry(target: AuditTarget, action: "create" | "delete", record: unknown, actor: AuditActor): InsertAuditEntry {
+  return {
+    ...entryBase(target, actor),
+    action,
+    before: action === "delete" ? record : null,
+    after: action === "create" ? record : null,
+  };
+}
+
+function entryBase(target: AuditTarget, actor: AuditActor) {
+  return {
+    entityType: target.entityType,
+    entityId: String(target.entityId),
+    jobId: target.jobId ?? null,
+    source: actor.source,
+    actorUserId: actor.userId,
+    actorName: actor.name,
+  };
+}
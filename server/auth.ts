@@ -0,0 +1,247 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { z } from "zod";
+import { pool } from "./db";
+import { closeUserStreams } from "./events";
+import { storage } from "./storage";
+import { validateBody } from "./validation";
+import { createUserSchema, type PublicUser, type User } from "@shared/schema";
+import { canSeeJob, hasPermission, isOwnJob, roleFor, type AuthUser, type Permission } from "@shared/permissions";
+import { loginSchema } from "@shared/api";
+
+// Password login with sessions kept in Postgres. Every /api route needs a signed-in user except the
+// few below, and most also need a permission (shared/permissions.ts).
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    servicem8OAuthState?: string; // Checked by the ServiceM8 OAuth callback, see routes.ts
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const SESSION_TABLE = "user_sessions";
+
+// Reachable without signing in. The webhook is checked against its signature instead. The ServiceM8
+// OAuth callback isn't here: the admin who started the flow is still signed in when ServiceM8 sends
+// them back, as the session cookie is sameSite lax.
+const PUBLIC_API_PATHS = [
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/me",
+  "/api/auth/setup",
+  "/api/webhooks/servicem8",
+];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+// The user with their role, which comes from the linked staff member unless they're an admin
+async function toAuthUser(user: User): Promise<AuthUser> {
+  const staffMember = user.staffId ? await storage.getStaffMember(user.staffId) : undefined;
+  return { ...toPublicUser(user), role: roleFor(user, staffMember?.role) };
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Sessions won't survive a restart, which is fine while developing
+  console.warn("[Auth] SESSION_SECRET is not set, using a random secret");
+  return randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express) {
+  const PgStore = connectPgSimple(session);
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, tableName: SESSION_TABLE, createTableIfMissing: true }),
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, await toAuthUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A user made inactive is signed out on their next request
+      done(null, user && user.active ? await toAuthUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", requireAuth);
+
+  // Sign in with a username and password
+  app.post("/api/auth/login", validateBody(loginSchema), (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Incorrect username or password" });
+      }
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        try {
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
+          console.log(`[Auth] ${user.username} signed in`);
+          res.json({ user });
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  // The signed-in user, or null. setupRequired is true until the first account exists.
+  app.get("/api/auth/me", async (req, res) => {
+    try {
+      if (req.user) return res.json({ user: req.user, setupRequired: false });
+      res.json({ user: null, setupRequired: (await storage.countUsers()) === 0 });
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ error: "Failed to fetch current user" });
+    }
+  });
+
+  // Create the first account, as an admin. Only works while there are no users.
+  app.post("/api/auth/setup", validateBody(createUserSchema), async (req, res, next) => {
+    try {
+      // Checked first so a finished setup doesn't hash the password, and again when the account is created
+      if ((await storage.countUsers()) > 0) {
+        return res.status(403).json({ error: "Setup is already complete" });
+      }
+      const { username, displayName, password }: z.infer<typeof createUserSchema> = req.body;
+      const user = await storage.createFirstUser({ username, displayName, passwordHash: await hashPassword(password), isAdmin: true });
+      if (!user) {
+        return res.status(403).json({ error: "Setup is already complete" });
+      }
+      console.log(`[Auth] Created first admin account ${user.username}`);
+      const authUser = await toAuthUser(user);
+      req.login(authUser, (loginError) => {
+        if (loginError) return next(loginError);
+        res.status(201).json({ user: authUser });
+      });
+    } catch (error) {
+      console.error("Error creating first user:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+}
+
+// Sign a user out everywhere, e.g. after their password is reset, except for the session keepSessionId
+// (an admin resetting their own password stays signed in). Returns how many sessions were ended.
+export async function endUserSessions(userId: number, keepSessionId?: string): Promise<number> {
+  const result = await pool.query(
+    `DELETE FROM ${SESSION_TABLE} WHERE sess->'passport'->>'user' = $1 AND sid IS DISTINCT FROM $2`,
+    [String(userId), keepSessionId ?? null]
+  );
+  closeUserStreams(userId);
+  return result.rowCount ?? 0;
+}
+
+// Mounted on /api, so req.path is relative to it
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated() || PUBLIC_API_PATHS.includes(`/api${req.path}`)) return next();
+  res.status(401).json({ error: "Not signed in" });
+}
+
+// Allows the request if the user has any of the permissions
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (permissions.some(permission => hasPermission(req.user?.role, permission))) return next();
+    res.status(403).json({ error: "You don't have permission to do that" });
+  };
+}
+
+// The :jobId job has to be one the user can see on the boards; anything else is not found
+export async function requireVisibleJob(req: Request, res: Response, next: NextFunction) {
+  try {
+    const job = await storage.getJob(parseInt(req.params.jobId));
+    if (job && canSeeJob(req.user?.role, job)) return next();
+    res.status(404).json({ error: "Job not found" });
+  } catch (error) {
+    console.error("Error checking job access:", error);
+    res.status(500).json({ error: "Failed to check permissions" });
+  }
+}
+
+// Stage progress and timers on the :jobId job: any job with stages.update, or the user's own jobs
+// with stages.updateOwn
+export async function requireStageAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.user;
+    if (hasPermission(user?.role, "stages.update")) return next();
+    if (user?.staffId && hasPermission(user.role, "stages.updateOwn")) {
+      const [job, staffMember] = await Promise.all([
+        storage.getJob(parseInt(req.params.jobId)),
+        storage.getStaffMember(user.staffId),
+      ]);
+      if (job && staffMember && isOwnJob(job, staffMember)) return next();
+    }
+    res.status(403).json({ error: "You don't have permission to do that" });
+  } catch (error) {
+    console.error("Error checking stage access:", error);
+    res.status(500).json({ error: "Failed to check permissions" });
+  }
+}
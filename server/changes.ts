@@ -0,0 +1,29 @@
+import type { FieldChange } from "@shared/schema";
+
+// Dates are compared and reported as ISO strings, and undefined is treated as null,
+// so values read from the database and values about to be written compare equal
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+// Compare the fields present in `after` against `before`, returning only those that differ
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  ignoreFields: string[] = []
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of Object.keys(after)) {
+    if (ignoreFields.includes(field)) continue;
+    if (!valuesEqual(before[field], after[field])) {
+      changes.push({ field, before: normalizeValue(before[field]), after: normalizeValue(after[field]) });
+    }
+  }
+  return changes;
+}
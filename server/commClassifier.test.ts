@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import {
+  classifyCommunication,
+  commRulesSchema,
+  DEFAULT_COMM_RULES,
+  normalizeEmail,
+  normalizePhone,
+  toCommItem,
+  type ClassifierContacts,
+  type CommRule,
+} from "./commClassifier";
+
+// ServiceM8 feed items and job notes, each with the classification it should get. itemType is ""
+// for notes, as fetchAllCommunications passes it.
+type Fixture = {
+  description: string;
+  itemType?: string;
+  record: Record<string, unknown>;
+  expected: { type: string; direction: string; confidence: string };
+};
+
+const fixtures: Fixture[] = JSON.parse(readFileSync(new URL("./fixtures/communications.json", import.meta.url), "utf-8"));
+
+const contacts: ClassifierContacts = {
+  staff: { emails: new Set(["office@probuildfencing.com.au"]), phones: new Set([normalizePhone("0400 111 222")!]) },
+  customers: { emails: new Set(["jane.citizen@gmail.com"]), phones: new Set([normalizePhone("0412 345 678")!]) },
+};
+
+for (const fixture of fixtures) {
+  test(`classifies: ${fixture.description}`, () => {
+    const { type, direction, confidence } = classifyCommunication(toCommItem(fixture.record, fixture.itemType), contacts);
+    assert.deepEqual({ type, direction, confidence }, fixture.expected);
+  });
+}
+
+test("reports the deciding rules as the reason", () => {
+  const [sms] = fixtures;
+  const { reason } = classifyCommunication(toCommItem(sms.record), contacts);
+  assert.equal(reason, "type: Feed item type is a received SMS; direction: Sent from a customer contact's email or number");
+});
+
+test("falls back to system and unknown when no rule matches", () => {
+  const result = classifyCommunication({ itemType: "badge_added", message: "Badge added: Council approval", senders: [], recipients: [] });
+  assert.deepEqual(result, {
+    type: "system",
+    direction: "unknown",
+    confidence: "low",
+    reason: "type: no rule matched; direction: no rule matched",
+  });
+});
+
+test("the first matching rule decides", () => {
+  const rules: CommRule[] = [
+    { id: "quote-inbound", description: "Quote replies", conditions: [{ field: "message", operator: "contains", values: ["quote"] }], direction: "inbound", confidence: "medium" },
+    ...DEFAULT_COMM_RULES,
+  ];
+  const result = classifyCommunication(toCommItem({ type: "email_sent", message: "Quote attached" }), contacts, rules);
+  assert.equal(result.type, "email");
+  assert.equal(result.direction, "inbound");
+  assert.equal(result.confidence, "medium");
+});
+
+test("matches phone numbers and emails however they're written", () => {
+  assert.equal(normalizePhone("+61 412 345 678"), normalizePhone("0412-345-678"));
+  assert.equal(normalizeEmail("Jane Citizen <Jane.Citizen@Gmail.com>"), "jane.citizen@gmail.com");
+  assert.equal(normalizePhone("ext 12"), null);
+});
+
+test("the default rules are valid, and a rule has to set a type or a direction", () => {
+  assert.equal(commRulesSchema.safeParse(DEFAULT_COMM_RULES).success, true);
+  const rule = { id: "empty", description: "Sets nothing", conditions: [{ field: "sender", operator: "isPresent" }], confidence: "low" };
+  assert.equal(commRulesSchema.safeParse([rule]).success, false);
+});
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { COMMUNICATION_DIRECTIONS, COMMUNICATION_TYPES, type CommunicationDirection, type CommunicationType } from "@shared/schema";
+
+// Works out what kind of message a ServiceM8 feed item or note is, and whether it came from the
+// client or went to them. Rules are checked in order: the first matching rule that names a type
+// decides the type, and the first that names a direction decides the direction, so the specific
+// checks (who sent it) go ahead of the guesses from wording.
+
+export const COMM_RULES_SETTING_KEY = "commClassifierRules";
+
+export const COMM_CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+export type CommConfidence = typeof COMM_CONFIDENCE_LEVELS[number];
+
+const commRuleConditionSchema = z.discriminatedUnion("operator", [
+  // Any of the values appears in the field (case-insensitive)
+  z.object({
+    field: z.enum(["itemType", "message"]),
+    operator: z.literal("contains"),
+    values: z.array(z.string().trim().min(1)).min(1),
+  }),
+  // A sender or recipient email address or phone number belongs to a staff member or a customer contact
+  z.object({
+    field: z.enum(["sender", "recipient"]),
+    operator: z.enum(["isStaff", "isCustomer", "isPresent"]),
+  }),
+]);
+
+export const commRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1), // Reported as the reason when the rule decides
+  conditions: z.array(commRuleConditionSchema).min(1), // All must match
+  type: z.enum(COMMUNICATION_TYPES).optional(),
+  direction: z.enum(COMMUNICATION_DIRECTIONS).optional(),
+  confidence: z.enum(COMM_CONFIDENCE_LEVELS),
+}).refine(rule => rule.type || rule.direction, { message: "A rule must set a type, a direction or both" });
+
+export const commRulesSchema = z.array(commRuleSchema);
+
+export type CommRuleCondition = z.infer<typeof commRuleConditionSchema>;
+export type CommRule = z.infer<typeof commRuleSchema>;
+
+const INBOUND_WORDS = ["received", "inbound", "incoming"];
+const OUTBOUND_WORDS = ["sent", "outbound", "outgoing"];
+
+export const DEFAULT_COMM_RULES: CommRule[] = [
+  // Who sent it
+  { id: "sender-staff", description: "Sent from a staff email or number", conditions: [{ field: "sender", operator: "isStaff" }], direction: "outbound", confidence: "high" },
+  { id: "sender-customer", description: "Sent from a customer contact's email or number", conditions: [{ field: "sender", operator: "isCustomer" }], direction: "inbound", confidence: "high" },
+  { id: "recipient-customer", description: "Sent to a customer contact", conditions: [{ field: "recipient", operator: "isCustomer" }], direction: "outbound", confidence: "high" },
+  { id: "recipient-staff", description: "Sent to a staff email or number", conditions: [{ field: "recipient", operator: "isStaff" }], direction: "inbound", confidence: "medium" },
+
+  // ServiceM8 feed item types, e.g. 'sms_received', 'email_sent'
+  { id: "type-sms-inbound", description: "Feed item type is a received SMS", conditions: [{ field: "itemType", operator: "contains", values: ["sms", "text_message"] }, { field: "itemType", operator: "contains", values: INBOUND_WORDS }], type: "sms", direction: "inbound", confidence: "high" },
+  { id: "type-sms-outbound", description: "Feed item type is a sent SMS", conditions: [{ field: "itemType", operator: "contains", values: ["sms", "text_message"] }, { field: "itemType", operator: "contains", values: OUTBOUND_WORDS }], type: "sms", direction: "outbound", confidence: "high" },
+  { id: "type-sms", description: "Feed item type is an SMS", conditions: [{ field: "itemType", operator: "contains", values: ["sms", "text_message"] }], type: "sms", confidence: "high" },
+  { id: "type-email-inbound", description: "Feed item type is a received email", conditions: [{ field: "itemType", operator: "contains", values: ["email", "mail"] }, { field: "itemType", operator: "contains", values: INBOUND_WORDS }], type: "email", direction: "inbound", confidence: "high" },
+  { id: "type-email-outbound", description: "Feed item type is a sent email", conditions: [{ field: "itemType", operator: "contains", values: ["email", "mail"] }, { field: "itemType", operator: "contains", values: OUTBOUND_WORDS }], type: "email", direction: "outbound", confidence: "high" },
+  { id: "type-email", description: "Feed item type is an email", conditions: [{ field: "itemType", operator: "contains", values: ["email", "mail"] }], type: "email", confidence: "high" },
+  { id: "type-call", description: "Feed item type is a phone call", conditions: [{ field: "itemType", operator: "contains", values: ["call", "phone"] }], type: "call", confidence: "medium" },
+  { id: "type-quote-sent", description: "Quote emailed from ServiceM8", conditions: [{ field: "itemType", operator: "contains", values: ["quote"] }, { field: "message", operator: "contains", values: ["email", "sent"] }], type: "email", direction: "outbound", confidence: "medium" },
+  { id: "type-note", description: "Feed item is a note", conditions: [{ field: "itemType", operator: "contains", values: ["note", "comment"] }], type: "note", confidence: "high" },
+
+  // Guesses from the wording of the message
+  { id: "message-inbound", description: "Message says it came from the customer", conditions: [{ field: "message", operator: "contains", values: ["received", "from customer", "customer replied", "customer called", "customer email", "customer sms", "email from", "sms from", "incoming"] }], direction: "inbound", confidence: "low" },
+  { id: "message-outbound", description: "Message says it was sent to the customer", conditions: [{ field: "message", operator: "contains", values: ["sent", "to customer", "texted customer", "emailed customer", "email to", "sms to"] }], direction: "outbound", confidence: "low" },
+  { id: "message-sms", description: "Message mentions an SMS", conditions: [{ field: "message", operator: "contains", values: ["sms", "text message", "texted", "text received", "received text", "text sent"] }], type: "sms", confidence: "low" },
+  // Ahead of message-email, which "voicemail" would otherwise match
+  { id: "message-voicemail", description: "Message mentions a voicemail", conditions: [{ field: "message", operator: "contains", values: ["voicemail"] }], type: "call", confidence: "low" },
+  { id: "message-email", description: "Message mentions an email", conditions: [{ field: "message", operator: "contains", values: ["email", "e-mail"] }], type: "email", confidence: "low" },
+  { id: "message-call", description: "Message mentions a call", conditions: [{ field: "message", operator: "contains", values: ["called", "call", "phone", "spoke", "voicemail"] }], type: "call", confidence: "low" },
+  { id: "sender-other", description: "Has a sender that isn't a staff member", conditions: [{ field: "sender", operator: "isPresent" }], direction: "inbound", confidence: "low" },
+];
+
+// Email addresses and phone numbers known to belong to staff or to customers
+export type ContactPoints = { emails: Set<string>; phones: Set<string> };
+export type ClassifierContacts = { staff: ContactPoints; customers: ContactPoints };
+
+export function emptyContactPoints(): ContactPoints {
+  return { emails: new Set(), phones: new Set() };
+}
+
+// A feed item or note reduced to what the rules look at
+export type CommItem = {
+  itemType: string;
+  message: string;
+  senders: string[];
+  recipients: string[];
+};
+
+export type CommClassification = {
+  type: CommunicationType;
+  direction: CommunicationDirection;
+  confidence: CommConfidence;
+  reason: string;
+};
+
+const SENDER_FIELDS = ["from", "from_email", "from_address", "email_from", "sender", "sender_email", "from_number", "from_phone", "sender_number", "sms_from"];
+const RECIPIENT_FIELDS = ["to", "to_email", "to_address", "email_to", "recipient", "recipient_email", "to_number", "to_phone", "sms_to"];
+
+// Read a ServiceM8 feed item or note. Addresses come from whichever sender/recipient fields it has,
+// plus any "from x" / "to x" address or number written in the message.
+export function toCommItem(record: any, itemType: string = record?.type || ""): CommItem {
+  const message = String(record?.message || record?.description || record?.note || "");
+  const fieldValues = (fields: string[]) => fields.map(field => record?.[field]).filter(value => typeof value === "string" && value.trim());
+  return {
+    itemType: itemType.toLowerCase(),
+    message,
+    senders: [...fieldValues(SENDER_FIELDS), ...addressesAfter("from", message)],
+    recipients: [...fieldValues(RECIPIENT_FIELDS), ...addressesAfter("to", message)],
+  };
+}
+
+const ADDRESS_PATTERN = String.raw`([^\s<>()"',;]+@[^\s<>()"',;]+|\+?\d[\d\s-]{7,}\d)`;
+
+function addressesAfter(word: string, message: string): string[] {
+  const pattern = new RegExp(String.raw`\b${word}:?\s+(?:[^<\n]*<)?${ADDRESS_PATTERN}`, "gi");
+  return Array.from(message.matchAll(pattern), match => match[1]);
+}
+
+export function normalizeEmail(value: string): string | null {
+  const match = value.match(/[^\s<>()"',;]+@[^\s<>()"',;]+/);
+  return match ? match[0].toLowerCase().replace(/\.$/, "") : null;
+}
+
+// Last nine digits, so 0412 345 678 and +61 412 345 678 compare equal
+export function normalizePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= 8 ? digits.slice(-9) : null;
+}
+
+function belongsTo(value: string, points: ContactPoints): boolean {
+  const email = normalizeEmail(value);
+  if (email) return points.emails.has(email);
+  const phone = normalizePhone(value);
+  return phone !== null && points.phones.has(phone);
+}
+
+function conditionMatches(condition: CommRuleCondition, item: CommItem, contacts: ClassifierContacts): boolean {
+  if (condition.operator === "contains") {
+    const text = condition.field === "itemType" ? item.itemType : item.message.toLowerCase();
+    return condition.values.some(value => text.includes(value.toLowerCase()));
+  }
+
+  const values = condition.field === "sender" ? item.senders : item.recipients;
+  switch (condition.operator) {
+    case "isStaff":
+      return values.some(value => belongsTo(value, contacts.staff));
+    case "isCustomer":
+      return values.some(value => belongsTo(value, contacts.customers));
+    case "isPresent":
+      // Staff addresses are told apart by the rules above, so a sender that's present but not staff is someone else
+      return values.some(value => !belongsTo(value, contacts.staff));
+  }
+}
+
+const CONFIDENCE_RANK: Record<CommConfidence, number> = { high: 2, medium: 1, low: 0 };
+
+export function classifyCommunication(
+  item: CommItem,
+  contacts: ClassifierContacts = { staff: emptyContactPoints(), customers: emptyContactPoints() },
+  rules: CommRule[] = DEFAULT_COMM_RULES
+): CommClassification {
+  let typeRule: CommRule | undefined;
+  let directionRule: CommRule | undefined;
+
+  for (const rule of rules) {
+    if ((typeRule || !rule.type) && (directionRule || !rule.direction)) continue;
+    if (!rule.conditions.every(condition => conditionMatches(condition, item, contacts))) continue;
+    if (rule.type && !typeRule) typeRule = rule;
+    if (rule.direction && !directionRule) directionRule = rule;
+    if (typeRule && directionRule) break;
+  }
+
+  const deciding = [typeRule, directionRule].filter((rule): rule is CommRule => !!rule);
+  // As sure as the least sure deciding rule
+  const confidence = deciding.length === 0
+    ? "low"
+    : deciding.reduce((lowest, rule) => CONFIDENCE_RANK[rule.confidence] < CONFIDENCE_RANK[lowest] ? rule.confidence : lowest, "high" as CommConfidence);
+
+  return {
+    type: typeRule?.type ?? "system",
+    direction: directionRule?.direction ?? "unknown",
+    confidence,
+    reason: [
+      typeRule ? `type: ${typeRule.description}` : "type: no rule matched",
+      directionRule ? `direction: ${directionRule.description}` : "direction: no rule matched",
+    ].join("; "),
+  };
+}
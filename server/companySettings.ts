@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import {
+  APP_SETTINGS_KEY,
+  DEFAULT_COMPANY_TIMEZONE,
+  DEFAULT_QUOTE_AGING_BANDS,
+  isValidTimeZone,
+  quoteAgingBandsSchema,
+  type QuoteAgingBand,
+} from "@shared/companySettings";
+
+export type CompanySettings = {
+  timeZone: string;
+  quoteAgingBands: QuoteAgingBand[];
+};
+
+// Company timezone and quote aging bands from the appSettings blob. Missing or invalid values fall
+// back to the defaults so a bad edit can't stop sync.
+export async function getCompanySettings(): Promise<CompanySettings> {
+  const appSettings = (await storage.getAppSetting(APP_SETTINGS_KEY)) || {};
+
+  let timeZone = DEFAULT_COMPANY_TIMEZONE;
+  if (typeof appSettings.companyTimezone === "string" && appSettings.companyTimezone) {
+    if (isValidTimeZone(appSettings.companyTimezone)) {
+      timeZone = appSettings.companyTimezone;
+    } else {
+      console.error(`[Settings] Unknown company timezone '${appSettings.companyTimezone}', using ${DEFAULT_COMPANY_TIMEZONE}`);
+    }
+  }
+
+  let quoteAgingBands = DEFAULT_QUOTE_AGING_BANDS;
+  if (appSettings.quoteAgingBands !== undefined) {
+    const parsed = quoteAgingBandsSchema.safeParse(appSettings.quoteAgingBands);
+    if (parsed.success) {
+      quoteAgingBands = parsed.data;
+    } else {
+      console.error("[Settings] Quote aging bands are invalid, using defaults:", parsed.error.message);
+    }
+  }
+
+  return { timeZone, quoteAgingBands };
+}
@@ -0,0 +1,78 @@
+import { storage } from "./storage";
+import { valuesEqual } from "./changes";
+import { automationActor } from "./audit";
+import {
+  applyCustomFieldMappings,
+  CUSTOM_FIELD_MAPPINGS_SETTING_KEY,
+  customFieldMappingsSchema,
+  DEFAULT_CUSTOM_FIELD_MAPPINGS,
+  type CustomFieldMapping,
+  type DiscoveredCustomField,
+} from "@shared/customFields";
+import type { AuditActor, InsertJob } from "@shared/schema";
+import type { CustomFieldMappingsSetting } from "@shared/api";
+
+// Loading and applying the ServiceM8 custom field mappings kept in appSettings
+
+// Saved mappings, or the built-in defaults if none are saved (or the saved value no longer validates),
+// with the setting's version to save changes against
+export async function getCustomFieldMappings(): Promise<CustomFieldMappingsSetting> {
+  const { value: saved, version } = await storage.getAppSettingEntry(CUSTOM_FIELD_MAPPINGS_SETTING_KEY);
+  if (saved === null) {
+    return { mappings: DEFAULT_CUSTOM_FIELD_MAPPINGS, isDefault: true, version };
+  }
+
+  const parsed = customFieldMappingsSchema.safeParse(saved);
+  if (!parsed.success) {
+    console.error("[CustomFields] Saved custom field mappings are invalid, using defaults:", parsed.error.message);
+    return { mappings: DEFAULT_CUSTOM_FIELD_MAPPINGS, isDefault: true, version };
+  }
+  return { mappings: parsed.data, isDefault: false, version };
+}
+
+// Every custom field name seen on synced jobs, most used first
+export async function discoverCustomFields(): Promise<DiscoveredCustomField[]> {
+  const fields = new Map<string, DiscoveredCustomField>();
+  for (const job of await storage.getAllJobs()) {
+    for (const [fieldName, value] of Object.entries(job.serviceM8CustomFields || {})) {
+      const field = fields.get(fieldName) ?? { fieldName, jobCount: 0, sampleValue: null };
+      field.jobCount++;
+      if (!field.sampleValue && value) field.sampleValue = String(value);
+      fields.set(fieldName, field);
+    }
+  }
+  return Array.from(fields.values()).sort((a, b) => b.jobCount - a.jobCount || a.fieldName.localeCompare(b.fieldName));
+}
+
+// Save the mappings, if the saved ones are still at expectedVersion, and remap existing jobs from their
+// stored custom field values. Nothing is saved or remapped if someone else has saved mappings since.
+export async function applyCustomFieldMappingsToJobs(
+  mappings: CustomFieldMapping[],
+  expectedVersion: number,
+  actor: AuditActor
+): Promise<{ saved: true; version: number; updated: number } | { saved: false }> {
+  const result = await storage.saveAppSettingIfVersion(CUSTOM_FIELD_MAPPINGS_SETTING_KEY, mappings, expectedVersion, actor);
+  if (!result.saved) return { saved: false };
+  const remapActor = automationActor(`Custom field mapping, saved by ${actor.name}`);
+
+  let updated = 0;
+  for (const job of await storage.getAllJobs()) {
+    // Jobs synced before custom fields were stored keep what they have until their next sync
+    if (!job.serviceM8CustomFields) continue;
+
+    const mapped = applyCustomFieldMappings(job.serviceM8CustomFields, mappings);
+    const update: Partial<InsertJob> = {};
+    for (const [field, value] of Object.entries(mapped)) {
+      // Like sync, a value edited here stays until it's settled against ServiceM8
+      if (job.fieldProvenance?.[field]?.source === "user") continue;
+      if (!valuesEqual((job as any)[field], value)) (update as any)[field] = value;
+    }
+    if (Object.keys(update).length === 0) continue;
+
+    await storage.updateJob(job.id, update, remapActor);
+    updated++;
+  }
+
+  console.log(`[CustomFields] Saved ${mappings.length} mappings, updated ${updated} jobs`);
+  return { saved: true, version: result.version, updated };
+}
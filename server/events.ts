@@ -0,0 +1,74 @@
+import type { Request, Response } from "express";
+import { canSeeJob } from "@shared/permissions";
+import type { ServerEvent } from "@shared/events";
+import type { JobStageProgress, SelectJob } from "@shared/schema";
+
+// Live updates for the boards over Server-Sent Events. Storage publishes job and stage progress
+// changes as they're written, and sync publishes once a run finishes. Each stream only gets the jobs
+// its user can see.
+
+// Proxies close connections that stay quiet, so an idle stream gets a comment line this often
+const HEARTBEAT_MS = 25 * 1000;
+// How long the browser waits before reconnecting a dropped stream
+const RETRY_MS = 5 * 1000;
+
+type EventClient = { res: Response; user: Express.User };
+
+const clients = new Set<EventClient>();
+
+// GET /api/events: holds the response open and streams events until the browser goes away
+export function handleEventStream(req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const client: EventClient = { res, user: req.user! };
+  clients.add(client);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+}
+
+// A stream keeps the user as they were when it opened, so it's ended when they're signed out or their
+// role may have changed. The browser reconnects as the user is now, or is refused if signed out.
+export function closeUserStreams(userId: number) {
+  clients.forEach(client => {
+    if (client.user.id === userId) client.res.end();
+  });
+}
+
+// Users take their role from their staff member, so changing it ends their streams too
+export function closeStaffStreams(staffId: string) {
+  clients.forEach(client => {
+    if (client.user.staffId === staffId) client.res.end();
+  });
+}
+
+export function publishEvent(event: ServerEvent) {
+  clients.forEach(client => send(client, event));
+}
+
+export function publishJob(job: SelectJob) {
+  clients.forEach(client => {
+    send(client, { type: "job", jobId: job.id, job: canSeeJob(client.user.role, job) ? job : null });
+  });
+}
+
+// Only to users who can see the job the progress belongs to
+export function publishStageProgress(progress: JobStageProgress, job: SelectJob | undefined) {
+  if (!job) return;
+  clients.forEach(client => {
+    if (canSeeJob(client.user.role, job)) send(client, { type: "stage_progress", jobId: progress.jobId, progress });
+  });
+}
+
+function send(client: EventClient, event: ServerEvent) {
+  client.res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
@@ -1,8 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes, startAutoSync } from "./routes";
+import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
+import { startAutoSync } from "./sync";
 import { serveStatic } from "./static";
 import { createServer } from "http";
-import { seedWorkTypes } from "./seed";
+import { migrateSettingsStaff, seedWorkTypes } from "./seed";
 
 const app = express();
 const httpServer = createServer(app);
@@ -21,7 +23,14 @@ app.use(
   }),
 );
 
-app.use(express.urlencoded({ extended: false }));
+app.use(
+  express.urlencoded({
+    extended: false,
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }),
+);
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -61,6 +70,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  setupAuth(app);
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -101,6 +111,11 @@ app.use((req, res, next) => {
       } catch (err) {
         log(`Work types seed error: ${err}`);
       }
+      try {
+        await migrateSettingsStaff();
+      } catch (err) {
+        log(`Staff migration error: ${err}`);
+      }
       // Start automatic ServiceM8 sync every 15 minutes
       startAutoSync(15);
     },
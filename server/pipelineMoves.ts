@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { parseBadgeUuids, type ServiceM8Client } from "./servicem8";
+import { ServiceM8RequestError } from "./servicem8Request";
+import { isMappedColumn, type PipelineColumnMapping } from "@shared/statusRules";
+import type { InsertJob, SelectJob } from "@shared/schema";
+
+// Moving a card between Leads Pipeline columns. Columns linked to a ServiceM8 status or badge write
+// the move back to ServiceM8; any other column is kept as a local override that sync leaves alone.
+
+// Leads Pipeline columns from the pipelines setting saved by the client
+export async function getLeadsColumns(): Promise<PipelineColumnMapping[]> {
+  const pipelines = await storage.getAppSetting("pipelines");
+  return Array.isArray(pipelines?.leads) ? pipelines.leads : [];
+}
+
+// Local job fields for a move to `status`, after writing it to ServiceM8 where the column is mapped.
+// Throws ServiceM8RequestError if ServiceM8 can't be updated, in which case nothing should be saved.
+export async function pipelineMoveUpdates(
+  getClient: () => Promise<ServiceM8Client | null>,
+  job: SelectJob,
+  status: string
+): Promise<Partial<InsertJob>> {
+  const columns = job.lifecyclePhase === "quote" ? await getLeadsColumns() : [];
+  const target = columns.find(column => column.id === status);
+  const targetMapped = !!target && isMappedColumn(target);
+
+  // Badges that put a job in some other mapped column have to come off, or sync would move it back
+  const otherColumnBadges = new Set(
+    columns
+      .filter(column => column.id !== status && column.serviceM8Badge?.trim())
+      .map(column => column.serviceM8Badge!.trim().toLowerCase())
+  );
+  const hasOtherColumnBadge = (job.badges || []).some(badge => otherColumnBadges.has(badge.toLowerCase()));
+
+  if (!targetMapped && !hasOtherColumnBadge) {
+    return { status, statusOverride: status };
+  }
+
+  const sm8Client = await getClient();
+  if (!sm8Client) {
+    throw new ServiceM8RequestError("ServiceM8 is not connected");
+  }
+
+  const fields: { status?: string; badges?: string } = {};
+  const updates: Partial<InsertJob> = { status, statusOverride: targetMapped ? null : status };
+
+  if (target?.serviceM8Status?.trim()) {
+    fields.status = target.serviceM8Status.trim();
+    updates.serviceM8Status = fields.status;
+  }
+
+  const targetBadge = target?.serviceM8Badge?.trim();
+  if (targetBadge || hasOtherColumnBadge) {
+    const [sm8Job, badgeDefinitions] = await Promise.all([
+      sm8Client.fetchJob(job.serviceM8Uuid),
+      sm8Client.fetchBadges(),
+    ]);
+    if (!sm8Job) {
+      throw new ServiceM8RequestError("Job no longer exists in ServiceM8", 404);
+    }
+
+    const badgeUuidsByName = new Map(Array.from(badgeDefinitions.entries()).map(([uuid, name]) => [name.toLowerCase(), uuid]));
+    const badgeUuids = parseBadgeUuids(sm8Job.badges)
+      .filter(uuid => !otherColumnBadges.has((badgeDefinitions.get(uuid) || "").toLowerCase()));
+    if (targetBadge) {
+      const targetUuid = badgeUuidsByName.get(targetBadge.toLowerCase());
+      if (!targetUuid) {
+        throw new ServiceM8RequestError(`ServiceM8 has no badge named '${targetBadge}'`);
+      }
+      if (!badgeUuids.includes(targetUuid)) badgeUuids.push(targetUuid);
+    }
+
+    fields.badges = JSON.stringify(badgeUuids);
+    updates.badges = badgeUuids.map(uuid => badgeDefinitions.get(uuid) || uuid);
+  }
+
+  await sm8Client.updateJob(job.serviceM8Uuid, fields);
+  console.log(`[Pipeline] Moved job ${job.jobId} to '${status}', updated ServiceM8 ${Object.keys(fields).join(" and ")}`);
+  return updates;
+}
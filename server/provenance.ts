@@ -0,0 +1,112 @@
+import { getTableColumns } from "drizzle-orm";
+import { valuesEqual } from "./changes";
+import { jobs, type FieldProvenanceMap, type InsertJob, type SelectJob } from "@shared/schema";
+
+// Who last changed each job field, and how sync settles fields changed on both sides. For fields
+// sync writes, a user edit remembers the ServiceM8 value it replaced; sync compares against that
+// to tell a ServiceM8 change from a local one, and when both sides changed the field the local
+// value stays and the ServiceM8 value goes to the conflict queue.
+
+// Fields only edited here. Sync only ever fills them with defaults, which never replace a value set here.
+export const LOCAL_JOB_FIELDS = [
+  "workTypeId",
+  "currentStageId",
+  "schedulerStage",
+  "tentativePostDate",
+  "tentativePanelDate",
+  "tentativeNotes",
+  "postInstallDate",
+  "panelInstallDate",
+  "installStage",
+  "purchaseOrderStatus",
+  "estimatedProductionDuration",
+  "postInstallDuration",
+  "postInstallCrewSize",
+  "panelInstallDuration",
+  "panelInstallCrewSize",
+] as const;
+
+// Bookkeeping, not anyone's edit
+const UNTRACKED_FIELDS = ["id", "serviceM8Uuid", "createdAt", "updatedAt", "syncedAt", "fieldProvenance", "archivedAt", "archivedReason"];
+
+// Where the job sits on the boards has its own rules (manual column overrides, quote aging), so these
+// never go to the conflict queue
+const PLACEMENT_FIELDS = ["status", "statusOverride", "salesStage", "lifecyclePhase"];
+
+export type FieldConflict = { field: string; localValue: unknown; serviceM8Value: unknown };
+
+function isSyncedField(field: string): boolean {
+  return !(LOCAL_JOB_FIELDS as readonly string[]).includes(field) && !PLACEMENT_FIELDS.includes(field);
+}
+
+// Provenance after a user changes `updates` on the job
+export function recordUserEdits(existing: SelectJob, updates: Partial<InsertJob>, now = new Date()): FieldProvenanceMap {
+  const provenance = { ...(existing.fieldProvenance || {}) };
+  for (const [field, value] of Object.entries(updates)) {
+    if (UNTRACKED_FIELDS.includes(field) || valuesEqual((existing as any)[field], value)) continue;
+
+    const previous = provenance[field];
+    provenance[field] = { source: "user", changedAt: now.toISOString() };
+    if (isSyncedField(field)) {
+      // A second edit before the next sync still replaced the same ServiceM8 value
+      provenance[field].serviceM8Value = previous?.source === "user" ? previous.serviceM8Value ?? null : (existing as any)[field] ?? null;
+    }
+  }
+  return provenance;
+}
+
+// Settle the synced values in `merged` against the job as stored. Fields with an unsynced local
+// edit keep the local value; `conflicts` are those ServiceM8 also changed, and `matched` are fields
+// where both sides have come to agree. Sets merged.fieldProvenance.
+export function mergeSyncedFields(
+  existing: SelectJob,
+  merged: InsertJob,
+  now = new Date()
+): { conflicts: FieldConflict[]; matched: string[] } {
+  const provenance = { ...(existing.fieldProvenance || {}) };
+  const conflicts: FieldConflict[] = [];
+  const matched: string[] = [];
+
+  for (const field of Object.keys(merged)) {
+    if (UNTRACKED_FIELDS.includes(field)) continue;
+    const local = (existing as any)[field];
+    const incoming = (merged as any)[field];
+    const entry = provenance[field];
+
+    if (entry?.source === "user" && isSyncedField(field)) {
+      if (valuesEqual(incoming, local)) {
+        // ServiceM8 now has the local value, so there's no longer an unsynced edit
+        if (!valuesEqual(incoming, entry.serviceM8Value)) {
+          provenance[field] = { ...entry, serviceM8Value: incoming ?? null };
+          matched.push(field);
+        }
+        continue;
+      }
+      const editedLocally = !valuesEqual(local, entry.serviceM8Value);
+      const changedInServiceM8 = !valuesEqual(incoming, entry.serviceM8Value);
+      if (editedLocally) {
+        (merged as any)[field] = local;
+        if (changedInServiceM8) {
+          conflicts.push({ field, localValue: local ?? null, serviceM8Value: incoming ?? null });
+        }
+        continue;
+      }
+    }
+
+    if (!valuesEqual(incoming, local)) {
+      provenance[field] = { source: "sync", changedAt: now.toISOString() };
+    }
+  }
+
+  merged.fieldProvenance = provenance;
+  return { conflicts, matched };
+}
+
+// A value read back from jsonb as it should be written to the job column (timestamps come back as strings)
+export function jobColumnValue(field: string, value: unknown): unknown {
+  const column = (getTableColumns(jobs) as Record<string, { dataType: string }>)[field];
+  if (column?.dataType === "date" && typeof value === "string") {
+    return new Date(value);
+  }
+  return value;
+}
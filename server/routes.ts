@@ -1,19 +1,57 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { createServiceM8Client } from "./servicem8";
-import { insertJobSchema, insertStaffSchema, type InsertStaff, insertWorkTypeSchema, insertWorkTypeStageSchema } from "@shared/schema";
-import { z } from "zod";
-
-// ServiceM8 OAuth 2.0 Configuration
-const SM8_OAUTH_CONFIG = {
-  authorizeUrl: "https://go.servicem8.com/oauth/authorize",
-  tokenUrl: "https://go.servicem8.com/oauth/access_token",
-  clientId: process.env.SERVICEM8_APP_ID || process.env.SERVICEM8_CLIENT_ID || "",
-  clientSecret: process.env.SERVICEM8_APP_SECRET || process.env.SERVICEM8_CLIENT_SECRET || "",
-  scopes: "read_jobs read_schedule manage_schedule read_job_notes read_staff read_customers publish_sms publish_email",
-};
-
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage, VersionConflictError } from "./storage";
+import { createServiceM8Client, createServiceM8OAuthClient, type ServiceM8Client } from "./servicem8";
+import { getCircuitState, ServiceM8RequestError } from "./servicem8Request";
+import { SERVICEM8_API_URL, SERVICEM8_BASE_URL, SM8_OAUTH_CONFIG } from "./servicem8Config";
+import { isSyncRunning, runServiceM8Sync, runWebhookSync } from "./sync";
+import { applyStatusRules, getStatusRules, previewStatusRules } from "./statusMapping";
+import { applyCustomFieldMappingsToJobs, discoverCustomFields, getCustomFieldMappings } from "./customFields";
+import { ALLOCATION_FIELDS, syncInstallAllocations } from "./allocations";
+import { pipelineMoveUpdates } from "./pipelineMoves";
+import { type InsertJob, type SelectJob, type JobHistoryEntry, createUserSchema, passwordSchema, updateUserSchema, insertJobSchema } from "@shared/schema";
+import {
+  appSettingsSettingSchema, customFieldMappingsRequestSchema, emailSchema, importSchema, initializeStagesSchema, jobUpdateSchema,
+  pipelinesSettingSchema, reorderStagesSchema, resolveSyncConflictSchema, settingUpdateSchema, smsSchema, stageProgressUpdateSchema,
+  staffCreateSchema, staffUpdateSchema, statusRulesRequestSchema, statusRulesUpdateSchema, syncRequestSchema, workTypeCreateSchema,
+  workTypeStageCreateSchema, workTypeStageUpdateSchema, workTypeUpdateSchema, type CustomFieldMappingsRequest, type EmailRequest,
+  type ImportRequest, type JobUpdate, type JobUpdated, type ResolveSyncConflict, type SettingUpdate, type SmsRequest, type StageProgressUpdate,
+  type StatusRulesUpdate, type SyncRequest,
+} from "@shared/api";
+import { hasPermission } from "@shared/permissions";
+import { APP_SETTINGS_KEY } from "@shared/companySettings";
+import { STATUS_RULES_SETTING_KEY, statusRulesSchema } from "@shared/statusRules";
+import { CUSTOM_FIELD_MAPPINGS_SETTING_KEY, customFieldMappingsSchema } from "@shared/customFields";
+import type { z } from "zod";
+import { endUserSessions, hashPassword, requirePermission, requireStageAccess, requireVisibleJob, toPublicUser } from "./auth";
+import { userActor } from "./audit";
+import { closeStaffStreams, closeUserStreams, handleEventStream } from "./events";
+import { describeUndo, jobMatches, undoChanges, undoValues, UNDO_DEPTH } from "./undo";
+import { jobColumnValue } from "./provenance";
+import { apiIssues, validateBody } from "./validation";
+import { COMM_RULES_SETTING_KEY, commRulesSchema } from "./commClassifier";
+
+// Settings PUT /api/settings/:key saves, with the schema each value has to match
+const GENERAL_SETTING_SCHEMAS = new Map<string, z.ZodTypeAny>([
+  ["pipelines", pipelinesSettingSchema],
+  [APP_SETTINGS_KEY, appSettingsSettingSchema],
+  [COMM_RULES_SETTING_KEY, commRulesSchema],
+]);
+
+// Settings with their own endpoint, which checks the value and updates jobs to match
+const SETTING_ENDPOINTS = new Map<string, string>([
+  ["staff", "/api/staff"],
+  [STATUS_RULES_SETTING_KEY, "/api/status-rules"],
+  [CUSTOM_FIELD_MAPPINGS_SETTING_KEY, "/api/custom-field-mappings"],
+]);
+
+// Every setting an export carries, with its schema, for POST /api/import
+const IMPORT_SETTING_SCHEMAS = new Map<string, z.ZodTypeAny>([
+  ...Array.from(GENERAL_SETTING_SCHEMAS),
+  [STATUS_RULES_SETTING_KEY, statusRulesSchema],
+  [CUSTOM_FIELD_MAPPINGS_SETTING_KEY, customFieldMappingsSchema],
+]);
 
 // Helper function to get a valid OAuth token, refreshing if needed
 async function getValidOAuthToken(): Promise<{ accessToken: string } | null> {
@@ -65,27 +103,77 @@ async function getValidOAuthToken(): Promise<{ accessToken: string } | null> {
   return isExpired ? null : { accessToken: token.accessToken };
 }
 
+// Client for writing to ServiceM8: the connected OAuth account if there is one, else the API key
+async function getServiceM8WriteClient(): Promise<ServiceM8Client | null> {
+  const token = await getValidOAuthToken();
+  return token ? createServiceM8OAuthClient(token.accessToken) : createServiceM8Client();
+}
+
+// Save a user's edit to a job, as the boards and scheduler make them. Moving a card to another pipeline
+// column is written to ServiceM8 first, so a failed write (ServiceM8RequestError) leaves the job
+// where it was. With expectedVersion, a job changed in the meantime throws VersionConflictError.
+async function applyUserJobUpdate(
+  existing: SelectJob,
+  updates: Record<string, unknown>,
+  user: Express.User,
+  expectedVersion?: number
+): Promise<SelectJob | undefined> {
+  const partialJob: Partial<InsertJob> = Object.fromEntries(
+    Object.entries(updates).map(([field, value]) => [field, jobColumnValue(field, value)])
+  );
+
+  if (typeof partialJob.status === "string" && partialJob.status !== existing.status) {
+    Object.assign(partialJob, await pipelineMoveUpdates(getServiceM8WriteClient, existing, partialJob.status));
+  }
+
+  const updatedJob = await storage.updateJobByUser(existing.id, partialJob, userActor(user), expectedVersion);
+  if (!updatedJob) return undefined;
+
+  // If workTypeId was set, initialize stages for this job
+  if (partialJob.workTypeId) {
+    await storage.initializeJobStages(existing.id, partialJob.workTypeId);
+  }
+
+  // Confirmed install dates are booked in ServiceM8 for the install crew
+  if (ALLOCATION_FIELDS.some(field => field in partialJob)) {
+    return syncInstallAllocations(await getServiceM8WriteClient(), updatedJob);
+  }
+
+  return updatedJob;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   // Get all jobs
-  app.get("/api/jobs", async (req, res) => {
+  app.get("/api/jobs", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
-      const jobs = await storage.getAllJobs();
-      res.json(jobs);
+      const jobs = await storage.getUnarchivedJobs();
+      // Users who only see the scheduler only get its work orders
+      res.json(hasPermission(req.user!.role, "jobs.view") ? jobs : jobs.filter(job => job.lifecyclePhase === "work_order"));
     } catch (error) {
       console.error("Error fetching jobs:", error);
       res.status(500).json({ error: "Failed to fetch jobs" });
     }
   });
 
+  // Jobs archived because they were deleted or deactivated in ServiceM8
+  app.get("/api/jobs/archived", requirePermission("system.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getArchivedJobs());
+    } catch (error) {
+      console.error("Error fetching archived jobs:", error);
+      res.status(500).json({ error: "Failed to fetch archived jobs" });
+    }
+  });
+
   // Get a single job
-  app.get("/api/jobs/:id", async (req, res) => {
+  app.get("/api/jobs/:id", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
       const job = await storage.getJob(jobId);
-      if (!job) {
+      if (!job || (!hasPermission(req.user!.role, "jobs.view") && job.lifecyclePhase !== "work_order")) {
         return res.status(404).json({ error: "Job not found" });
       }
       res.json(job);
@@ -96,197 +184,136 @@ export async function registerRoutes(
   });
 
   // Update a job
-  app.patch("/api/jobs/:id", async (req, res) => {
+  app.patch("/api/jobs/:id", requirePermission("jobs.edit"), validateBody(jobUpdateSchema), async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      const partialJob = req.body;
-      const updatedJob = await storage.updateJob(jobId, partialJob);
+      const { expectedVersion, ...updates }: JobUpdate = req.body;
+      const existing = await storage.getJob(jobId);
+      if (!existing) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      // Checked up front too, so a stale pipeline move isn't written to ServiceM8
+      if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+        return res.status(409).json({ error: "Job was changed by someone else", current: existing });
+      }
+
+      const changes = undoChanges(existing, updates);
+      const updatedJob = await applyUserJobUpdate(existing, updates, req.user!, expectedVersion);
       if (!updatedJob) {
         return res.status(404).json({ error: "Job not found" });
       }
-      
-      // If workTypeId was set, initialize stages for this job
-      if (partialJob.workTypeId) {
-        await storage.initializeJobStages(jobId, partialJob.workTypeId);
+
+      const undoable = changes.length > 0;
+      if (undoable) {
+        await storage.pushUndoEntry({
+          userId: req.user!.id,
+          jobId,
+          description: describeUndo(existing, changes),
+          changes,
+        }, UNDO_DEPTH);
       }
-      
-      res.json(updatedJob);
+
+      const response: JobUpdated = { ...updatedJob, undoable };
+      res.json(response);
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ error: "Job was changed by someone else", current: error.current });
+      }
+      if (error instanceof ServiceM8RequestError) {
+        console.error("[Pipeline] ServiceM8 rejected pipeline move:", error.message);
+        return res.status(502).json({ error: `Failed to update ServiceM8: ${error.message}` });
+      }
       console.error("Error updating job:", error);
       res.status(500).json({ error: "Failed to update job" });
     }
   });
 
-  // Get job communication history from ServiceM8 (uses OAuth or API key)
-  app.get("/api/jobs/:uuid/communications", async (req, res) => {
-    try {
-      const jobUuid = req.params.uuid;
-
-      // Try OAuth first, then fall back to API key
-      const token = await getValidOAuthToken();
-      const apiKey = process.env.SERVICEM8_API_KEY;
-
-      if (!token && !apiKey) {
-        return res.status(401).json({
-          error: "ServiceM8 not connected. Please connect via Settings or set SERVICEM8_API_KEY."
-        });
-      }
-
-      const headers = token
-        ? { "Authorization": `Bearer ${token.accessToken}`, "Accept": "application/json" }
-        : { "X-API-Key": apiKey!, "Accept": "application/json" };
-
-      const baseUrl = "https://api.servicem8.com/api_1.0";
-
-      // Fetch from multiple endpoints in parallel to get all communications
-      const [feedRes, notesRes, activityRes] = await Promise.all([
-        fetch(`${baseUrl}/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=100`, { headers }),
-        fetch(`${baseUrl}/note.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=100`, { headers }),
-        fetch(`${baseUrl}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=100`, { headers })
-      ]);
-
-      const communications: Array<{
-        timestamp: string;
-        type: "internal_note" | "sms" | "email" | "call" | "system" | "update" | "note";
-        author: string;
-        message: string;
-        direction?: "inbound" | "outbound" | "unknown";
-      }> = [];
-
-      // Process feed items (SMS, emails, system messages)
-      if (feedRes.ok) {
-        const feedItems = await feedRes.json();
-        console.log(`[Comms] Fetched ${feedItems.length} feed items for job ${jobUuid}`);
-
-        for (const item of feedItems) {
-          const itemType = (item.type || '').toLowerCase();
-          const message = item.message || item.description || '';
-          let type: typeof communications[0]['type'] = 'system';
-          let direction: "inbound" | "outbound" | "unknown" = 'unknown';
-
-          // Determine type and direction
-          if (itemType.includes('sms')) {
-            type = 'sms';
-            direction = itemType.includes('received') || itemType.includes('inbound') ? 'inbound' : 'outbound';
-          } else if (itemType.includes('email')) {
-            type = 'email';
-            direction = itemType.includes('received') || itemType.includes('inbound') ? 'inbound' : 'outbound';
-          } else if (itemType.includes('call') || itemType.includes('phone')) {
-            type = 'call';
-          } else if (itemType.includes('note')) {
-            type = 'internal_note';
-          } else if (itemType.includes('quote')) {
-            type = 'email';
-            direction = 'outbound';
-          }
-
-          if (message) {
-            communications.push({
-              timestamp: item.timestamp || item.created_date || '',
-              type,
-              author: item.staff_name || item.author || 'System',
-              message,
-              direction
-            });
-          }
+  // Undo the user's last job edit, or redo the last one they undid. Either is refused if the job's
+  // fields have changed since, so nobody else's work is overwritten.
+  for (const direction of ["undo", "redo"] as const) {
+    app.post(`/api/${direction}`, requirePermission("jobs.edit"), async (req, res) => {
+      try {
+        const entry = await storage.getLatestUndoEntry(req.user!.id, direction === "redo");
+        if (!entry) {
+          return res.status(404).json({ error: `Nothing to ${direction}` });
         }
-      }
-
-      // Process notes
-      if (notesRes.ok) {
-        const notes = await notesRes.json();
-        console.log(`[Comms] Fetched ${notes.length} notes for job ${jobUuid}`);
-
-        for (const note of notes) {
-          const noteText = (note.note || '').toLowerCase();
-          let type: typeof communications[0]['type'] = 'note';
-          let direction: "inbound" | "outbound" | "unknown" = 'unknown';
-
-          // Try to detect if note mentions email/sms
-          if (noteText.includes('email')) {
-            type = 'email';
-            if (noteText.includes('received') || noteText.includes('from customer') || noteText.includes('incoming')) {
-              direction = 'inbound';
-            } else if (noteText.includes('sent') || noteText.includes('to customer')) {
-              direction = 'outbound';
-            }
-          } else if (noteText.includes('sms') || noteText.includes('text message')) {
-            type = 'sms';
-            if (noteText.includes('received') || noteText.includes('from customer') || noteText.includes('incoming')) {
-              direction = 'inbound';
-            } else if (noteText.includes('sent') || noteText.includes('to customer')) {
-              direction = 'outbound';
-            }
-          } else if (noteText.includes('call') || noteText.includes('phone') || noteText.includes('spoke')) {
-            type = 'call';
-          }
-
-          communications.push({
-            timestamp: note.timestamp || note.create_date || '',
-            type,
-            author: note.created_by_staff_name || 'Staff',
-            message: note.note || '',
-            direction
-          });
+        const job = await storage.getJob(entry.jobId);
+        if (!job) {
+          return res.status(404).json({ error: "Job not found" });
         }
-      }
-
-      // Process job activities
-      if (activityRes.ok) {
-        const activities = await activityRes.json();
-        console.log(`[Comms] Fetched ${activities.length} activities for job ${jobUuid}`);
 
-        for (const activity of activities) {
-          const activityType = (activity.activity_type || '').toLowerCase();
-          let type: typeof communications[0]['type'] = 'system';
-
-          if (activityType.includes('sms')) {
-            type = 'sms';
-          } else if (activityType.includes('email')) {
-            type = 'email';
-          } else if (activityType.includes('call')) {
-            type = 'call';
-          } else if (activityType.includes('note')) {
-            type = 'internal_note';
-          }
+        const [from, to] = direction === "undo" ? ["after", "before"] as const : ["before", "after"] as const;
+        if (!jobMatches(job, entry.changes, from)) {
+          return res.status(409).json({ error: `${job.jobId} has changed since, so this can't be ${direction === "undo" ? "undone" : "redone"}` });
+        }
 
-          if (activity.description) {
-            communications.push({
-              timestamp: activity.timestamp || activity.start_date || '',
-              type,
-              author: activity.staff_name || 'Staff',
-              message: activity.description || `Activity: ${activity.activity_type}`
-            });
-          }
+        const updatedJob = await applyUserJobUpdate(job, undoValues(entry.changes, to), req.user!, job.version);
+        await storage.setUndoEntryUndone(entry.id, direction === "undo" ? new Date() : null);
+        console.log(`[Undo] ${req.user!.username}: ${direction} "${entry.description}"`);
+        res.json({ job: updatedJob, description: entry.description });
+      } catch (error) {
+        if (error instanceof VersionConflictError) {
+          return res.status(409).json({ error: `The job changed while this was being ${direction === "undo" ? "undone" : "redone"}`, current: error.current });
+        }
+        if (error instanceof ServiceM8RequestError) {
+          return res.status(502).json({ error: `Failed to update ServiceM8: ${error.message}` });
         }
+        console.error(`Error running ${direction}:`, error);
+        res.status(500).json({ error: `Failed to ${direction}` });
       }
+    });
+  }
 
-      // Remove duplicates (by timestamp + message start) and sort
-      const seen = new Set<string>();
-      const uniqueComms = communications.filter(c => {
-        const key = `${c.timestamp}-${c.message.substring(0, 30)}`;
-        if (seen.has(key)) return false;
-        seen.add(key);
-        return true;
-      });
-
-      // Sort by timestamp descending
-      uniqueComms.sort((a, b) => {
-        const dateA = new Date(a.timestamp).getTime() || 0;
-        const dateB = new Date(b.timestamp).getTime() || 0;
-        return dateB - dateA;
-      });
-
-      console.log(`[Comms] Returning ${uniqueComms.length} communications for job ${jobUuid}`);
-      res.json(uniqueComms);
+  // Get a job's communication history, as copied from ServiceM8 by sync (newest first)
+  app.get("/api/jobs/:uuid/communications", requirePermission("jobs.view"), async (req, res) => {
+    try {
+      res.json(await storage.getJobCommunications(req.params.uuid));
     } catch (error) {
       console.error("Error fetching job communications:", error);
       res.status(500).json({ error: "Failed to fetch job communication history" });
     }
   });
 
+  // Every recorded change to a job and its stage progress (newest first)
+  app.get("/api/jobs/:id/history", requirePermission("jobs.view"), async (req, res) => {
+    try {
+      const entries = await storage.getJobAuditLog(parseInt(req.params.id));
+      const stageIds = Array.from(new Set(
+        entries.filter(entry => entry.entityType === "stage_progress").map(entry => parseInt(entry.entityId.split(":")[1]))
+      ));
+      const stageNames = new Map<number, string>();
+      for (const stageId of stageIds) {
+        const stage = await storage.getWorkTypeStage(stageId);
+        if (stage) stageNames.set(stageId, stage.name);
+      }
+      const history: JobHistoryEntry[] = entries.map(entry => ({
+        ...entry,
+        stageName: entry.entityType === "stage_progress" ? stageNames.get(parseInt(entry.entityId.split(":")[1])) ?? null : null,
+      }));
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching job history:", error);
+      res.status(500).json({ error: "Failed to fetch job history" });
+    }
+  });
+
+  // Search every job's communications by message text or author
+  app.get("/api/communications/search", requirePermission("jobs.view"), async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (query.length < 2) {
+        return res.status(400).json({ error: "Search query must be at least 2 characters" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await storage.searchCommunications(query, limit));
+    } catch (error) {
+      console.error("Error searching communications:", error);
+      res.status(500).json({ error: "Failed to search communications" });
+    }
+  });
+
   // Get all staff
-  app.get("/api/staff", async (req, res) => {
+  app.get("/api/staff", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const members = await storage.getAllStaff();
       res.json(members);
@@ -297,28 +324,25 @@ export async function registerRoutes(
   });
 
   // Create staff member
-  app.post("/api/staff", async (req, res) => {
+  app.post("/api/staff", requirePermission("staff.edit"), validateBody(staffCreateSchema), async (req, res) => {
     try {
-      const validatedStaff = insertStaffSchema.parse(req.body) as InsertStaff;
-      const member = await storage.createStaffMember(validatedStaff);
+      const member = await storage.createStaffMember(req.body);
       res.status(201).json(member);
     } catch (error) {
       console.error("Error creating staff member:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
       res.status(500).json({ error: "Failed to create staff member" });
     }
   });
 
   // Update staff member
-  app.patch("/api/staff/:id", async (req, res) => {
+  app.patch("/api/staff/:id", requirePermission("staff.edit"), validateBody(staffUpdateSchema), async (req, res) => {
     try {
       const staffId = req.params.id;
       const updatedMember = await storage.updateStaffMember(staffId, req.body);
       if (!updatedMember) {
         return res.status(404).json({ error: "Staff member not found" });
       }
+      if (req.body.role !== undefined) closeStaffStreams(staffId);
       res.json(updatedMember);
     } catch (error) {
       console.error("Error updating staff member:", error);
@@ -326,8 +350,32 @@ export async function registerRoutes(
     }
   });
 
+  // Delete staff member
+  app.delete("/api/staff/:id", requirePermission("staff.edit"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteStaffMember(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      closeStaffStreams(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting staff member:", error);
+      res.status(500).json({ error: "Failed to delete staff member" });
+    }
+  });
+
+  // ============== LIVE UPDATES ==============
+
+  // Server-Sent Events stream of job, stage progress and sync changes for the boards
+  app.get("/api/events", requirePermission("jobs.view", "scheduler.view"), handleEventStream);
+
+  // ============== APP SETTINGS ==============
+  // Saved one key at a time with the version the client last loaded, so a save from a stale copy
+  // is refused instead of overwriting someone else's change
+
   // Get all app settings
-  app.get("/api/settings", async (req, res) => {
+  app.get("/api/settings", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const settings = await storage.getAllAppSettings();
       res.json(settings);
@@ -337,41 +385,229 @@ export async function registerRoutes(
     }
   });
 
-  // Save all app settings
-  app.post("/api/settings", async (req, res) => {
+  // Current version of every setting, polled by open clients to pick up changes made elsewhere
+  app.get("/api/settings/versions", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
-      await storage.saveAllAppSettings(req.body);
-      res.json({ success: true });
+      res.json(await storage.getAppSettingVersions());
     } catch (error) {
-      console.error("Error saving settings:", error);
-      res.status(500).json({ error: "Failed to save settings" });
+      console.error("Error fetching setting versions:", error);
+      res.status(500).json({ error: "Failed to fetch setting versions" });
     }
   });
 
-  // Get a specific setting
-  app.get("/api/settings/:key", async (req, res) => {
+  // Get a specific setting with its version
+  app.get("/api/settings/:key", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
-      const value = await storage.getAppSetting(req.params.key);
-      res.json({ key: req.params.key, value });
+      res.json(await storage.getAppSettingEntry(req.params.key));
     } catch (error) {
       console.error("Error fetching setting:", error);
       res.status(500).json({ error: "Failed to fetch setting" });
     }
   });
 
-  // Set a specific setting
-  app.put("/api/settings/:key", async (req, res) => {
+  // Set a specific setting, if it's still at the version the client loaded
+  app.put("/api/settings/:key", requirePermission("settings.edit"), validateBody(settingUpdateSchema), async (req, res) => {
     try {
-      await storage.setAppSetting(req.params.key, req.body.value);
-      res.json({ success: true });
+      const { key } = req.params;
+      const schema = GENERAL_SETTING_SCHEMAS.get(key);
+      if (!schema) {
+        const endpoint = SETTING_ENDPOINTS.get(key);
+        return res.status(400).json({ error: endpoint ? `${key} is saved through ${endpoint}` : `Unknown setting: ${key}` });
+      }
+      const { expectedVersion }: SettingUpdate = req.body;
+      const parsed = schema.safeParse(req.body.value);
+      if (!parsed.success) {
+        return res.status(400).json({ error: apiIssues(parsed.error, ["value"]) });
+      }
+      const value = parsed.data;
+      const result = await storage.saveAppSettingIfVersion(key, value, expectedVersion, userActor(req.user!));
+      if (!result.saved) {
+        return res.status(409).json({ error: "Setting was changed by someone else", current: result.current });
+      }
+      res.json({ key, value, version: result.version });
     } catch (error) {
       console.error("Error saving setting:", error);
       res.status(500).json({ error: "Failed to save setting" });
     }
   });
 
+  // ============== STATUS MAPPING RULES ==============
+
+  // Get the ServiceM8 status mapping rules (the built-in defaults until some are saved)
+  app.get("/api/status-rules", requirePermission("settings.edit"), async (req, res) => {
+    try {
+      res.json(await getStatusRules());
+    } catch (error) {
+      console.error("Error fetching status rules:", error);
+      res.status(500).json({ error: "Failed to fetch status rules" });
+    }
+  });
+
+  // Show how current jobs would be reclassified by a set of rules, without saving anything
+  app.post("/api/status-rules/preview", requirePermission("settings.edit"), validateBody(statusRulesRequestSchema), async (req, res) => {
+    try {
+      res.json(await previewStatusRules(req.body.rules));
+    } catch (error) {
+      console.error("Error previewing status rules:", error);
+      res.status(500).json({ error: "Failed to preview status rules" });
+    }
+  });
+
+  // Save the rules and reclassify existing jobs to match, if the saved rules are still at the version the client loaded
+  app.put("/api/status-rules", requirePermission("settings.edit"), validateBody(statusRulesUpdateSchema), async (req, res) => {
+    try {
+      const { rules, expectedVersion }: StatusRulesUpdate = req.body;
+      const result = await applyStatusRules(rules, expectedVersion, userActor(req.user!));
+      if (!result.saved) {
+        return res.status(409).json({ error: "Status rules were changed by someone else", current: await getStatusRules() });
+      }
+      res.json({ rules, reclassified: result.reclassified, version: result.version });
+    } catch (error) {
+      console.error("Error saving status rules:", error);
+      res.status(500).json({ error: "Failed to save status rules" });
+    }
+  });
+
+  // ============== CUSTOM FIELD MAPPINGS ==============
+
+  // Get the custom field mappings, with the custom fields seen on synced jobs to choose from
+  app.get("/api/custom-field-mappings", requirePermission("settings.edit"), async (req, res) => {
+    try {
+      const [setting, discovered] = await Promise.all([getCustomFieldMappings(), discoverCustomFields()]);
+      res.json({ ...setting, discovered });
+    } catch (error) {
+      console.error("Error fetching custom field mappings:", error);
+      res.status(500).json({ error: "Failed to fetch custom field mappings" });
+    }
+  });
+
+  // Save the mappings and remap existing jobs from their stored custom field values, if the saved
+  // mappings are still at the version the client loaded
+  app.put("/api/custom-field-mappings", requirePermission("settings.edit"), validateBody(customFieldMappingsRequestSchema), async (req, res) => {
+    try {
+      const { mappings, expectedVersion }: CustomFieldMappingsRequest = req.body;
+      const result = await applyCustomFieldMappingsToJobs(mappings, expectedVersion, userActor(req.user!));
+      if (!result.saved) {
+        return res.status(409).json({ error: "Custom field mappings were changed by someone else", current: await getCustomFieldMappings() });
+      }
+      res.json({ mappings, updated: result.updated, version: result.version });
+    } catch (error) {
+      console.error("Error saving custom field mappings:", error);
+      res.status(500).json({ error: "Failed to save custom field mappings" });
+    }
+  });
+
+  // ============== USERS ==============
+
+  // Postgres unique_violation: the username or the linked staff member is already taken
+  const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === "23505";
+
+  // Get all users
+  app.get("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      res.json(allUsers.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Create user
+  app.post("/api/users", requirePermission("users.manage"), validateBody(createUserSchema), async (req, res) => {
+    try {
+      const { password, ...fields }: z.infer<typeof createUserSchema> = req.body;
+      const user = await storage.createUser({ ...fields, passwordHash: await hashPassword(password) });
+      console.log(`[Auth] ${req.user!.username} created user ${user.username}`);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "That username or staff member is already in use" });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  // Update user
+  app.patch("/api/users/:id", requirePermission("users.manage"), validateBody(updateUserSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates: z.infer<typeof updateUserSchema> = req.body;
+      // Stops an admin locking themselves out
+      if (id === req.user!.id && (updates.isAdmin === false || updates.active === false)) {
+        return res.status(400).json({ error: "You can't remove your own admin access or deactivate yourself" });
+      }
+      const user = await storage.updateUser(id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (updates.active === false) {
+        const ended = await endUserSessions(id);
+        console.log(`[Auth] ${req.user!.username} deactivated ${user.username}, ending ${ended} sessions`);
+      } else if (updates.isAdmin !== undefined || updates.staffId !== undefined) {
+        closeUserStreams(id);
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "That staff member is already linked to another user" });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // Set a new password for a user
+  app.post("/api/users/:id/password", requirePermission("users.manage"), validateBody(passwordSchema), async (req, res) => {
+    try {
+      const { password }: z.infer<typeof passwordSchema> = req.body;
+      const user = await storage.updateUser(parseInt(req.params.id), { passwordHash: await hashPassword(password) });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      // Anyone signed in with the old password has to sign in again
+      const ended = await endUserSessions(user.id, user.id === req.user!.id ? req.sessionID : undefined);
+      console.log(`[Auth] ${req.user!.username} reset the password for ${user.username}, ending ${ended} sessions`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  // ============== SYNC CONFLICTS ==============
+
+  // Fields changed both here and in ServiceM8 since the last sync, waiting for review
+  app.get("/api/sync-conflicts", requirePermission("sync.run"), async (req, res) => {
+    try {
+      res.json(await storage.getPendingSyncConflicts());
+    } catch (error) {
+      console.error("Error fetching sync conflicts:", error);
+      res.status(500).json({ error: "Failed to fetch sync conflicts" });
+    }
+  });
+
+  // Settle a conflict by keeping the local value or taking ServiceM8's
+  app.post("/api/sync-conflicts/:id/resolve", requirePermission("sync.run"), validateBody(resolveSyncConflictSchema), async (req, res) => {
+    try {
+      const { keep }: ResolveSyncConflict = req.body;
+      const conflict = await storage.getSyncConflict(parseInt(req.params.id));
+      if (!conflict) {
+        return res.status(404).json({ error: "Sync conflict not found" });
+      }
+      if (conflict.status !== "pending") {
+        return res.status(400).json({ error: "Sync conflict is already resolved" });
+      }
+      res.json(await storage.resolveSyncConflict(conflict.id, keep, userActor(req.user!)));
+    } catch (error) {
+      console.error("Error resolving sync conflict:", error);
+      res.status(500).json({ error: "Failed to resolve sync conflict" });
+    }
+  });
+
   // Export all data for migration to production
-  app.get("/api/export", async (req, res) => {
+  app.get("/api/export", requirePermission("system.manage"), async (req, res) => {
     try {
       const [settings, workTypes, allStages] = await Promise.all([
         storage.getAllAppSettings(),
@@ -400,17 +636,31 @@ export async function registerRoutes(
   });
 
   // Import data from export (for production setup)
-  app.post("/api/import", async (req, res) => {
+  app.post("/api/import", requirePermission("system.manage"), validateBody(importSchema), async (req, res) => {
     try {
-      const { settings, workTypes, workTypeStages } = req.body;
+      const { settings, workTypes, workTypeStages }: ImportRequest = req.body;
       
-      // Import settings
-      if (settings) {
-        await storage.saveAllAppSettings(settings);
+      const actor = userActor(req.user!);
+
+      // Every setting is checked before anything is written, so a bad file imports nothing
+      const checkedSettings: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(settings ?? {})) {
+        const schema = IMPORT_SETTING_SCHEMAS.get(key);
+        if (!schema) {
+          return res.status(400).json({ error: [{ path: ["settings", key], message: `Unknown setting: ${key}` }] });
+        }
+        const parsed = schema.safeParse(value);
+        if (!parsed.success) {
+          return res.status(400).json({ error: apiIssues(parsed.error, ["settings", key]) });
+        }
+        checkedSettings[key] = parsed.data;
       }
+
+      // Import settings
+      await storage.saveAllAppSettings(checkedSettings, actor);
       
       // Import work types and their stages
-      if (workTypes && Array.isArray(workTypes)) {
+      if (workTypes) {
         for (const wt of workTypes) {
           // Create work type (skip id to let DB assign new one)
           const newWt = await storage.createWorkType({
@@ -418,7 +668,7 @@ export async function registerRoutes(
             description: wt.description,
             color: wt.color,
             isActive: wt.isActive
-          });
+          }, actor);
           
           // Import stages for this work type
           const stages = workTypeStages?.[wt.id] || [];
@@ -430,9 +680,8 @@ export async function registerRoutes(
               orderIndex: stage.orderIndex,
               description: stage.description,
               category: stage.category,
-              triggersPurchaseOrder: stage.triggersPurchaseOrder,
-              requiredMaterials: stage.requiredMaterials
-            });
+              triggersPurchaseOrder: stage.triggersPurchaseOrder
+            }, actor);
           }
         }
       }
@@ -445,118 +694,41 @@ export async function registerRoutes(
   });
 
   // Sync with ServiceM8
-  app.post("/api/sync/servicem8", async (req, res) => {
+  app.post("/api/sync/servicem8", requirePermission("sync.run"), validateBody(syncRequestSchema), async (req, res) => {
     try {
-      const sm8Client = createServiceM8Client();
-      if (!sm8Client) {
+      if (isSyncRunning()) {
+        return res.status(409).json({ error: "A ServiceM8 sync is already running" });
+      }
+
+      // Callers may force a mode with { mode: 'full' | 'incremental' }; otherwise it's picked automatically
+      const { mode }: SyncRequest = req.body;
+      const result = await runServiceM8Sync({ trigger: "manual", mode });
+      if (!result) {
         return res.status(400).json({ 
           error: "ServiceM8 not configured. Please set SERVICEM8_API_KEY environment variable." 
         });
       }
 
-      const syncLog = await storage.createSyncLog({
-        syncType: "manual",
-        status: "in_progress",
-        startedAt: new Date(),
-        jobsProcessed: 0,
-      });
-
-      let jobsProcessed = 0;
-      let errorMessage = null;
-
-      try {
-        // Bulk fetch all data in parallel for speed (including custom fields for staff assignment and badge definitions)
-        const [sm8Jobs, contactMap, companyMap, customFieldMap, notesMap, clientContactMap, badgeDefinitions] = await Promise.all([
-          sm8Client.fetchJobs(),
-          sm8Client.fetchAllJobContacts(),
-          sm8Client.fetchAllCompanies(),
-          sm8Client.fetchAllJobCustomFields(),
-          sm8Client.fetchAllJobNotes(),
-          sm8Client.fetchLastClientContact(), // NEW: fetch when CLIENT last contacted us
-          sm8Client.fetchBadges()
-        ]);
-
-        for (const sm8Job of sm8Jobs) {
-          // Get customer name: prioritize company name, then job contact
-          let customerName = "Unknown Customer";
-
-          // First try company name (this is the main customer record in ServiceM8)
-          if (sm8Job.company_uuid) {
-            const companyName = companyMap.get(sm8Job.company_uuid);
-            if (companyName) {
-              customerName = companyName;
-            }
-          }
-
-          // Fall back to job contact name if no company
-          if (customerName === "Unknown Customer") {
-            const contact = contactMap.get(sm8Job.uuid);
-            if (contact && (contact.first || contact.last)) {
-              customerName = `${contact.first} ${contact.last}`.trim();
-            }
-          }
-
-          const mappedJob = sm8Client.mapServiceM8JobToInsertJob(sm8Job, customerName, customFieldMap, badgeDefinitions);
-
-          // Add communication history (any direction - inbound or outbound)
-          const lastComm = notesMap.get(sm8Job.uuid);
-          if (lastComm) {
-            (mappedJob as any).lastCommunicationDate = lastComm.date;
-            (mappedJob as any).lastCommunicationType = lastComm.type;
-            (mappedJob as any).lastCommunicationDirection = lastComm.direction;
-            const daysSince = Math.floor((Date.now() - lastComm.date.getTime()) / (1000 * 60 * 60 * 24));
-            mappedJob.daysSinceLastContact = daysSince;
-          } else {
-            (mappedJob as any).lastCommunicationDate = null;
-            (mappedJob as any).lastCommunicationType = null;
-            (mappedJob as any).lastCommunicationDirection = null;
-            mappedJob.daysSinceLastContact = null;
-          }
-
-          // NEW: Add CLIENT contact tracking (inbound only - when client contacted US)
-          const lastClientContact = clientContactMap.get(sm8Job.uuid);
-          if (lastClientContact) {
-            (mappedJob as any).lastClientContactDate = lastClientContact.date;
-            (mappedJob as any).lastClientContactType = lastClientContact.type;
-            const daysSinceClient = Math.floor((Date.now() - lastClientContact.date.getTime()) / (1000 * 60 * 60 * 24));
-            (mappedJob as any).daysSinceClientContact = daysSinceClient;
-          } else {
-            (mappedJob as any).lastClientContactDate = null;
-            (mappedJob as any).lastClientContactType = null;
-            (mappedJob as any).daysSinceClientContact = null;
-          }
-
-          await storage.upsertJobByServiceM8Uuid(mappedJob);
-          jobsProcessed++;
-        }
-
-        await storage.updateSyncLog(syncLog.id, {
-          status: "success",
-          jobsProcessed,
-          completedAt: new Date(),
-        });
-
-        res.json({ 
-          success: true, 
-          jobsProcessed,
-          message: `Successfully synced ${jobsProcessed} jobs from ServiceM8` 
-        });
-      } catch (syncError: any) {
-        errorMessage = syncError.message;
-        
-        await storage.updateSyncLog(syncLog.id, {
-          status: "error",
-          jobsProcessed,
-          errorMessage,
-          completedAt: new Date(),
-        });
-
-        res.status(500).json({ 
+      if (result.status === "error") {
+        return res.status(500).json({ 
           error: "ServiceM8 sync failed",
-          message: errorMessage,
-          jobsProcessed 
+          message: result.errorMessage,
+          jobsProcessed: result.jobsProcessed 
         });
       }
+
+      res.json({ 
+        success: true, 
+        mode: result.syncType,
+        status: result.status,
+        syncLogId: result.syncLogId,
+        jobsProcessed: result.jobsProcessed,
+        counts: result.counts,
+        fetchErrors: result.fetchErrors,
+        message: result.status === "partial"
+          ? `Synced ${result.jobsProcessed} jobs from ServiceM8 (${result.syncType}) with errors - existing values were kept where data couldn't be fetched`
+          : `Successfully synced ${result.jobsProcessed} jobs from ServiceM8 (${result.syncType})`
+      });
     } catch (error: any) {
       console.error("Error during ServiceM8 sync:", error);
       res.status(500).json({ error: "Failed to sync with ServiceM8", message: error.message });
@@ -564,27 +736,85 @@ export async function registerRoutes(
   });
 
   // Get sync status
-  app.get("/api/sync/status", async (req, res) => {
+  app.get("/api/sync/status", requirePermission("sync.run"), async (req, res) => {
     try {
       const latestSync = await storage.getLatestSyncLog();
-      res.json(latestSync || { message: "No sync history" });
+      res.json({ ...(latestSync || { message: "No sync history" }), serviceM8Api: getCircuitState() });
     } catch (error) {
       console.error("Error fetching sync status:", error);
       res.status(500).json({ error: "Failed to fetch sync status" });
     }
   });
 
-  // Send SMS via ServiceM8 messaging API
-  app.post("/api/messaging/sms", async (req, res) => {
+  // Paginated sync history, newest first
+  app.get("/api/sync/history", requirePermission("sync.run"), async (req, res) => {
     try {
-      const { to, message, jobUuid, staffUuid } = req.body;
-      
-      if (!to || !message) {
-        return res.status(400).json({ error: "Missing required fields: to, message" });
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 20, 1), 100);
+      const { items, total } = await storage.getSyncLogSummaries(pageSize, (page - 1) * pageSize);
+      res.json({ items, total, page, pageSize });
+    } catch (error) {
+      console.error("Error fetching sync history:", error);
+      res.status(500).json({ error: "Failed to fetch sync history" });
+    }
+  });
+
+  // A single sync with its per-job change report
+  app.get("/api/sync/history/:id", requirePermission("sync.run"), async (req, res) => {
+    try {
+      const log = await storage.getSyncLog(parseInt(req.params.id));
+      if (!log) {
+        return res.status(404).json({ error: "Sync not found" });
+      }
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching sync details:", error);
+      res.status(500).json({ error: "Failed to fetch sync details" });
+    }
+  });
+
+  // Receive ServiceM8 event-subscription callbacks for job, company and note changes
+  app.post("/api/webhooks/servicem8", async (req, res) => {
+    // Checked first, so only ServiceM8 can complete the subscription handshake below
+    if (!verifyWebhookSignature(req.rawBody, req.get("x-servicem8-signature"))) {
+      console.warn("[Webhook] Rejected callback with missing or invalid signature");
+      return res.status(401).json({ error: "Invalid webhook signature" });
+    }
+
+    // ServiceM8 confirms a new subscription by posting a challenge that must be echoed back
+    if (req.body?.mode === "subscribe" && req.body?.challenge) {
+      return res.type("text/plain").send(String(req.body.challenge));
+    }
+
+    const object = String(req.body?.object || "").toLowerCase();
+    const recordUuids: string[] = (Array.isArray(req.body?.entry) ? req.body.entry : [])
+      .map((entry: any) => entry?.uuid)
+      .filter((uuid: unknown): uuid is string => typeof uuid === "string" && uuid.length > 0);
+
+    try {
+      const result = await runWebhookSync(object, recordUuids);
+      if (!result) {
+        return res.status(400).json({ error: "ServiceM8 not configured. Please set SERVICEM8_API_KEY environment variable." });
+      }
+      if (result.status === "error") {
+        return res.status(500).json({ error: "Failed to process webhook", message: result.errorMessage });
       }
 
+      console.log(`[Webhook] ${object} callback updated ${result.jobsProcessed} job(s)`);
+      res.json({ success: true, jobsProcessed: result.jobsProcessed });
+    } catch (error: any) {
+      console.error("[Webhook] Error processing callback:", error);
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  });
+
+  // Send SMS via ServiceM8 messaging API
+  app.post("/api/messaging/sms", requirePermission("messages.send"), validateBody(smsSchema), async (req, res) => {
+    try {
+      const { to, message, jobUuid, staffUuid }: SmsRequest = req.body;
+
       // Validate phone number format (should be E.164 with + prefix)
-      let phoneNumber = to.trim();
+      let phoneNumber = to;
       if (!phoneNumber.startsWith('+')) {
         // Assume Australian number if no country code
         phoneNumber = phoneNumber.replace(/^0/, '+61');
@@ -624,7 +854,7 @@ export async function registerRoutes(
       }
 
       // Send SMS via ServiceM8 platform SMS API
-      const smsResponse = await fetch("https://api.servicem8.com/platform_service_sms", {
+      const smsResponse = await fetch(`${SERVICEM8_BASE_URL}/platform_service_sms`, {
         method: "POST",
         headers,
         body: JSON.stringify(payload),
@@ -658,19 +888,9 @@ export async function registerRoutes(
   });
 
   // Send Email via ServiceM8 messaging API
-  app.post("/api/messaging/email", async (req, res) => {
+  app.post("/api/messaging/email", requirePermission("messages.send"), validateBody(emailSchema), async (req, res) => {
     try {
-      const { to, subject, body, jobUuid, staffUuid } = req.body;
-
-      if (!to || !subject || !body) {
-        return res.status(400).json({ error: "Missing required fields: to, subject, body" });
-      }
-
-      // Validate email format
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(to)) {
-        return res.status(400).json({ error: "Invalid email address format" });
-      }
+      const { to, subject, body, jobUuid, staffUuid }: EmailRequest = req.body;
 
       const token = await getValidOAuthToken();
       if (!token) {
@@ -704,7 +924,7 @@ export async function registerRoutes(
       }
 
       // Send email via ServiceM8 platform email API
-      const emailResponse = await fetch("https://api.servicem8.com/platform_service_email", {
+      const emailResponse = await fetch(`${SERVICEM8_BASE_URL}/platform_service_email`, {
         method: "POST",
         headers,
         body: JSON.stringify(payload),
@@ -737,7 +957,7 @@ export async function registerRoutes(
   });
 
   // Debug endpoint to test custom fields API
-  app.get("/api/debug/custom-fields", async (req, res) => {
+  app.get("/api/debug/custom-fields", requirePermission("system.manage"), async (req, res) => {
     try {
       const sm8Client = createServiceM8Client();
       if (!sm8Client) {
@@ -763,7 +983,7 @@ export async function registerRoutes(
   });
 
   // Get enriched job cards with company info and contacts from ServiceM8
-  app.get("/api/jobCards", async (req, res) => {
+  app.get("/api/jobCards", requirePermission("jobs.view"), async (req, res) => {
     try {
       const token = await getValidOAuthToken();
       if (!token) {
@@ -773,75 +993,16 @@ export async function registerRoutes(
         });
       }
 
-      const baseUrl = "https://api.servicem8.com/api_1.0";
-      const headers = {
-        "Authorization": `Bearer ${token.accessToken}`,
-        "Accept": "application/json",
-      };
-
-      // Fetch all jobs, companies, and company contacts in parallel
-      const [jobsResponse, companiesResponse, contactsResponse] = await Promise.all([
-        fetch(`${baseUrl}/job.json?%24filter=active%20eq%201&%24top=1000`, { headers }),
-        fetch(`${baseUrl}/company.json?%24top=5000`, { headers }),
-        fetch(`${baseUrl}/companycontact.json?%24top=5000`, { headers }),
+      // Fetch all jobs, companies, and company contacts in parallel, paging through each list
+      const sm8Client = createServiceM8OAuthClient(token.accessToken);
+      const [jobs, companyMap, contactsMap] = await Promise.all([
+        sm8Client.fetchJobs(),
+        sm8Client.fetchAllCompaniesFull(),
+        sm8Client.fetchAllCompanyContacts(),
       ]);
 
-      if (!jobsResponse.ok) {
-        console.error("Failed to fetch jobs:", jobsResponse.status);
-        return res.status(jobsResponse.status).json({ error: "Failed to fetch jobs from ServiceM8" });
-      }
-
-      const jobs = await jobsResponse.json();
-      const companies = companiesResponse.ok ? await companiesResponse.json() : [];
-      const contacts = contactsResponse.ok ? await contactsResponse.json() : [];
-
-      // Build company map
-      const companyMap = new Map<string, {
-        uuid: string;
-        name: string;
-        email: string;
-        phone: string;
-        mobile: string;
-      }>();
-      for (const c of companies) {
-        if (c.uuid) {
-          companyMap.set(c.uuid, {
-            uuid: c.uuid,
-            name: c.name || c.company_name || "Unknown",
-            email: c.email || "",
-            phone: c.phone || "",
-            mobile: c.mobile || "",
-          });
-        }
-      }
-
-      // Build contacts map grouped by company_uuid
-      const contactsMap = new Map<string, Array<{
-        uuid: string;
-        name: string;
-        email: string;
-        mobile: string;
-        phone: string;
-        isPrimary: boolean;
-      }>>();
-      for (const c of contacts) {
-        if (c.company_uuid) {
-          const contact = {
-            uuid: c.uuid || "",
-            name: [c.first, c.last].filter(Boolean).join(" ") || "Unknown",
-            email: c.email || "",
-            mobile: c.mobile || "",
-            phone: c.phone || "",
-            isPrimary: c.is_primary === 1 || c.is_primary === true,
-          };
-          const existing = contactsMap.get(c.company_uuid) || [];
-          existing.push(contact);
-          contactsMap.set(c.company_uuid, existing);
-        }
-      }
-
       // Enrich each job with company info
-      const jobCards = jobs.map((job: any) => {
+      const jobCards = jobs.map((job) => {
         const companyUuid = job.company_uuid;
         const company = companyUuid ? companyMap.get(companyUuid) : null;
         const companyContacts = companyUuid ? contactsMap.get(companyUuid) || [] : [];
@@ -879,7 +1040,7 @@ export async function registerRoutes(
   });
 
   // Get company info for a specific job
-  app.get("/api/servicem8/job-company/:jobUuid", async (req, res) => {
+  app.get("/api/servicem8/job-company/:jobUuid", requirePermission("jobs.view"), async (req, res) => {
     try {
       const { jobUuid } = req.params;
       
@@ -888,7 +1049,7 @@ export async function registerRoutes(
         return res.status(401).json({ error: "ServiceM8 not connected" });
       }
 
-      const baseUrl = "https://api.servicem8.com/api_1.0";
+      const baseUrl = SERVICEM8_API_URL;
       const headers = {
         "Authorization": `Bearer ${token.accessToken}`,
         "Accept": "application/json",
@@ -944,7 +1105,7 @@ export async function registerRoutes(
   // ============ ServiceM8 OAuth 2.0 Routes ============
 
   // Get OAuth status (check if we have a valid token)
-  app.get("/api/auth/servicem8/status", async (req, res) => {
+  app.get("/api/auth/servicem8/status", requirePermission("settings.edit"), async (req, res) => {
     try {
       const token = await storage.getOAuthToken("servicem8");
       if (!token) {
@@ -970,8 +1131,25 @@ export async function registerRoutes(
     return `https://${req.get('host')}`;
   };
 
+  // A random OAuth state kept in the signed-in admin's session, so a callback is only accepted from
+  // the browser that started the flow and not with a code from someone else's ServiceM8 account
+  const newOAuthState = (req: Request): string => {
+    const state = randomBytes(16).toString("hex");
+    req.session.servicem8OAuthState = state;
+    return state;
+  };
+
+  // Whether the callback's state is the one this session started with. Each state is used once.
+  const oauthStateMatches = (req: Request): boolean => {
+    const expected = req.session.servicem8OAuthState;
+    delete req.session.servicem8OAuthState;
+    const { state } = req.query;
+    return !!expected && typeof state === "string" && state.length === expected.length
+      && timingSafeEqual(Buffer.from(state), Buffer.from(expected));
+  };
+
   // Start OAuth flow - redirect to ServiceM8 authorization (API route)
-  app.get("/api/auth/servicem8/login", (req, res) => {
+  app.get("/api/auth/servicem8/login", requirePermission("system.manage"), (req, res) => {
     if (!SM8_OAUTH_CONFIG.clientId) {
       return res.status(400).json({ error: "ServiceM8 OAuth not configured. Missing SERVICEM8_CLIENT_ID." });
     }
@@ -982,13 +1160,14 @@ export async function registerRoutes(
     authUrl.searchParams.set("client_id", SM8_OAUTH_CONFIG.clientId);
     authUrl.searchParams.set("redirect_uri", redirectUri);
     authUrl.searchParams.set("scope", SM8_OAUTH_CONFIG.scopes);
+    authUrl.searchParams.set("state", newOAuthState(req));
 
     console.log("Redirecting to ServiceM8 OAuth:", authUrl.toString());
     res.redirect(authUrl.toString());
   });
 
   // ServiceM8 addon activation URL - starts OAuth flow
-  app.get("/connect/servicem8", (req, res) => {
+  app.get("/connect/servicem8", requirePermission("system.manage"), (req, res) => {
     if (!SM8_OAUTH_CONFIG.clientId) {
       return res.status(400).send("ServiceM8 OAuth not configured. Missing SERVICEM8_CLIENT_ID.");
     }
@@ -999,13 +1178,14 @@ export async function registerRoutes(
     authUrl.searchParams.set("client_id", SM8_OAUTH_CONFIG.clientId);
     authUrl.searchParams.set("redirect_uri", redirectUri);
     authUrl.searchParams.set("scope", SM8_OAUTH_CONFIG.scopes);
+    authUrl.searchParams.set("state", newOAuthState(req));
 
     console.log("ServiceM8 addon connect - redirecting to OAuth:", authUrl.toString());
     res.redirect(authUrl.toString());
   });
 
   // OAuth callback - exchange code for tokens (non-API route for ServiceM8 addon)
-  app.get("/auth/servicem8/callback", async (req, res) => {
+  app.get("/auth/servicem8/callback", requirePermission("system.manage"), async (req, res) => {
     console.log("OAuth callback received:", req.query);
     const { code, error: oauthError } = req.query;
 
@@ -1014,6 +1194,11 @@ export async function registerRoutes(
       return res.redirect("/?oauth_error=" + encodeURIComponent(String(oauthError)));
     }
 
+    if (!oauthStateMatches(req)) {
+      console.error("OAuth callback state doesn't match this session");
+      return res.redirect("/?oauth_error=invalid_state");
+    }
+
     if (!code) {
       console.error("No code in OAuth callback");
       return res.redirect("/?oauth_error=no_code");
@@ -1078,7 +1263,7 @@ export async function registerRoutes(
   });
 
   // OAuth callback - API route (redirects to non-API route)
-  app.get("/api/auth/servicem8/callback", async (req, res) => {
+  app.get("/api/auth/servicem8/callback", requirePermission("system.manage"), async (req, res) => {
     const { code, error: oauthError } = req.query;
 
     if (oauthError) {
@@ -1086,6 +1271,11 @@ export async function registerRoutes(
       return res.redirect("/?oauth_error=" + encodeURIComponent(String(oauthError)));
     }
 
+    if (!oauthStateMatches(req)) {
+      console.error("OAuth callback state doesn't match this session");
+      return res.redirect("/?oauth_error=invalid_state");
+    }
+
     if (!code) {
       return res.redirect("/?oauth_error=no_code");
     }
@@ -1138,7 +1328,7 @@ export async function registerRoutes(
   });
 
   // Debug endpoint to check OAuth config (runtime values)
-  app.get("/api/debug/oauth-config", (req, res) => {
+  app.get("/api/debug/oauth-config", requirePermission("system.manage"), (req, res) => {
     res.json({
       clientIdPresent: !!SM8_OAUTH_CONFIG.clientId,
       clientIdLength: SM8_OAUTH_CONFIG.clientId?.length || 0,
@@ -1151,7 +1341,7 @@ export async function registerRoutes(
 
   // ============== COMPREHENSIVE COMMUNICATION DEBUG ENDPOINT ==============
   // This endpoint shows ALL raw communication data from ServiceM8 for a job
-  app.get("/api/debug/job-communications/:jobUuid", async (req, res) => {
+  app.get("/api/debug/job-communications/:jobUuid", requirePermission("system.manage"), async (req, res) => {
     const { jobUuid } = req.params;
     const debugData: Record<string, any> = {
       jobUuid,
@@ -1180,7 +1370,7 @@ export async function registerRoutes(
       // 1. Fetch feeditems (activity feed - emails, SMS, etc)
       try {
         const feedRes = await fetch(
-          `https://api.servicem8.com/api_1.0/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
+          `${SERVICEM8_API_URL}/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
           { headers }
         );
         if (feedRes.ok) {
@@ -1209,7 +1399,7 @@ export async function registerRoutes(
       // 2. Fetch jobactivity
       try {
         const activityRes = await fetch(
-          `https://api.servicem8.com/api_1.0/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
+          `${SERVICEM8_API_URL}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
           { headers }
         );
         if (activityRes.ok) {
@@ -1236,7 +1426,7 @@ export async function registerRoutes(
       // 3. Fetch notes
       try {
         const notesRes = await fetch(
-          `https://api.servicem8.com/api_1.0/note.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
+          `${SERVICEM8_API_URL}/note.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
           { headers }
         );
         if (notesRes.ok) {
@@ -1264,7 +1454,7 @@ export async function registerRoutes(
       // 4. Try smslog endpoint (if it exists)
       try {
         const smsRes = await fetch(
-          `https://api.servicem8.com/api_1.0/smslog.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
+          `${SERVICEM8_API_URL}/smslog.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
           { headers }
         );
         if (smsRes.ok) {
@@ -1284,7 +1474,7 @@ export async function registerRoutes(
       // 5. Try emaillog endpoint (if it exists)
       try {
         const emailRes = await fetch(
-          `https://api.servicem8.com/api_1.0/emaillog.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
+          `${SERVICEM8_API_URL}/emaillog.json?%24filter=job_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=50`,
           { headers }
         );
         if (emailRes.ok) {
@@ -1304,7 +1494,7 @@ export async function registerRoutes(
       // 6. Try queue endpoint for SMS queue
       try {
         const queueRes = await fetch(
-          `https://api.servicem8.com/api_1.0/queue.json?%24top=10`,
+          `${SERVICEM8_API_URL}/queue.json?%24top=10`,
           { headers }
         );
         if (queueRes.ok) {
@@ -1329,7 +1519,7 @@ export async function registerRoutes(
   });
 
   // Debug endpoint to see ALL feeditems (to understand what types ServiceM8 uses)
-  app.get("/api/debug/all-feeditems", async (req, res) => {
+  app.get("/api/debug/all-feeditems", requirePermission("system.manage"), async (req, res) => {
     try {
       const token = await getValidOAuthToken();
       const apiKey = process.env.SERVICEM8_API_KEY;
@@ -1343,7 +1533,7 @@ export async function registerRoutes(
         : { "X-API-Key": apiKey!, "Content-Type": "application/json" };
 
       const feedRes = await fetch(
-        `https://api.servicem8.com/api_1.0/feeditem.json?%24orderby=timestamp%20desc&%24top=100`,
+        `${SERVICEM8_API_URL}/feeditem.json?%24orderby=timestamp%20desc&%24top=100`,
         { headers }
       );
 
@@ -1379,7 +1569,7 @@ export async function registerRoutes(
   });
 
   // Fetch Job Activity/Diary - try API key first, fallback to OAuth
-  app.get("/api/servicem8/job-activity/:jobUuid", async (req, res) => {
+  app.get("/api/servicem8/job-activity/:jobUuid", requirePermission("jobs.view"), async (req, res) => {
     const { jobUuid } = req.params;
     const apiKey = process.env.SERVICEM8_API_KEY;
     
@@ -1387,13 +1577,13 @@ export async function registerRoutes(
       // Try API key first (more reliable)
       if (apiKey) {
         const [activitiesRes, notesRes, feedRes] = await Promise.all([
-          fetch(`https://api.servicem8.com/api_1.0/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`, {
+          fetch(`${SERVICEM8_API_URL}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`, {
             headers: { "X-API-Key": apiKey, "Content-Type": "application/json" }
           }),
-          fetch(`https://api.servicem8.com/api_1.0/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`, {
+          fetch(`${SERVICEM8_API_URL}/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`, {
             headers: { "X-API-Key": apiKey, "Content-Type": "application/json" }
           }),
-          fetch(`https://api.servicem8.com/api_1.0/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=100`, {
+          fetch(`${SERVICEM8_API_URL}/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc&%24top=100`, {
             headers: { "X-API-Key": apiKey, "Content-Type": "application/json" }
           })
         ]);
@@ -1437,7 +1627,7 @@ export async function registerRoutes(
       }
 
       const response = await fetch(
-        `https://api.servicem8.com/api_1.0/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
+        `${SERVICEM8_API_URL}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
         {
           headers: {
             "Authorization": `Bearer ${token.accessToken}`,
@@ -1462,7 +1652,7 @@ export async function registerRoutes(
   });
 
   // Fetch Job Notes using OAuth token (with auto-refresh)
-  app.get("/api/servicem8/job-notes/:jobUuid", async (req, res) => {
+  app.get("/api/servicem8/job-notes/:jobUuid", requirePermission("jobs.view"), async (req, res) => {
     try {
       const token = await getValidOAuthToken();
       if (!token) {
@@ -1471,7 +1661,7 @@ export async function registerRoutes(
 
       const { jobUuid } = req.params;
       const response = await fetch(
-        `https://api.servicem8.com/api_1.0/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`,
+        `${SERVICEM8_API_URL}/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`,
         {
           headers: {
             "Authorization": `Bearer ${token.accessToken}`,
@@ -1498,7 +1688,7 @@ export async function registerRoutes(
   });
 
   // Fetch all notes from ServiceM8 (for testing/debugging)
-  app.get("/api/servicem8/all-notes", async (req, res) => {
+  app.get("/api/servicem8/all-notes", requirePermission("system.manage"), async (req, res) => {
     try {
       const token = await storage.getOAuthToken("servicem8");
       if (!token) {
@@ -1506,7 +1696,7 @@ export async function registerRoutes(
       }
 
       const response = await fetch(
-        `https://api.servicem8.com/api_1.0/note.json?%24top=50`,
+        `${SERVICEM8_API_URL}/note.json?%24top=50`,
         {
           headers: {
             "Authorization": `Bearer ${token.accessToken}`,
@@ -1530,7 +1720,7 @@ export async function registerRoutes(
   });
 
   // Debug endpoint to check raw job data from ServiceM8
-  app.get("/api/servicem8/raw-job/:jobId", async (req, res) => {
+  app.get("/api/servicem8/raw-job/:jobId", requirePermission("system.manage"), async (req, res) => {
     try {
       const token = await getValidOAuthToken();
       if (!token) {
@@ -1540,7 +1730,7 @@ export async function registerRoutes(
       const { jobId } = req.params;
       // Find job by generated_job_id
       const response = await fetch(
-        `https://api.servicem8.com/api_1.0/job.json?%24filter=generated_job_id%20eq%20'${jobId}'`,
+        `${SERVICEM8_API_URL}/job.json?%24filter=generated_job_id%20eq%20'${jobId}'`,
         {
           headers: {
             "Authorization": `Bearer ${token.accessToken}`,
@@ -1578,7 +1768,7 @@ export async function registerRoutes(
   });
 
   // Fetch combined job communication history (activities + notes)
-  app.get("/api/servicem8/job-history/:jobUuid", async (req, res) => {
+  app.get("/api/servicem8/job-history/:jobUuid", requirePermission("jobs.view"), async (req, res) => {
     try {
       const token = await storage.getOAuthToken("servicem8");
       if (!token) {
@@ -1590,7 +1780,7 @@ export async function registerRoutes(
       // Fetch both activities and notes in parallel
       const [activitiesRes, notesRes] = await Promise.all([
         fetch(
-          `https://api.servicem8.com/api_1.0/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
+          `${SERVICEM8_API_URL}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
           {
             headers: {
               "Authorization": `Bearer ${token.accessToken}`,
@@ -1599,7 +1789,7 @@ export async function registerRoutes(
           }
         ),
         fetch(
-          `https://api.servicem8.com/api_1.0/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`,
+          `${SERVICEM8_API_URL}/note.json?%24filter=related_object%20eq%20'job'%20and%20related_object_uuid%20eq%20'${jobUuid}'`,
           {
             headers: {
               "Authorization": `Bearer ${token.accessToken}`,
@@ -1624,7 +1814,7 @@ export async function registerRoutes(
   });
 
   // Fetch job contact info for SMS/email
-  app.get("/api/servicem8/job-contact/:jobUuid", async (req, res) => {
+  app.get("/api/servicem8/job-contact/:jobUuid", requirePermission("jobs.view"), async (req, res) => {
     try {
       const token = await getValidOAuthToken();
       if (!token) {
@@ -1635,7 +1825,7 @@ export async function registerRoutes(
       
       // Fetch job contacts
       const contactRes = await fetch(
-        `https://api.servicem8.com/api_1.0/jobcontact.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
+        `${SERVICEM8_API_URL}/jobcontact.json?%24filter=job_uuid%20eq%20'${jobUuid}'`,
         {
           headers: {
             "Authorization": `Bearer ${token.accessToken}`,
@@ -1671,7 +1861,7 @@ export async function registerRoutes(
   // ============== WORK TYPES API ==============
   
   // Get all work types
-  app.get("/api/work-types", async (req, res) => {
+  app.get("/api/work-types", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const workTypes = await storage.getAllWorkTypes();
       res.json(workTypes);
@@ -1682,7 +1872,7 @@ export async function registerRoutes(
   });
 
   // Get a single work type with its stages
-  app.get("/api/work-types/:id", async (req, res) => {
+  app.get("/api/work-types/:id", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.id);
       const workType = await storage.getWorkType(workTypeId);
@@ -1698,25 +1888,21 @@ export async function registerRoutes(
   });
 
   // Create a work type
-  app.post("/api/work-types", async (req, res) => {
+  app.post("/api/work-types", requirePermission("workTypes.edit"), validateBody(workTypeCreateSchema), async (req, res) => {
     try {
-      const validated = insertWorkTypeSchema.parse(req.body);
-      const workType = await storage.createWorkType(validated);
+      const workType = await storage.createWorkType(req.body, userActor(req.user!));
       res.status(201).json(workType);
     } catch (error) {
       console.error("Error creating work type:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
       res.status(500).json({ error: "Failed to create work type" });
     }
   });
 
   // Update a work type
-  app.patch("/api/work-types/:id", async (req, res) => {
+  app.patch("/api/work-types/:id", requirePermission("workTypes.edit"), validateBody(workTypeUpdateSchema), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.id);
-      const updated = await storage.updateWorkType(workTypeId, req.body);
+      const updated = await storage.updateWorkType(workTypeId, req.body, userActor(req.user!));
       if (!updated) {
         return res.status(404).json({ error: "Work type not found" });
       }
@@ -1728,10 +1914,10 @@ export async function registerRoutes(
   });
 
   // Delete a work type
-  app.delete("/api/work-types/:id", async (req, res) => {
+  app.delete("/api/work-types/:id", requirePermission("workTypes.edit"), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.id);
-      await storage.deleteWorkType(workTypeId);
+      await storage.deleteWorkType(workTypeId, userActor(req.user!));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting work type:", error);
@@ -1742,7 +1928,7 @@ export async function registerRoutes(
   // ============== WORK TYPE STAGES API ==============
 
   // Get stages for a work type
-  app.get("/api/work-types/:workTypeId/stages", async (req, res) => {
+  app.get("/api/work-types/:workTypeId/stages", requirePermission("jobs.view", "scheduler.view"), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.workTypeId);
       const stages = await storage.getStagesForWorkType(workTypeId);
@@ -1754,26 +1940,22 @@ export async function registerRoutes(
   });
 
   // Create a stage for a work type
-  app.post("/api/work-types/:workTypeId/stages", async (req, res) => {
+  app.post("/api/work-types/:workTypeId/stages", requirePermission("workTypes.edit"), validateBody(workTypeStageCreateSchema), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.workTypeId);
-      const validated = insertWorkTypeStageSchema.parse({ ...req.body, workTypeId });
-      const stage = await storage.createWorkTypeStage(validated);
+      const stage = await storage.createWorkTypeStage({ ...req.body, workTypeId }, userActor(req.user!));
       res.status(201).json(stage);
     } catch (error) {
       console.error("Error creating stage:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: error.errors });
-      }
       res.status(500).json({ error: "Failed to create stage" });
     }
   });
 
   // Update a stage
-  app.patch("/api/work-types/:workTypeId/stages/:stageId", async (req, res) => {
+  app.patch("/api/work-types/:workTypeId/stages/:stageId", requirePermission("workTypes.edit"), validateBody(workTypeStageUpdateSchema), async (req, res) => {
     try {
       const stageId = parseInt(req.params.stageId);
-      const updated = await storage.updateWorkTypeStage(stageId, req.body);
+      const updated = await storage.updateWorkTypeStage(stageId, req.body, userActor(req.user!));
       if (!updated) {
         return res.status(404).json({ error: "Stage not found" });
       }
@@ -1785,10 +1967,10 @@ export async function registerRoutes(
   });
 
   // Delete a stage
-  app.delete("/api/work-types/:workTypeId/stages/:stageId", async (req, res) => {
+  app.delete("/api/work-types/:workTypeId/stages/:stageId", requirePermission("workTypes.edit"), async (req, res) => {
     try {
       const stageId = parseInt(req.params.stageId);
-      await storage.deleteWorkTypeStage(stageId);
+      await storage.deleteWorkTypeStage(stageId, userActor(req.user!));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting stage:", error);
@@ -1797,14 +1979,11 @@ export async function registerRoutes(
   });
 
   // Reorder stages
-  app.post("/api/work-types/:workTypeId/stages/reorder", async (req, res) => {
+  app.post("/api/work-types/:workTypeId/stages/reorder", requirePermission("workTypes.edit"), validateBody(reorderStagesSchema), async (req, res) => {
     try {
       const workTypeId = parseInt(req.params.workTypeId);
       const { stageIds } = req.body;
-      if (!Array.isArray(stageIds)) {
-        return res.status(400).json({ error: "stageIds must be an array" });
-      }
-      await storage.reorderStages(workTypeId, stageIds);
+      await storage.reorderStages(workTypeId, stageIds, userActor(req.user!));
       const stages = await storage.getStagesForWorkType(workTypeId);
       res.json(stages);
     } catch (error) {
@@ -1816,7 +1995,7 @@ export async function registerRoutes(
   // ============== JOB STAGE PROGRESS API ==============
 
   // Get stage progress for a job
-  app.get("/api/jobs/:jobId/stage-progress", async (req, res) => {
+  app.get("/api/jobs/:jobId/stage-progress", requirePermission("jobs.view", "scheduler.view"), requireVisibleJob, async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const progress = await storage.getJobStageProgress(jobId);
@@ -1828,29 +2007,30 @@ export async function registerRoutes(
   });
 
   // Update stage progress for a job
-  app.patch("/api/jobs/:jobId/stage-progress/:stageId", async (req, res) => {
+  app.patch("/api/jobs/:jobId/stage-progress/:stageId", requireStageAccess, validateBody(stageProgressUpdateSchema), async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const stageId = parseInt(req.params.stageId);
-      const updated = await storage.updateJobStageProgress(jobId, stageId, req.body);
+      const { expectedVersion, ...updates }: StageProgressUpdate = req.body;
+      const updated = await storage.updateJobStageProgress(jobId, stageId, updates, userActor(req.user!), expectedVersion);
       if (!updated) {
         return res.status(404).json({ error: "Stage progress not found" });
       }
       res.json(updated);
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        return res.status(409).json({ error: "Stage was changed by someone else", current: error.current });
+      }
       console.error("Error updating job stage progress:", error);
       res.status(500).json({ error: "Failed to update job stage progress" });
     }
   });
 
   // Initialize stages for a job when work type is assigned
-  app.post("/api/jobs/:jobId/initialize-stages", async (req, res) => {
+  app.post("/api/jobs/:jobId/initialize-stages", requireStageAccess, validateBody(initializeStagesSchema), async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const { workTypeId } = req.body;
-      if (!workTypeId) {
-        return res.status(400).json({ error: "workTypeId is required" });
-      }
       await storage.initializeJobStages(jobId, workTypeId);
       const progress = await storage.getJobStageProgress(jobId);
       res.json(progress);
@@ -1861,7 +2041,7 @@ export async function registerRoutes(
   });
 
   // Start timer for a task/stage
-  app.post("/api/jobs/:jobId/stages/:stageId/timer/start", async (req, res) => {
+  app.post("/api/jobs/:jobId/stages/:stageId/timer/start", requireStageAccess, async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const stageId = parseInt(req.params.stageId);
@@ -1869,7 +2049,7 @@ export async function registerRoutes(
       // Ensure stage progress record exists
       await storage.getOrCreateStageProgress(jobId, stageId);
       
-      const result = await storage.startTimer(jobId, stageId);
+      const result = await storage.startTimer(jobId, stageId, userActor(req.user!));
       if (!result) {
         return res.status(404).json({ error: "Stage progress not found" });
       }
@@ -1881,11 +2061,11 @@ export async function registerRoutes(
   });
 
   // Stop timer for a task/stage
-  app.post("/api/jobs/:jobId/stages/:stageId/timer/stop", async (req, res) => {
+  app.post("/api/jobs/:jobId/stages/:stageId/timer/stop", requireStageAccess, async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const stageId = parseInt(req.params.stageId);
-      const result = await storage.stopTimer(jobId, stageId);
+      const result = await storage.stopTimer(jobId, stageId, userActor(req.user!));
       if (!result) {
         return res.status(404).json({ error: "Stage progress not found" });
       }
@@ -1897,7 +2077,7 @@ export async function registerRoutes(
   });
 
   // Get timer status for all stages of a job
-  app.get("/api/jobs/:jobId/timers", async (req, res) => {
+  app.get("/api/jobs/:jobId/timers", requirePermission("jobs.view", "scheduler.view"), requireVisibleJob, async (req, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
       const progress = await storage.getJobStageProgress(jobId);
@@ -1929,125 +2109,15 @@ export async function registerRoutes(
   return httpServer;
 }
 
-// Auto-sync function that runs periodically
-async function runAutoSync() {
-  try {
-    const sm8Client = createServiceM8Client();
-    if (!sm8Client) {
-      console.log("[AutoSync] ServiceM8 not configured, skipping sync");
-      return;
-    }
-
-    console.log("[AutoSync] Starting automatic sync...");
-    
-    const syncLog = await storage.createSyncLog({
-      syncType: "automatic",
-      status: "in_progress",
-      startedAt: new Date(),
-      jobsProcessed: 0,
-    });
-
-    let jobsProcessed = 0;
-
-    try {
-      // Bulk fetch all data in parallel (including custom fields for staff assignment)
-      const [sm8Jobs, contactMap, companyMap, customFieldMap, notesMap, clientContactMap] = await Promise.all([
-        sm8Client.fetchJobs(),
-        sm8Client.fetchAllJobContacts(),
-        sm8Client.fetchAllCompanies(),
-        sm8Client.fetchAllJobCustomFields(),
-        sm8Client.fetchAllJobNotes(),
-        sm8Client.fetchLastClientContact() // NEW: fetch when CLIENT last contacted us
-      ]);
-
-      for (const sm8Job of sm8Jobs) {
-        // Get customer name: prioritize company name, then job contact
-        let customerName = "Unknown Customer";
-
-        // First try company name (this is the main customer record in ServiceM8)
-        if (sm8Job.company_uuid) {
-          const companyName = companyMap.get(sm8Job.company_uuid);
-          if (companyName) {
-            customerName = companyName;
-          }
-        }
-
-        // Fall back to job contact name if no company
-        if (customerName === "Unknown Customer") {
-          const contact = contactMap.get(sm8Job.uuid);
-          if (contact && (contact.first || contact.last)) {
-            customerName = `${contact.first} ${contact.last}`.trim();
-          }
-        }
-
-        const mappedJob = sm8Client.mapServiceM8JobToInsertJob(sm8Job, customerName, customFieldMap);
-
-        // Add communication history (any direction - inbound or outbound)
-        const lastComm = notesMap.get(sm8Job.uuid);
-        if (lastComm) {
-          (mappedJob as any).lastCommunicationDate = lastComm.date;
-          (mappedJob as any).lastCommunicationType = lastComm.type;
-          (mappedJob as any).lastCommunicationDirection = lastComm.direction;
-          const daysSince = Math.floor((Date.now() - lastComm.date.getTime()) / (1000 * 60 * 60 * 24));
-          mappedJob.daysSinceLastContact = daysSince;
-        } else {
-          (mappedJob as any).lastCommunicationDate = null;
-          (mappedJob as any).lastCommunicationType = null;
-          (mappedJob as any).lastCommunicationDirection = null;
-          mappedJob.daysSinceLastContact = null;
-        }
-
-        // NEW: Add CLIENT contact tracking (inbound only - when client contacted US)
-        const lastClientContact = clientContactMap.get(sm8Job.uuid);
-        if (lastClientContact) {
-          (mappedJob as any).lastClientContactDate = lastClientContact.date;
-          (mappedJob as any).lastClientContactType = lastClientContact.type;
-          const daysSinceClient = Math.floor((Date.now() - lastClientContact.date.getTime()) / (1000 * 60 * 60 * 24));
-          (mappedJob as any).daysSinceClientContact = daysSinceClient;
-        } else {
-          (mappedJob as any).lastClientContactDate = null;
-          (mappedJob as any).lastClientContactType = null;
-          (mappedJob as any).daysSinceClientContact = null;
-        }
-
-        await storage.upsertJobByServiceM8Uuid(mappedJob);
-        jobsProcessed++;
-      }
-
-      await storage.updateSyncLog(syncLog.id, {
-        status: "success",
-        jobsProcessed,
-        completedAt: new Date(),
-      });
+// ============== WEBHOOKS ==============
 
-      console.log(`[AutoSync] Successfully synced ${jobsProcessed} jobs`);
-    } catch (syncError: any) {
-      console.error("[AutoSync] Error:", syncError.message);
-      await storage.updateSyncLog(syncLog.id, {
-        status: "error",
-        jobsProcessed,
-        errorMessage: syncError.message,
-        completedAt: new Date(),
-      });
-    }
-  } catch (error: any) {
-    console.error("[AutoSync] Failed:", error.message);
-  }
-}
+// Callbacks are signed with an HMAC-SHA256 of the raw request body, keyed with the webhook secret
+// (falling back to the app secret). The signature may be sent as plain hex or as "sha256=<hex>".
+function verifyWebhookSignature(rawBody: unknown, signature: string | undefined): boolean {
+  const secret = process.env.SERVICEM8_WEBHOOK_SECRET || SM8_OAUTH_CONFIG.clientSecret;
+  if (!secret || !signature || !Buffer.isBuffer(rawBody)) return false;
 
-// Start auto-sync with configurable interval (default: 15 minutes)
-export function startAutoSync(intervalMinutes: number = 15) {
-  const intervalMs = intervalMinutes * 60 * 1000;
-  
-  // Run initial sync after 10 seconds (give server time to start)
-  setTimeout(() => {
-    runAutoSync();
-  }, 10000);
-  
-  // Then run every intervalMinutes
-  setInterval(() => {
-    runAutoSync();
-  }, intervalMs);
-  
-  console.log(`[AutoSync] Scheduled to run every ${intervalMinutes} minutes`);
+  const expected = Buffer.from(createHmac("sha256", secret).update(rawBody).digest("hex"));
+  const provided = Buffer.from(signature.replace(/^sha256=/, "").trim().toLowerCase());
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
 }
@@ -1,5 +1,8 @@
 import { storage } from "./storage";
 import { STAFF_MEMBERS } from "../client/src/lib/mockData";
+import { automationActor } from "./audit";
+
+const SEED_ACTOR = automationActor("Default setup");
 
 export async function seedStaffMembers() {
   console.log("Seeding staff members...");
@@ -25,6 +28,36 @@ export async function seedStaffMembers() {
   console.log("Staff seeding complete");
 }
 
+// Staff used to be kept in the 'staff' app setting. Copy any still there into the staff table, where
+// the local fields saved in settings (role, skills, capacity, colour, ServiceM8 link) win, then drop the setting.
+export async function migrateSettingsStaff() {
+  const settingsStaff = await storage.getAppSetting("staff");
+  if (!Array.isArray(settingsStaff)) return;
+
+  for (const member of settingsStaff) {
+    if (!member?.id || member.id === "all" || !member.name) continue;
+
+    const fields = {
+      name: member.name,
+      role: member.role || "sales",
+      dailyCapacityHours: member.dailyCapacityHours ?? 8,
+      skills: member.skills || [],
+      color: member.color || "bg-gray-500",
+      active: member.active !== false,
+      ...(member.serviceM8Uuid ? { serviceM8Uuid: member.serviceM8Uuid } : {}),
+    };
+    const existing = await storage.getStaffMember(member.id);
+    if (existing) {
+      await storage.updateStaffMember(member.id, fields);
+    } else {
+      await storage.createStaffMember({ id: member.id, ...fields });
+    }
+  }
+
+  await storage.deleteAppSetting("staff", SEED_ACTOR);
+  console.log(`Moved ${settingsStaff.length} staff members from settings to the staff table`);
+}
+
 // Work Types and their stages from CSV export
 const WORK_TYPES_DATA = [
   {
@@ -93,7 +126,7 @@ export async function seedWorkTypes() {
         color: workTypeData.color,
         isDefault: workTypeData.isDefault,
         isActive: true,
-      });
+      }, SEED_ACTOR);
       console.log(`Created work type: ${workType.name} (ID: ${workType.id})`);
     } else {
       console.log(`Work type already exists: ${workType.name} (ID: ${workType.id})`);
@@ -116,7 +149,7 @@ export async function seedWorkTypes() {
           triggersPurchaseOrder: stageData.triggersPurchaseOrder || false,
           triggersScheduler: stageData.triggersScheduler || false,
           subStages: [],
-        });
+        }, SEED_ACTOR);
         console.log(`  Created stage: ${stage.name} (order: ${stage.orderIndex})`);
       } else {
         console.log(`  Stage already exists: ${existingStage.name}`);
@@ -129,6 +162,7 @@ export async function seedWorkTypes() {
 
 export async function seedAll() {
   await seedStaffMembers();
+  await migrateSettingsStaff();
   await seedWorkTypes();
 }
 
@@ -0,0 +1,35 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { createSimulator, type Dataset, type SimulatorOptions } from "../script/servicem8-simulator";
+
+// The client reads SERVICEM8_BASE_URL when it loads, so it's imported once the simulator is listening
+const dataset: Dataset = { jobactivity: [] };
+const options: SimulatorOptions = { port: 0, jobs: 0, seed: 1, failRate: 0, loseResponseRate: 0, latency: 0 };
+const server = createSimulator(dataset, options).listen(0);
+await new Promise(resolve => server.once("listening", resolve));
+process.env.SERVICEM8_BASE_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+const { ServiceM8Client } = await import("./servicem8");
+
+after(() => server.close());
+
+const client = new ServiceM8Client({ apiKey: "sim" });
+const booking = { job_uuid: "job-1", staff_uuid: "staff-1", start_date: "2025-03-06 07:00:00", end_date: "2025-03-06 15:00:00" };
+
+test("a booking POST whose responses are lost is retried without double-booking", async () => {
+  options.loseResponseRate = 1;
+  try {
+    await assert.rejects(client.createJobActivity(booking));
+  } finally {
+    options.loseResponseRate = 0;
+  }
+  assert.equal(dataset.jobactivity.length, 1);
+  assert.equal(dataset.jobactivity[0].staff_uuid, "staff-1");
+});
+
+test("a booking is saved under the uuid it returns", async () => {
+  const uuid = await client.createJobActivity({ ...booking, staff_uuid: "staff-2" });
+  const saved = dataset.jobactivity.filter(activity => activity.uuid === uuid);
+  assert.equal(saved.length, 1);
+  assert.equal(saved[0].staff_uuid, "staff-2");
+});
@@ -1,6 +1,24 @@
-import { type InsertJob, type LifecyclePhase, type SchedulerStage } from "@shared/schema";
-
-interface ServiceM8Job {
+import { type InsertCommunication, type InsertJob, type SyncObjectType } from "@shared/schema";
+import { classifyJob, DEFAULT_STATUS_RULES, type StatusRule } from "@shared/statusRules";
+import { DEFAULT_COMPANY_TIMEZONE, type QuoteAgingBand } from "@shared/companySettings";
+import { applyCustomFieldMappings, DEFAULT_CUSTOM_FIELD_MAPPINGS, type CustomFieldMapping } from "@shared/customFields";
+import { servicem8Request, ServiceM8RequestError } from "./servicem8Request";
+import { SERVICEM8_API_URL } from "./servicem8Config";
+import { randomUUID } from "crypto";
+import {
+  classifyCommunication,
+  DEFAULT_COMM_RULES,
+  emptyContactPoints,
+  normalizeEmail,
+  normalizePhone,
+  toCommItem,
+  type ClassifierContacts,
+  type CommClassification,
+  type CommRule,
+  type ContactPoints,
+} from "./commClassifier";
+
+export interface ServiceM8Job {
   uuid: string;
   generated_job_id: string;
   job_address: string;
@@ -19,50 +37,304 @@ interface ServiceM8Job {
   [key: string]: any;
 }
 
-// ServiceM8 status values that indicate Quote phase
-const QUOTE_STATUSES = ['Quote', 'Lead', 'Estimate', 'Pending', 'Draft'];
-// ServiceM8 status values that indicate Work Order phase  
-const WORK_ORDER_STATUSES = ['Work Order', 'In Progress', 'Scheduled', 'Completed', 'Job Complete'];
+// Age of a sent quote: hours while under a day, whole days after that
+export function calculateQuoteAge(quoteSentAt: Date | null, now: Date = new Date()): {
+  daysSinceQuoteSent: number | null;
+  hoursSinceQuoteSent: number | null;
+} {
+  if (!quoteSentAt) return { daysSinceQuoteSent: null, hoursSinceQuoteSent: null };
 
-export class ServiceM8Client {
-  private baseUrl = "https://api.servicem8.com/api_1.0";
-  private apiKey: string;
+  const diffTime = now.getTime() - quoteSentAt.getTime();
+  const totalHours = Math.floor(diffTime / (1000 * 60 * 60));
+
+  if (totalHours < 24 && totalHours >= 0) {
+    // Less than 24 hours - store hours
+    return { daysSinceQuoteSent: 0, hoursSinceQuoteSent: totalHours };
+  }
+  if (totalHours >= 24) {
+    // 24+ hours - store days
+    return { daysSinceQuoteSent: Math.floor(diffTime / (1000 * 60 * 60 * 24)), hoursSinceQuoteSent: null };
+  }
+  return { daysSinceQuoteSent: null, hoursSinceQuoteSent: null };
+}
+
+// Offset of a timezone from UTC, in ms, at the given instant
+function timeZoneOffset(timeZone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(at));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(at / 1000) * 1000;
+}
+
+// ServiceM8 timestamps ('YYYY-MM-DD HH:mm:ss') are wall-clock time in the account's timezone.
+// Returns null for empty or zero dates. Values that carry their own offset are parsed as-is.
+export function parseServiceM8Date(value: string | null | undefined, timeZone: string = DEFAULT_COMPANY_TIMEZONE): Date | null {
+  const text = value ? String(value).trim() : "";
+  if (!text || text.startsWith("0000-00-00")) return null;
+
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  // Take the offset at the wall-clock time, then again at the result in case that crossed a DST change
+  let utc = wallClock - timeZoneOffset(timeZone, wallClock);
+  utc = wallClock - timeZoneOffset(timeZone, utc);
+  return new Date(utc);
+}
+
+// ServiceM8 stores a job's badges as a JSON array string like '["uuid1","uuid2"]' or comma-separated
+export function parseBadgeUuids(badgesRaw: string | undefined): string[] {
+  if (!badgesRaw) return [];
+
+  try {
+    // Try parsing as JSON array first
+    const parsed = JSON.parse(badgesRaw);
+    return Array.isArray(parsed) ? parsed.map((b: string) => b.trim()).filter((b: string) => b.length > 0) : [];
+  } catch {
+    // Fall back to comma-separated format
+    return badgesRaw.split(',').map((b: string) => b.trim()).filter((b: string) => b.length > 0);
+  }
+}
+
+// Wall-clock time in a timezone, in ServiceM8's 'YYYY-MM-DD HH:mm:ss' format
+export function formatServiceM8Date(date: Date, timeZone: string = DEFAULT_COMPANY_TIMEZONE): string {
+  const local = new Date(date.getTime() + timeZoneOffset(timeZone, date.getTime()));
+  return local.toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Everything besides the job record that goes into mapping it
+export interface JobMappingContext {
+  customerName?: string;
+  customFieldMap?: Map<string, Record<string, string>>;
+  customFieldMappings?: CustomFieldMapping[]; // Defaults to DEFAULT_CUSTOM_FIELD_MAPPINGS
+  badgeDefinitions?: Map<string, string>;
+  statusRules?: StatusRule[]; // Defaults to DEFAULT_STATUS_RULES
+  quoteAgingBands?: QuoteAgingBand[]; // Defaults to DEFAULT_QUOTE_AGING_BANDS
+}
+
+export interface ServiceM8Staff {
+  uuid: string;
+  first?: string;
+  last?: string;
+  email?: string;
+  mobile?: string;
+  active: number; // 1 or 0
+}
+
+// Fields written when booking staff onto a job (start/end are ServiceM8 local time)
+export interface ServiceM8JobActivity {
+  job_uuid: string;
+  staff_uuid: string;
+  start_date: string;
+  end_date: string;
+}
+
+// Records per page when paging through list endpoints. ServiceM8 allows up to 5000.
+const DEFAULT_PAGE_SIZE = 1000;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+// API key for server-side access, or an OAuth access token when acting for a connected account
+export type ServiceM8Credentials = { apiKey: string } | { accessToken: string };
+
+export interface ServiceM8ClientOptions {
+  pageSize?: number;
+  timeZone?: string; // Company timezone that ServiceM8 timestamps are in (default DEFAULT_COMPANY_TIMEZONE)
+}
+
+// Records fetched so far per list endpoint, e.g. { "job.json": 2000, "company.json": 1000 }
+export type FetchCounts = Record<string, number>;
+
+export class ServiceM8Client {
+  private baseUrl = SERVICEM8_API_URL;
+  private credentials: ServiceM8Credentials;
+  private pageSize: number;
+  private timeZone: string;
+  // Latest edit_date seen per object type during this client's lifetime (used as incremental sync cursors)
+  private highWaterMarks = new Map<SyncObjectType, string>();
+  private fetchCounts: FetchCounts = {};
+  private progressListener?: (fetched: FetchCounts) => void;
+  // The feed is read by both fetchAllJobNotes and fetchLastClientContact; share one paged fetch between them
+  private feedItemRequests = new Map<string, Promise<any[]>>();
+  // Contacts and rules the communication classifier uses (see setCommClassifier)
+  private classifierContacts: ClassifierContacts = { staff: emptyContactPoints(), customers: emptyContactPoints() };
+  private commRules: CommRule[] = DEFAULT_COMM_RULES;
+
+  constructor(credentials: ServiceM8Credentials, options: ServiceM8ClientOptions = {}) {
+    this.credentials = credentials;
+    this.pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    this.timeZone = options.timeZone || DEFAULT_COMPANY_TIMEZONE;
   }
 
-  async fetchJobs(limit: number = 1000): Promise<ServiceM8Job[]> {
-    const response = await fetch(`${this.baseUrl}/job.json?%24filter=active%20eq%201&%24top=${limit}`, {
-      headers: {
-        "X-API-Key": this.apiKey,
+  private get headers(): Record<string, string> {
+    if ("accessToken" in this.credentials) {
+      return {
+        "Authorization": `Bearer ${this.credentials.accessToken}`,
         "Content-Type": "application/json",
-      },
-    });
+      };
+    }
+    return {
+      "X-API-Key": this.credentials.apiKey,
+      "Content-Type": "application/json",
+    };
+  }
 
-    if (!response.ok) {
-      throw new Error(`ServiceM8 API Error: ${response.status} ${response.statusText}`);
+  // Fetch every record from a list endpoint, throwing if any page fails. ServiceM8 pages list results with
+  // a cursor: the first request passes cursor=-1 and each response names the next page in its x-next-cursor header.
+  private async fetchAllPages<T = any>(endpoint: string, query: string = "", objectType?: SyncObjectType): Promise<T[]> {
+    const records: T[] = [];
+    let cursor = "-1";
+
+    while (true) {
+      const response = await servicem8Request(`${this.baseUrl}/${endpoint}?${query}%24top=${this.pageSize}&cursor=${encodeURIComponent(cursor)}`, {
+        headers: this.headers,
+      });
+      if (!response.ok) {
+        throw new ServiceM8RequestError(`ServiceM8 API Error: ${response.status} ${response.statusText} (${endpoint})`, response.status);
+      }
+
+      const page: T[] = await response.json();
+      records.push(...page);
+      this.fetchCounts[endpoint] = (this.fetchCounts[endpoint] || 0) + page.length;
+      this.progressListener?.({ ...this.fetchCounts });
+
+      const nextCursor = response.headers.get("x-next-cursor");
+      if (!nextCursor || nextCursor === cursor || page.length === 0) {
+        if (!nextCursor && page.length >= this.pageSize) {
+          console.warn(`[ServiceM8] ${endpoint} returned a full page without a next cursor - results may be incomplete`);
+        }
+        break;
+      }
+      cursor = nextCursor;
     }
 
+    // Only advance high-water marks once every page is in - pages aren't ordered by edit_date
+    if (objectType) this.trackEditDates(objectType, records);
+    return records;
+  }
+
+  // Fetch a single record. Resolves null when it doesn't exist; any other failure throws.
+  private async fetchRecord<T = any>(path: string): Promise<T | null> {
+    const response = await servicem8Request(`${this.baseUrl}/${path}`, { headers: this.headers });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new ServiceM8RequestError(`ServiceM8 API Error: ${response.status} ${response.statusText} (${path})`, response.status);
+    }
     return await response.json();
   }
 
-  async fetchCompany(companyUuid: string): Promise<{ name: string } | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/company/${companyUuid}.json`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return null;
-      const data = await response.json();
-      return { name: data.name || data.company_name || "Unknown" };
-    } catch {
-      return null;
+  // Create a record (POST to the list endpoint) or update one (POST to its record URL). Requests are
+  // retried, so a create carries a uuid chosen here; without one a retry could save it twice.
+  private async saveRecord(path: string, fields: Record<string, unknown>): Promise<void> {
+    const response = await servicem8Request(`${this.baseUrl}/${path}`, {
+      method: "POST",
+      headers: this.headers,
+      body: JSON.stringify(fields),
+    });
+    if (!response.ok) {
+      const detail = await response.json().then((body: any) => body?.message).catch(() => undefined);
+      throw new ServiceM8RequestError(`ServiceM8 API Error: ${response.status} ${detail || response.statusText} (${path})`, response.status);
+    }
+  }
+
+  // Called with running fetch counts after every page, so long syncs can report progress
+  setProgressListener(listener: (fetched: FetchCounts) => void) {
+    this.progressListener = listener;
+  }
+
+  getFetchCounts(): FetchCounts {
+    return { ...this.fetchCounts };
+  }
+
+  // Build the `$filter` part of a query string, adding an edit_date delta when `since` is given. The
+  // cursor is only to the second, so records edited in that same second are fetched again (`ge`, not
+  // `gt`) rather than missed if they were saved after the page was read; syncing them twice is harmless.
+  private filterQuery(clauses: string[], since?: string): string {
+    const allClauses = since ? [...clauses, `edit_date ge '${since}'`] : clauses;
+    if (allClauses.length === 0) return "";
+    return `%24filter=${encodeURIComponent(allClauses.join(" and "))}&`;
+  }
+
+  // Remember the newest edit_date among fetched records so the next sync can resume from it
+  private trackEditDates(objectType: SyncObjectType, records: any[]) {
+    for (const record of records) {
+      const editDate = record?.edit_date;
+      if (!editDate || typeof editDate !== 'string') continue;
+      const current = this.highWaterMarks.get(objectType);
+      // ServiceM8 timestamps are 'YYYY-MM-DD HH:mm:ss', so string comparison orders them correctly
+      if (!current || editDate > current) {
+        this.highWaterMarks.set(objectType, editDate);
+      }
+    }
+  }
+
+  getHighWaterMarks(): Partial<Record<SyncObjectType, string>> {
+    return Object.fromEntries(this.highWaterMarks);
+  }
+
+  // Fetch all active jobs, optionally only those edited since `since` (ServiceM8 edit_date)
+  async fetchJobs(since?: string): Promise<ServiceM8Job[]> {
+    return this.fetchAllPages<ServiceM8Job>("job.json", this.filterQuery(["active eq 1"], since), 'job');
+  }
+
+  async fetchJob(jobUuid: string): Promise<ServiceM8Job | null> {
+    return this.fetchRecord<ServiceM8Job>(`job/${jobUuid}.json`);
+  }
+
+  // Write job fields back to ServiceM8, e.g. { status: "Quote" } or { badges: '["uuid"]' }
+  async updateJob(jobUuid: string, fields: Partial<Pick<ServiceM8Job, "status" | "badges">>): Promise<void> {
+    await this.saveRecord(`job/${jobUuid}.json`, fields);
+  }
+
+  // ============ Job activities (schedule bookings) ============
+
+  // Book a staff member onto a job. Returns the new jobactivity uuid. The uuid is chosen here so the
+  // POST is safe to retry: if a first attempt was saved but its response lost, the retry saves the
+  // same booking again instead of double-booking the crew.
+  async createJobActivity(activity: ServiceM8JobActivity): Promise<string> {
+    const uuid = randomUUID();
+    await this.saveRecord("jobactivity.json", { ...activity, uuid, activity_was_scheduled: 1, active: 1 });
+    return uuid;
+  }
+
+  async updateJobActivity(activityUuid: string, activity: ServiceM8JobActivity): Promise<void> {
+    await this.saveRecord(`jobactivity/${activityUuid}.json`, { ...activity, activity_was_scheduled: 1, active: 1 });
+  }
+
+  // Remove a booking. One that's already gone counts as removed.
+  async deleteJobActivity(activityUuid: string): Promise<void> {
+    const response = await servicem8Request(`${this.baseUrl}/jobactivity/${activityUuid}.json`, {
+      method: "DELETE",
+      headers: this.headers,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new ServiceM8RequestError(`ServiceM8 API Error: ${response.status} ${response.statusText} (jobactivity/${activityUuid}.json)`, response.status);
     }
   }
 
+  // Active jobs belonging to a company (customer)
+  async fetchJobsForCompany(companyUuid: string): Promise<ServiceM8Job[]> {
+    return this.fetchAllPages<ServiceM8Job>("job.json", this.filterQuery(["active eq 1", `company_uuid eq '${companyUuid}'`]));
+  }
+
+  // Fetch a single note - used to find which job a note event belongs to
+  async fetchNote(noteUuid: string): Promise<{ uuid: string; related_object: string; related_object_uuid: string; note: string } | null> {
+    return this.fetchRecord(`note/${noteUuid}.json`);
+  }
+
+  async fetchCompany(companyUuid: string): Promise<{ name: string } | null> {
+    const data = await this.fetchRecord(`company/${companyUuid}.json`);
+    if (!data) return null;
+    return { name: data.name || data.company_name || "Unknown" };
+  }
+
   // Fetch full company record with all contact details
   async fetchCompanyFull(companyUuid: string): Promise<{
     uuid: string;
@@ -71,25 +343,15 @@ export class ServiceM8Client {
     phone: string;
     mobile: string;
   } | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/company/${companyUuid}.json`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return null;
-      const data = await response.json();
-      return {
-        uuid: data.uuid || companyUuid,
-        name: data.name || data.company_name || "Unknown",
-        email: data.email || "",
-        phone: data.phone || "",
-        mobile: data.mobile || "",
-      };
-    } catch {
-      return null;
-    }
+    const data = await this.fetchRecord(`company/${companyUuid}.json`);
+    if (!data) return null;
+    return {
+      uuid: data.uuid || companyUuid,
+      name: data.name || data.company_name || "Unknown",
+      email: data.email || "",
+      phone: data.phone || "",
+      mobile: data.mobile || "",
+    };
   }
 
   // Fetch all company contacts for a given company
@@ -102,14 +364,7 @@ export class ServiceM8Client {
     isPrimary: boolean;
   }>> {
     try {
-      const response = await fetch(`${this.baseUrl}/companycontact.json?%24filter=company_uuid%20eq%20'${companyUuid}'`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return [];
-      const contacts = await response.json();
+      const contacts = await this.fetchAllPages("companycontact.json", this.filterQuery([`company_uuid eq '${companyUuid}'`]));
       return contacts.map((c: any) => ({
         uuid: c.uuid || "",
         name: [c.first, c.last].filter(Boolean).join(" ") || "Unknown",
@@ -126,27 +381,13 @@ export class ServiceM8Client {
   // Fetch all badge definitions
   async fetchBadges(): Promise<Map<string, string>> {
     const badgeMap = new Map<string, string>();
-    try {
-      const response = await fetch(`${this.baseUrl}/badge.json`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) {
-        console.error("[Badges] Failed to fetch badges:", response.status);
-        return badgeMap;
-      }
-      const badges = await response.json();
-      console.log(`[Badges] Fetched ${badges.length} badge definitions`);
-      for (const badge of badges) {
-        if (badge.uuid && badge.name) {
-          badgeMap.set(badge.uuid, badge.name);
-          console.log(`[Badges] Badge: ${badge.uuid} = "${badge.name}"`);
-        }
+    const badges = await this.fetchAllPages("badge.json");
+    console.log(`[Badges] Fetched ${badges.length} badge definitions`);
+    for (const badge of badges) {
+      if (badge.uuid && badge.name) {
+        badgeMap.set(badge.uuid, badge.name);
+        console.log(`[Badges] Badge: ${badge.uuid} = "${badge.name}"`);
       }
-    } catch (e) {
-      console.error("[Badges] Error fetching badges:", e);
     }
     return badgeMap;
   }
@@ -161,14 +402,7 @@ export class ServiceM8Client {
   }>> {
     const companyMap = new Map();
     try {
-      const response = await fetch(`${this.baseUrl}/company.json?%24top=5000`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return companyMap;
-      const companies = await response.json();
+      const companies = await this.fetchAllPages("company.json");
       for (const c of companies) {
         if (c.uuid) {
           companyMap.set(c.uuid, {
@@ -197,14 +431,7 @@ export class ServiceM8Client {
   }>>> {
     const contactMap = new Map();
     try {
-      const response = await fetch(`${this.baseUrl}/companycontact.json?%24top=5000`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return contactMap;
-      const contacts = await response.json();
+      const contacts = await this.fetchAllPages("companycontact.json");
       for (const c of contacts) {
         if (c.company_uuid) {
           const contact = {
@@ -227,322 +454,239 @@ export class ServiceM8Client {
   }
 
   async fetchJobContact(jobUuid: string): Promise<{ first: string; last: string; phone?: string; mobile?: string; email?: string } | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/jobcontact.json?%24filter=job_uuid%20eq%20'${jobUuid}'`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return null;
-      const contacts = await response.json();
-      if (contacts && contacts.length > 0) {
-        const contact = contacts[0];
-        return {
-          first: contact.first || "",
-          last: contact.last || "",
-          phone: contact.phone,
-          mobile: contact.mobile,
-          email: contact.email
-        };
-      }
-      return null;
-    } catch {
-      return null;
-    }
+    const contacts = await this.fetchAllPages("jobcontact.json", this.filterQuery([`job_uuid eq '${jobUuid}'`]));
+    if (contacts.length === 0) return null;
+    const contact = contacts[0];
+    return {
+      first: contact.first || "",
+      last: contact.last || "",
+      phone: contact.phone,
+      mobile: contact.mobile,
+      email: contact.email
+    };
   }
 
-  // Bulk fetch all job contacts in one API call
-  async fetchAllJobContacts(): Promise<Map<string, { first: string; last: string }>> {
+  // Bulk fetch all job contacts
+  async fetchAllJobContacts(since?: string): Promise<Map<string, { first: string; last: string }>> {
     const contactMap = new Map<string, { first: string; last: string }>();
-    try {
-      const response = await fetch(`${this.baseUrl}/jobcontact.json?%24top=5000`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return contactMap;
-      const contacts = await response.json();
-      for (const contact of contacts) {
-        if (contact.job_uuid && (contact.first || contact.last)) {
-          contactMap.set(contact.job_uuid, {
-            first: contact.first || "",
-            last: contact.last || ""
-          });
-        }
+    const contacts = await this.fetchAllPages("jobcontact.json", this.filterQuery([], since), 'jobcontact');
+    for (const contact of contacts) {
+      if (contact.job_uuid && (contact.first || contact.last)) {
+        contactMap.set(contact.job_uuid, {
+          first: contact.first || "",
+          last: contact.last || ""
+        });
       }
-    } catch (e) {
-      console.error("Error fetching all job contacts:", e);
     }
     return contactMap;
   }
 
+  // Staff and customer contacts let the classifier tell who sent a message. Without them it goes by
+  // feed item types and wording alone.
+  setCommClassifier(contacts: ClassifierContacts, rules: CommRule[] = DEFAULT_COMM_RULES) {
+    this.classifierContacts = contacts;
+    this.commRules = rules;
+  }
+
+  private classify(record: any, itemType?: string): CommClassification {
+    return classifyCommunication(toCommItem(record, itemType), this.classifierContacts, this.commRules);
+  }
+
+  // Every ServiceM8 staff record, including deactivated staff so they can be marked inactive here
+  async fetchStaff(): Promise<ServiceM8Staff[]> {
+    return this.fetchAllPages("staff.json", this.filterQuery([]));
+  }
+
+  // Email addresses and phone numbers of ServiceM8 staff and of every job contact
+  async fetchClassifierContacts(): Promise<ClassifierContacts> {
+    const [staffMembers, jobContacts] = await Promise.all([
+      this.fetchAllPages("staff.json", this.filterQuery(["active eq 1"])),
+      this.fetchAllPages("jobcontact.json", this.filterQuery(["active eq 1"])),
+    ]);
+    return { staff: contactPointsOf(staffMembers), customers: contactPointsOf(jobContacts) };
+  }
+
   // Fetch last communication (email/SMS) for each job - tracks BOTH incoming from clients AND outgoing
   // Returns separate tracking for: lastClientContact (when CLIENT contacted us) and lastAnyContact (any communication)
-  async fetchAllJobNotes(): Promise<Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>> {
+  async fetchAllJobNotes(since?: string, notesSince?: string): Promise<Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>> {
     const commMap = new Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>();
 
+    let feedItems: any[];
     try {
       // Fetch activity/feed for all messages - ServiceM8 uses feeditem for activity
-      const response = await fetch(`${this.baseUrl}/feeditem.json?%24top=5000&%24orderby=timestamp%20desc`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
+      feedItems = await this.fetchFeedItems(since);
+    } catch (e: any) {
+      console.log("[Comms] Failed to fetch feed items:", e.message);
+      return this.fetchJobNotesFromNotes(notesSince);
+    }
 
-      if (!response.ok) {
-        console.log("[Comms] Failed to fetch feed items:", response.status);
-        return this.fetchJobNotesFromNotes();
-      }
+    console.log(`[Comms] Fetched ${feedItems.length} feed items from ServiceM8`);
 
-      const feedItems = await response.json();
-      console.log(`[Comms] Fetched ${feedItems.length} feed items from ServiceM8`);
+    // Log unique types found for debugging
+    const uniqueTypes = new Set(feedItems.map((item: any) => item.type));
+    console.log(`[Comms] Unique feed item types found:`, Array.from(uniqueTypes));
 
-      // Log unique types found for debugging
-      const uniqueTypes = new Set(feedItems.map((item: any) => item.type));
-      console.log(`[Comms] Unique feed item types found:`, Array.from(uniqueTypes));
+    // Log sample items for each type
+    if (feedItems.length > 0) {
+      console.log(`[Comms] Sample feed item:`, JSON.stringify(feedItems[0], null, 2).substring(0, 800));
+    }
 
-      // Log sample items for each type
-      if (feedItems.length > 0) {
-        console.log(`[Comms] Sample feed item:`, JSON.stringify(feedItems[0], null, 2).substring(0, 800));
+    for (const item of feedItems) {
+      if (!item.related_object_uuid || item.related_object !== 'job') continue;
+
+      const jobUuid = item.related_object_uuid;
+      const timestamp = parseServiceM8Date(item.timestamp, this.timeZone) ?? new Date();
+      const { type: commType, direction } = this.classify(item);
+
+      // Skip if not an email or SMS
+      if (commType !== 'email' && commType !== 'sms') continue;
+
+      // Keep the most recent communication per job
+      const existing = commMap.get(jobUuid);
+      if (!existing || timestamp > existing.date) {
+        commMap.set(jobUuid, {
+          date: timestamp,
+          type: commType,
+          note: item.message || item.description || '',
+          direction
+        });
       }
+    }
 
-      for (const item of feedItems) {
-        if (!item.related_object_uuid || item.related_object !== 'job') continue;
+    console.log(`[Comms] Mapped last communication for ${commMap.size} jobs`);
 
-        const jobUuid = item.related_object_uuid;
-        const itemType = (item.type || '').toLowerCase();
-        const message = (item.message || item.description || '').toLowerCase();
-        const timestamp = item.timestamp ? new Date(item.timestamp) : new Date();
-
-        // Determine communication type and direction
-        let commType: string | null = null;
-        let direction: 'inbound' | 'outbound' | 'unknown' = 'unknown';
-
-        // SMS detection - check for various ServiceM8 type patterns
-        if (itemType.includes('sms') || itemType.includes('text_message')) {
-          commType = 'sms';
-          // Determine direction
-          if (itemType.includes('received') || itemType.includes('inbound') || itemType.includes('incoming')) {
-            direction = 'inbound';
-          } else if (itemType.includes('sent') || itemType.includes('outbound') || itemType.includes('outgoing')) {
-            direction = 'outbound';
-          }
-        }
-        // Email detection
-        else if (itemType.includes('email') || itemType.includes('mail')) {
-          commType = 'email';
-          if (itemType.includes('received') || itemType.includes('inbound') || itemType.includes('incoming')) {
-            direction = 'inbound';
-          } else if (itemType.includes('sent') || itemType.includes('outbound') || itemType.includes('outgoing')) {
-            direction = 'outbound';
-          }
-        }
-        // Check message content as fallback
-        else if (message.includes('sms') || message.includes('text message')) {
-          commType = 'sms';
-          if (message.includes('received') || message.includes('from customer') || message.includes('customer replied') || message.includes('incoming')) {
-            direction = 'inbound';
-          } else if (message.includes('sent') || message.includes('to customer')) {
-            direction = 'outbound';
-          }
-        }
-        else if (message.includes('email') || message.includes('e-mail')) {
-          commType = 'email';
-          if (message.includes('received') || message.includes('from customer') || message.includes('customer replied') || message.includes('incoming')) {
-            direction = 'inbound';
-          } else if (message.includes('sent') || message.includes('to customer')) {
-            direction = 'outbound';
-          }
-        }
-        // Also detect quote-related emails
-        else if (itemType.includes('quote') && (message.includes('email') || message.includes('sent'))) {
-          commType = 'email';
-          direction = 'outbound';
-        }
+    // Log some stats about directions found
+    let inboundCount = 0, outboundCount = 0, unknownCount = 0;
+    commMap.forEach(v => {
+      if (v.direction === 'inbound') inboundCount++;
+      else if (v.direction === 'outbound') outboundCount++;
+      else unknownCount++;
+    });
+    console.log(`[Comms] Direction breakdown - Inbound: ${inboundCount}, Outbound: ${outboundCount}, Unknown: ${unknownCount}`);
+    return commMap;
+  }
 
-        // Skip if not an email or SMS
-        if (!commType) continue;
-
-        // Keep the most recent communication per job
-        const existing = commMap.get(jobUuid);
-        if (!existing || timestamp > existing.date) {
-          commMap.set(jobUuid, {
-            date: timestamp,
-            type: commType,
-            note: item.message || item.description || '',
-            direction
-          });
-        }
-      }
+  // All feed items (optionally edited after `since`), fetched once per client and shared by callers
+  private fetchFeedItems(since?: string): Promise<any[]> {
+    const key = since || "";
+    let request = this.feedItemRequests.get(key);
+    if (!request) {
+      request = this.fetchAllPages("feeditem.json", this.filterQuery([], since), 'feeditem');
+      // Don't cache failures, so a later caller can retry
+      request.catch(() => this.feedItemRequests.delete(key));
+      this.feedItemRequests.set(key, request);
+    }
+    return request;
+  }
 
-      console.log(`[Comms] Mapped last communication for ${commMap.size} jobs`);
+  // Every feed item and note on a job (optionally edited after `since`), as rows for the communications table
+  async fetchAllCommunications(since?: string, notesSince?: string): Promise<InsertCommunication[]> {
+    const [feedItems, notes] = await Promise.all([
+      this.fetchFeedItems(since),
+      this.fetchAllPages("note.json", this.filterQuery([], notesSince), 'note'),
+    ]);
 
-      // Log some stats about directions found
-      let inboundCount = 0, outboundCount = 0, unknownCount = 0;
-      commMap.forEach(v => {
-        if (v.direction === 'inbound') inboundCount++;
-        else if (v.direction === 'outbound') outboundCount++;
-        else unknownCount++;
+    const records: InsertCommunication[] = [];
+    for (const item of feedItems) {
+      const message = item.message || item.description || '';
+      if (!item.uuid || item.related_object !== 'job' || !item.related_object_uuid || !message) continue;
+      const { type, direction, confidence, reason } = this.classify(item);
+      records.push({
+        serviceM8Uuid: item.uuid,
+        source: 'feeditem',
+        jobServiceM8Uuid: item.related_object_uuid,
+        type,
+        direction,
+        confidence,
+        classificationReason: reason,
+        author: item.staff_name || item.author || null,
+        message,
+        occurredAt: parseServiceM8Date(item.timestamp || item.created_date, this.timeZone) ?? new Date(),
       });
-      console.log(`[Comms] Direction breakdown - Inbound: ${inboundCount}, Outbound: ${outboundCount}, Unknown: ${unknownCount}`);
-
-    } catch (e) {
-      console.error("[Comms] Error fetching feed items:", e);
     }
-    return commMap;
+    for (const note of notes) {
+      if (!note.uuid || note.related_object !== 'job' || !note.related_object_uuid || !note.note) continue;
+      // A note that doesn't read like an email, SMS or call is just a note
+      const { type, direction, confidence, reason } = this.classify(note, "");
+      records.push({
+        serviceM8Uuid: note.uuid,
+        source: 'note',
+        jobServiceM8Uuid: note.related_object_uuid,
+        type: type === 'system' ? 'note' : type,
+        direction,
+        confidence,
+        classificationReason: reason,
+        author: note.created_by_staff_name || null,
+        message: note.note,
+        occurredAt: parseServiceM8Date(note.timestamp || note.create_date, this.timeZone) ?? new Date(),
+      });
+    }
+
+    console.log(`[Comms] Fetched ${records.length} communications (${feedItems.length} feed items, ${notes.length} notes)`);
+    return records;
   }
 
   // NEW: Fetch last time CLIENT contacted us (inbound only) for each job
-  async fetchLastClientContact(): Promise<Map<string, { date: Date; type: string; note: string }>> {
+  async fetchLastClientContact(since?: string): Promise<Map<string, { date: Date; type: string; note: string }>> {
     const clientContactMap = new Map<string, { date: Date; type: string; note: string }>();
 
-    try {
-      const response = await fetch(`${this.baseUrl}/feeditem.json?%24top=5000&%24orderby=timestamp%20desc`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
+    const feedItems = await this.fetchFeedItems(since);
 
-      if (!response.ok) {
-        console.log("[ClientContact] Failed to fetch feed items:", response.status);
-        return clientContactMap;
-      }
-
-      const feedItems = await response.json();
-
-      for (const item of feedItems) {
-        if (!item.related_object_uuid || item.related_object !== 'job') continue;
-
-        const jobUuid = item.related_object_uuid;
-        const itemType = (item.type || '').toLowerCase();
-        const message = (item.message || item.description || '').toLowerCase();
-        const timestamp = item.timestamp ? new Date(item.timestamp) : new Date();
-
-        // Only track INBOUND communications from clients
-        let isClientContact = false;
-        let commType = 'unknown';
+    for (const item of feedItems) {
+      if (!item.related_object_uuid || item.related_object !== 'job') continue;
 
-        // Check for inbound SMS
-        if (itemType.includes('sms') && (itemType.includes('received') || itemType.includes('inbound') || itemType.includes('incoming'))) {
-          isClientContact = true;
-          commType = 'sms';
-        }
-        // Check for inbound email
-        else if (itemType.includes('email') && (itemType.includes('received') || itemType.includes('inbound') || itemType.includes('incoming'))) {
-          isClientContact = true;
-          commType = 'email';
-        }
-        // Check message content for client contact indicators
-        else if ((message.includes('received') || message.includes('from customer') || message.includes('customer replied') ||
-                  message.includes('customer called') || message.includes('incoming'))) {
-          isClientContact = true;
-          if (message.includes('sms') || message.includes('text')) {
-            commType = 'sms';
-          } else if (message.includes('email')) {
-            commType = 'email';
-          } else if (message.includes('call') || message.includes('phone')) {
-            commType = 'call';
-          }
-        }
+      const jobUuid = item.related_object_uuid;
+      const timestamp = parseServiceM8Date(item.timestamp, this.timeZone) ?? new Date();
+      const classification = this.classify(item);
 
-        if (!isClientContact) continue;
+      // Only track INBOUND communications from clients
+      if (classification.direction !== 'inbound') continue;
+      const commType = ['email', 'sms', 'call'].includes(classification.type) ? classification.type : 'unknown';
 
-        // Keep the most recent client contact per job
-        const existing = clientContactMap.get(jobUuid);
-        if (!existing || timestamp > existing.date) {
-          clientContactMap.set(jobUuid, {
-            date: timestamp,
-            type: commType,
-            note: item.message || item.description || ''
-          });
-        }
+      // Keep the most recent client contact per job
+      const existing = clientContactMap.get(jobUuid);
+      if (!existing || timestamp > existing.date) {
+        clientContactMap.set(jobUuid, {
+          date: timestamp,
+          type: commType,
+          note: item.message || item.description || ''
+        });
       }
-
-      console.log(`[ClientContact] Found last client contact for ${clientContactMap.size} jobs`);
-    } catch (e) {
-      console.error("[ClientContact] Error:", e);
     }
 
+    console.log(`[ClientContact] Found last client contact for ${clientContactMap.size} jobs`);
+
     return clientContactMap;
   }
 
   // Fallback: Parse notes to find email/SMS mentions
-  private async fetchJobNotesFromNotes(): Promise<Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>> {
+  private async fetchJobNotesFromNotes(since?: string): Promise<Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>> {
     const commMap = new Map<string, { date: Date; type: string; note: string; direction: 'inbound' | 'outbound' | 'unknown' }>();
-    try {
-      const response = await fetch(`${this.baseUrl}/note.json?%24top=5000&%24orderby=timestamp%20desc`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return commMap;
-      const notes = await response.json();
-      
-      for (const note of notes) {
-        if (!note.related_object_uuid || note.related_object !== 'job') continue;
-
-        const jobUuid = note.related_object_uuid;
-        const noteText = (note.note || '').toLowerCase();
-        const timestamp = note.timestamp ? new Date(note.timestamp) : new Date();
-
-        // Track ALL emails and SMS, determining direction
-        let commType: string | null = null;
-        let direction: 'inbound' | 'outbound' | 'unknown' = 'unknown';
-
-        // Check for inbound indicators
-        if (noteText.includes('email received') || noteText.includes('received email') ||
-            noteText.includes('customer email') || noteText.includes('email from') ||
-            noteText.includes('incoming email')) {
-          commType = 'email';
-          direction = 'inbound';
-        } else if (noteText.includes('sms received') || noteText.includes('received sms') ||
-            noteText.includes('customer sms') || noteText.includes('sms from') ||
-            noteText.includes('text received') || noteText.includes('received text') ||
-            noteText.includes('incoming sms')) {
-          commType = 'sms';
-          direction = 'inbound';
-        }
-        // Check for outbound indicators
-        else if (noteText.includes('email sent') || noteText.includes('sent email') ||
-            noteText.includes('emailed customer') || noteText.includes('email to')) {
-          commType = 'email';
-          direction = 'outbound';
-        } else if (noteText.includes('sms sent') || noteText.includes('sent sms') ||
-            noteText.includes('texted customer') || noteText.includes('sms to') ||
-            noteText.includes('text sent')) {
-          commType = 'sms';
-          direction = 'outbound';
-        }
-        // Generic email/sms mentions (unknown direction)
-        else if (noteText.includes('email')) {
-          commType = 'email';
-        } else if (noteText.includes('sms') || noteText.includes('text message')) {
-          commType = 'sms';
-        }
-
-        // Skip if not an email or SMS
-        if (!commType) continue;
-
-        const existing = commMap.get(jobUuid);
-        if (!existing || timestamp > existing.date) {
-          commMap.set(jobUuid, {
-            date: timestamp,
-            type: commType,
-            note: note.note || '',
-            direction
-          });
-        }
+    const notes = await this.fetchAllPages("note.json", this.filterQuery([], since), 'note');
+    
+    for (const note of notes) {
+      if (!note.related_object_uuid || note.related_object !== 'job') continue;
+
+      const jobUuid = note.related_object_uuid;
+      const timestamp = parseServiceM8Date(note.timestamp, this.timeZone) ?? new Date();
+      // Notes have no item type, so the wording decides
+      const { type: commType, direction } = this.classify(note, "");
+
+      // Skip if not an email or SMS
+      if (commType !== 'email' && commType !== 'sms') continue;
+
+      const existing = commMap.get(jobUuid);
+      if (!existing || timestamp > existing.date) {
+        commMap.set(jobUuid, {
+          date: timestamp,
+          type: commType,
+          note: note.note || '',
+          direction
+        });
       }
-      
-      console.log(`[Comms] Mapped last email/SMS from notes for ${commMap.size} jobs`);
-    } catch (e) {
-      console.error("[Comms] Error fetching notes:", e);
     }
+    
+    console.log(`[Comms] Mapped last email/SMS from notes for ${commMap.size} jobs`);
     return commMap;
   }
 
@@ -561,19 +705,7 @@ export class ServiceM8Client {
     }> = [];
     
     try {
-      const response = await fetch(`${this.baseUrl}/jobactivity.json?%24filter=job_uuid%20eq%20'${jobUuid}'`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      
-      if (!response.ok) {
-        console.log(`[Activity] Failed to fetch job activity: ${response.status}`);
-        return activities;
-      }
-      
-      const items = await response.json();
+      const items = await this.fetchAllPages("jobactivity.json", this.filterQuery([`job_uuid eq '${jobUuid}'`]));
       console.log(`[Activity] Fetched ${items.length} activity items for job ${jobUuid}`);
       
       for (const item of items) {
@@ -619,22 +751,17 @@ export class ServiceM8Client {
       message: string;
     }> = [];
     
+    let items: any[];
     try {
       // Try the clientcommunication endpoint
-      const response = await fetch(`${this.baseUrl}/clientcommunication.json?%24filter=job_uuid%20eq%20'${jobUuid}'`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      
-      if (!response.ok) {
-        console.log(`[Comms] clientcommunication endpoint returned ${response.status}, trying feeditem`);
-        // Fallback to feeditem endpoint filtered by job
-        return this.fetchJobCommunicationsFromFeed(jobUuid);
-      }
-      
-      const items = await response.json();
+      items = await this.fetchAllPages("clientcommunication.json", this.filterQuery([`job_uuid eq '${jobUuid}'`]));
+    } catch (e: any) {
+      console.log(`[Comms] clientcommunication endpoint failed (${e.message}), trying feeditem`);
+      // Fallback to feeditem endpoint filtered by job
+      return this.fetchJobCommunicationsFromFeed(jobUuid);
+    }
+
+    try {
       console.log(`[Comms] Fetched ${items.length} communication items for job ${jobUuid}`);
       
       for (const item of items) {
@@ -680,19 +807,7 @@ export class ServiceM8Client {
     }> = [];
     
     try {
-      const response = await fetch(`${this.baseUrl}/feeditem.json?%24filter=related_object_uuid%20eq%20'${jobUuid}'&%24orderby=timestamp%20desc`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      
-      if (!response.ok) {
-        console.log(`[Comms] feeditem endpoint returned ${response.status}`);
-        return communications;
-      }
-      
-      const items = await response.json();
+      const items = await this.fetchAllPages("feeditem.json", this.filterQuery([`related_object_uuid eq '${jobUuid}'`]));
       console.log(`[Comms] Fetched ${items.length} feed items for job ${jobUuid}`);
       
       for (const item of items) {
@@ -767,187 +882,114 @@ export class ServiceM8Client {
     return combined;
   }
 
-  // Bulk fetch all companies in one API call
-  async fetchAllCompanies(): Promise<Map<string, string>> {
+  // Bulk fetch all company names
+  async fetchAllCompanies(since?: string): Promise<Map<string, string>> {
     const companyMap = new Map<string, string>();
-    try {
-      const response = await fetch(`${this.baseUrl}/company.json?%24top=5000`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      if (!response.ok) return companyMap;
-      const companies = await response.json();
-      for (const company of companies) {
-        if (company.uuid && (company.name || company.company_name)) {
-          companyMap.set(company.uuid, company.name || company.company_name);
-        }
+    const companies = await this.fetchAllPages("company.json", this.filterQuery([], since), 'company');
+    for (const company of companies) {
+      if (company.uuid && (company.name || company.company_name)) {
+        companyMap.set(company.uuid, company.name || company.company_name);
       }
-    } catch (e) {
-      console.error("Error fetching all companies:", e);
     }
     return companyMap;
   }
 
   // Fetch all job custom field values - custom fields in ServiceM8 are accessed via $expand
   // Returns a map of job_uuid -> { fieldName: value }
-  async fetchAllJobCustomFields(): Promise<Map<string, Record<string, string>>> {
+  async fetchAllJobCustomFields(since?: string): Promise<Map<string, Record<string, string>>> {
     const customFieldMap = new Map<string, Record<string, string>>();
-    try {
-      // In ServiceM8, custom field values are embedded in job records when using $expand=customfield_values
-      // Or they can be retrieved from the jobs themselves with the field names
-      // Let's fetch jobs with custom field expansion
-      const response = await fetch(`${this.baseUrl}/job.json?%24filter=active%20eq%201&%24top=1000&%24expand=customfield_values`, {
-        headers: {
-          "X-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-      
-      if (!response.ok) {
-        console.error("Failed to fetch jobs with custom fields:", response.status);
-        // Try alternative: jobs may already have custom fields in the response
-        return customFieldMap;
-      }
-      
-      const jobs = await response.json();
-      console.log(`[CustomFields] Fetched ${jobs.length} jobs with custom field expansion`);
-      
-      // Log first job to see structure
-      if (jobs.length > 0) {
-        console.log(`[CustomFields] Sample job keys:`, Object.keys(jobs[0]));
-        console.log(`[CustomFields] Sample job data:`, JSON.stringify(jobs[0], null, 2).substring(0, 1000));
-      }
-      
-      // Extract custom field values from each job
-      for (const job of jobs) {
-        if (job.uuid) {
-          const fieldValues: Record<string, string> = {};
-          
-          // Check for customfield_values array (ServiceM8's $expand format)
-          if (job.customfield_values && Array.isArray(job.customfield_values)) {
-            for (const cf of job.customfield_values) {
-              if (cf.field_name && cf.value) {
-                fieldValues[cf.field_name] = cf.value;
-              }
-            }
-          }
-          
-          // Also check for direct custom field properties on the job
-          // ServiceM8 sometimes returns custom fields directly with their field names
-          for (const key of Object.keys(job)) {
-            if (key.includes('Staff') || key.includes('staff') || key.includes('Assigned')) {
-              fieldValues[key] = job[key];
-              console.log(`[CustomFields] Found field "${key}" = "${job[key]}" on job ${job.generated_job_id}`);
-            }
-          }
-          
-          if (Object.keys(fieldValues).length > 0) {
-            customFieldMap.set(job.uuid, fieldValues);
-          }
+    // In ServiceM8, custom field values are embedded in job records when using $expand=customfield_values
+    const jobs = await this.fetchAllPages("job.json", `${this.filterQuery(["active eq 1"], since)}%24expand=customfield_values&`);
+    console.log(`[CustomFields] Fetched ${jobs.length} jobs with custom field expansion`);
+
+    // Log first job to see structure
+    if (jobs.length > 0) {
+      console.log(`[CustomFields] Sample job keys:`, Object.keys(jobs[0]));
+      console.log(`[CustomFields] Sample job data:`, JSON.stringify(jobs[0], null, 2).substring(0, 1000));
+    }
+
+    // Extract custom field values from each job
+    for (const job of jobs) {
+      if (job.uuid) {
+        const fieldValues = this.extractCustomFields(job);
+        if (Object.keys(fieldValues).length > 0) {
+          customFieldMap.set(job.uuid, fieldValues);
         }
       }
-      
-      console.log(`[CustomFields] Mapped custom fields for ${customFieldMap.size} jobs`);
-    } catch (e) {
-      console.error("Error fetching job custom fields:", e);
     }
+
+    console.log(`[CustomFields] Mapped custom fields for ${customFieldMap.size} jobs`);
     return customFieldMap;
   }
 
-  // Get staff assigned value for a specific job from custom fields map
-  getStaffAssigned(jobUuid: string, customFieldMap: Map<string, Record<string, string>>): string {
-    const jobFields = customFieldMap.get(jobUuid);
-    if (!jobFields) return "Unassigned";
-    
-    // ServiceM8 returns custom fields with prefix "customfield_" followed by field name in snake_case
-    const staffValue = jobFields['customfield_staff_assigned'] || 
-                       jobFields['Staff Assigned'] || 
-                       jobFields['staff_assigned'];
-    return staffValue || "Unassigned";
+  // Custom field values for a single job (same shape as one entry of fetchAllJobCustomFields)
+  async fetchJobCustomFields(jobUuid: string): Promise<Map<string, Record<string, string>>> {
+    const customFieldMap = new Map<string, Record<string, string>>();
+    const [job] = await this.fetchAllPages("job.json", `${this.filterQuery([`uuid eq '${jobUuid}'`])}%24expand=customfield_values&`);
+    if (job?.uuid) {
+      customFieldMap.set(job.uuid, this.extractCustomFields(job));
+    }
+    return customFieldMap;
+  }
+
+  private extractCustomFields(job: any): Record<string, string> {
+    const fieldValues: Record<string, string> = {};
+
+    // Check for customfield_values array (ServiceM8's $expand format)
+    if (job.customfield_values && Array.isArray(job.customfield_values)) {
+      for (const cf of job.customfield_values) {
+        if (cf.field_name && cf.value) {
+          fieldValues[cf.field_name] = cf.value;
+        }
+      }
+    }
+
+    // ServiceM8 also returns custom fields directly on the job as customfield_<name> properties
+    for (const key of Object.keys(job)) {
+      if (key.startsWith('customfield_') && key !== 'customfield_values' && job[key] !== null && job[key] !== '') {
+        fieldValues[key] = String(job[key]);
+      }
+    }
+
+    return fieldValues;
   }
 
-  mapServiceM8JobToInsertJob(sm8Job: ServiceM8Job, companyName?: string, customFieldMap?: Map<string, Record<string, string>>, badgeDefinitions?: Map<string, string>): InsertJob {
+  mapServiceM8JobToInsertJob(sm8Job: ServiceM8Job, context: JobMappingContext = {}): InsertJob {
+    const { customerName, customFieldMap, customFieldMappings = DEFAULT_CUSTOM_FIELD_MAPPINGS, badgeDefinitions, statusRules = DEFAULT_STATUS_RULES, quoteAgingBands } = context;
     const address = sm8Job.job_address || sm8Job.billing_address || "No Address";
     const quoteValue = parseFloat(sm8Job.total_invoice_amount) || 0;
     
-    // Determine lifecycle phase and scheduler stage based on ServiceM8 status
-    // Get staff assigned from custom fields map (custom fields are stored separately in ServiceM8)
-    const staffAssigned = customFieldMap 
-      ? this.getStaffAssigned(sm8Job.uuid, customFieldMap) 
-      : "Unassigned";
+    // Staff, fence length and the other mapped attributes come from custom fields (stored separately in ServiceM8)
+    const customFields = customFieldMap?.get(sm8Job.uuid) ?? {};
+    const { assignedStaff, fenceLength, gateCount, leadSource, extraFields } = applyCustomFieldMappings(customFields, customFieldMappings);
+    const badges = this.parseBadges(sm8Job.badges, badgeDefinitions);
 
     // Calculate time since quote was ACTUALLY SENT (not created)
-    let daysSinceQuoteSent: number | null = null;
-    let hoursSinceQuoteSent: number | null = null;
     // ServiceM8 fields:
     // - quote_sent: boolean flag indicating if quote was sent
     // - quote_sent_stamp: actual timestamp when quote was emailed (THIS is what we want)
     // - quote_date: when the quote was CREATED (NOT when it was sent - do NOT use this)
-    const quoteSentStamp = sm8Job.quote_sent_stamp ? String(sm8Job.quote_sent_stamp).trim() : '';
     const hasQuoteSent = sm8Job.quote_sent === true;
     
     // ONLY calculate time since quote sent if we have an actual sent timestamp
     // Do NOT fall back to quote_date - that's just creation date
-    // ServiceM8 stores timestamps in Perth local time (UTC+8)
-    if (hasQuoteSent && quoteSentStamp && quoteSentStamp !== '' && quoteSentStamp !== '0000-00-00 00:00:00') {
-      try {
-        // ServiceM8 timestamps are in Perth time (UTC+8), append timezone offset
-        const quoteSentDate = new Date(quoteSentStamp.replace(' ', 'T') + '+08:00');
-        if (!isNaN(quoteSentDate.getTime())) {
-          const now = new Date();
-          const diffTime = now.getTime() - quoteSentDate.getTime();
-          const totalHours = Math.floor(diffTime / (1000 * 60 * 60));
-          
-          if (totalHours < 24 && totalHours >= 0) {
-            // Less than 24 hours - store hours
-            hoursSinceQuoteSent = totalHours;
-            daysSinceQuoteSent = 0;
-          } else if (totalHours >= 24) {
-            // 24+ hours - store days
-            daysSinceQuoteSent = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-            hoursSinceQuoteSent = null;
-          }
-        }
-      } catch (e) {
-        // Invalid date format, keep as null
-      }
-    }
-
-    // Get base status mapping from ServiceM8 status
-    let { lifecyclePhase, schedulerStage, appStatus } = this.mapServiceM8Status(sm8Job.status);
-    
-    // For Quote phase jobs:
-    // - Leads Pipeline uses 'status': new_lead, quote_sent, etc.
-    // - Quotes Pipeline uses 'salesStage': fresh, awaiting_reply (recency-based)
-    // - Jobs without quote sent go to "new_lead" column
-    // - Terminal statuses (unsuccessful/complete) keep their status and are excluded
-    let salesStage: string | null = null;
-    
-    if (lifecyclePhase === 'quote' && appStatus !== 'unsuccessful') {
-      if (hasQuoteSent) {
-        // Quote jobs use 'new_jobs_won' as default scheduler stage (not displayed in scheduler anyway)
-        schedulerStage = 'new_jobs_won';
-        // For Leads Pipeline: set status to quote_sent
-        appStatus = 'quote_sent';
-        // For Quotes Pipeline: set salesStage based on days since quote was sent
-        if (daysSinceQuoteSent !== null && daysSinceQuoteSent <= 3) {
-          salesStage = 'fresh';  // Fresh (0-3 Days)
-        } else {
-          salesStage = 'awaiting_reply';  // Awaiting Reply (4+ days)
-        }
-      } else {
-        // No quote sent yet - this is a new lead
-        appStatus = 'new_lead';
-        salesStage = 'new_lead';
-      }
-    }
+    const quoteSentAt = hasQuoteSent ? parseServiceM8Date(sm8Job.quote_sent_stamp, this.timeZone) : null;
+    const { daysSinceQuoteSent, hoursSinceQuoteSent } = calculateQuoteAge(quoteSentAt);
+
+    // Lifecycle phase, scheduler stage and status come from the status mapping rules
+    const { lifecyclePhase, schedulerStage, appStatus, salesStage } = classifyJob(statusRules, {
+      status: sm8Job.status || "",
+      badges,
+      customFields,
+      quoteSent: hasQuoteSent,
+      daysSinceQuoteSent,
+      quoteAgingBands,
+    });
 
     return {
       serviceM8Uuid: sm8Job.uuid,
       jobId: sm8Job.generated_job_id ? `#${sm8Job.generated_job_id}` : "#N/A",
-      customerName: companyName || "Unknown Customer",
+      customerName: customerName || "Unknown Customer",
       address: address,
       description: sm8Job.job_description || "PVC Fencing Installation",
       quoteValue: quoteValue,
@@ -955,10 +997,15 @@ export class ServiceM8Client {
       lifecyclePhase: lifecyclePhase,
       schedulerStage: schedulerStage,
       salesStage: salesStage,
+      quoteSentAt: quoteSentAt,
       daysSinceQuoteSent: daysSinceQuoteSent,
       hoursSinceQuoteSent: hoursSinceQuoteSent,
       daysSinceLastContact: 0,
-      assignedStaff: staffAssigned,
+      assignedStaff,
+      fenceLength,
+      gateCount,
+      leadSource,
+      extraFields,
       lastNote: sm8Job.work_done_description || "",
       urgency: "low",
       lastContactWho: "us",
@@ -971,26 +1018,14 @@ export class ServiceM8Client {
       panelInstallDuration: 8,
       panelInstallCrewSize: 2,
       syncedAt: new Date(),
-      badges: this.parseBadges(sm8Job.badges, badgeDefinitions),
+      badges,
+      serviceM8Status: sm8Job.status || null,
+      serviceM8CustomFields: customFields,
     };
   }
 
   private parseBadges(badgesRaw: string | undefined, badgeDefinitions?: Map<string, string>): string[] {
-    if (!badgesRaw) return [];
-    
-    // ServiceM8 stores badges as JSON array string like '["uuid1","uuid2"]' or comma-separated
-    let badgeUuids: string[] = [];
-    
-    try {
-      // Try parsing as JSON array first
-      const parsed = JSON.parse(badgesRaw);
-      if (Array.isArray(parsed)) {
-        badgeUuids = parsed.map((b: string) => b.trim()).filter((b: string) => b.length > 0);
-      }
-    } catch {
-      // Fall back to comma-separated format
-      badgeUuids = badgesRaw.split(',').map((b: string) => b.trim()).filter((b: string) => b.length > 0);
-    }
+    const badgeUuids = parseBadgeUuids(badgesRaw);
     
     // Convert UUIDs to human-readable names if definitions available
     if (badgeDefinitions && badgeDefinitions.size > 0) {
@@ -1002,51 +1037,31 @@ export class ServiceM8Client {
     
     return badgeUuids;
   }
+}
 
-  private mapServiceM8Status(sm8Status: string): { 
-    lifecyclePhase: LifecyclePhase; 
-    schedulerStage: SchedulerStage; 
-    appStatus: string;
-  } {
-    const statusLower = sm8Status.toLowerCase();
-    
-    // First check for terminal/closed statuses (these should be excluded from active pipelines)
-    if (statusLower.includes('unsuccessful') || statusLower.includes('lost') || statusLower.includes('cancelled') || statusLower.includes('canceled')) {
-      return { lifecyclePhase: 'quote', schedulerStage: 'new_jobs_won', appStatus: 'unsuccessful' };
-    }
-    
-    // Check for completed jobs
-    if (statusLower.includes('complete') || statusLower.includes('finished') || statusLower.includes('done')) {
-      return { lifecyclePhase: 'work_order', schedulerStage: 'recently_completed', appStatus: 'complete' };
-    }
-    
-    // Check if it's a Work Order status
-    if (WORK_ORDER_STATUSES.some(s => statusLower.includes(s.toLowerCase()))) {
-      // Map to specific scheduler stages
-      if (statusLower.includes('progress') || statusLower.includes('production')) {
-        return { lifecyclePhase: 'work_order', schedulerStage: 'in_production', appStatus: 'in_production' };
-      }
-      if (statusLower.includes('scheduled')) {
-        return { lifecyclePhase: 'work_order', schedulerStage: 'in_production', appStatus: 'scheduled' };
-      }
-      // Default work order goes to new_jobs_won
-      return { lifecyclePhase: 'work_order', schedulerStage: 'new_jobs_won', appStatus: 'work_order' };
+// Normalized emails and phone numbers from staff or job contact records
+function contactPointsOf(records: any[]): ContactPoints {
+  const points: ContactPoints = { emails: new Set(), phones: new Set() };
+  for (const record of records) {
+    const email = record.email ? normalizeEmail(String(record.email)) : null;
+    if (email) points.emails.add(email);
+    for (const number of [record.mobile, record.phone]) {
+      const phone = number ? normalizePhone(String(number)) : null;
+      if (phone) points.phones.add(phone);
     }
-    
-    // Quote phase statuses (will be further processed based on quote_sent flag)
-    if (statusLower.includes('quote') || statusLower.includes('estimate')) {
-      return { lifecyclePhase: 'quote', schedulerStage: 'new_jobs_won', appStatus: 'quote_pending' };
-    }
-    if (statusLower.includes('lead')) {
-      return { lifecyclePhase: 'quote', schedulerStage: 'new_jobs_won', appStatus: 'new_lead' };
-    }
-    
-    // Default to quote phase (will be processed based on quote_sent)
-    return { lifecyclePhase: 'quote', schedulerStage: 'new_jobs_won', appStatus: 'quote_pending' };
   }
+  return points;
 }
 
-export function createServiceM8Client(apiKey?: string): ServiceM8Client | null {
+// Page size comes from SERVICEM8_PAGE_SIZE unless given explicitly
+function defaultClientOptions(options: ServiceM8ClientOptions): ServiceM8ClientOptions {
+  return {
+    ...options,
+    pageSize: options.pageSize || parseInt(process.env.SERVICEM8_PAGE_SIZE || "", 10) || undefined,
+  };
+}
+
+export function createServiceM8Client(apiKey?: string, options: ServiceM8ClientOptions = {}): ServiceM8Client | null {
   const key = apiKey || process.env.SERVICEM8_API_KEY;
 
   if (!key) {
@@ -1054,5 +1069,10 @@ export function createServiceM8Client(apiKey?: string): ServiceM8Client | null {
     return null;
   }
 
-  return new ServiceM8Client(key);
+  return new ServiceM8Client({ apiKey: key }, defaultClientOptions(options));
+}
+
+// Client that acts for an OAuth-connected ServiceM8 account
+export function createServiceM8OAuthClient(accessToken: string, options: ServiceM8ClientOptions = {}): ServiceM8Client {
+  return new ServiceM8Client({ accessToken }, defaultClientOptions(options));
 }
@@ -0,0 +1,14 @@
+// Where ServiceM8 lives. Point SERVICEM8_BASE_URL and SERVICEM8_OAUTH_BASE_URL at the local
+// simulator (npm run sm8:sim) to develop against a fixed dataset without a live account.
+export const SERVICEM8_BASE_URL = (process.env.SERVICEM8_BASE_URL || "https://api.servicem8.com").replace(/\/+$/, "");
+export const SERVICEM8_API_URL = `${SERVICEM8_BASE_URL}/api_1.0`;
+const SERVICEM8_OAUTH_BASE_URL = (process.env.SERVICEM8_OAUTH_BASE_URL || "https://go.servicem8.com").replace(/\/+$/, "");
+
+// ServiceM8 OAuth 2.0 Configuration
+export const SM8_OAUTH_CONFIG = {
+  authorizeUrl: `${SERVICEM8_OAUTH_BASE_URL}/oauth/authorize`,
+  tokenUrl: `${SERVICEM8_OAUTH_BASE_URL}/oauth/access_token`,
+  clientId: process.env.SERVICEM8_APP_ID || process.env.SERVICEM8_CLIENT_ID || "",
+  clientSecret: process.env.SERVICEM8_APP_SECRET || process.env.SERVICEM8_CLIENT_SECRET || "",
+  scopes: "read_jobs read_schedule manage_schedule read_job_notes read_staff read_customers publish_sms publish_email",
+};
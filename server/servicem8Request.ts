@@ -0,0 +1,155 @@
+// Shared HTTP layer for ServiceM8 API calls. Each attempt has a timeout; network errors, 429s and 5xx
+// responses are retried with exponential backoff (honouring Retry-After); and a circuit breaker stops
+// calling the API for a while after repeated failures instead of letting every request time out.
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// Requests that still fail after their retries, in a row, before the circuit opens
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+// How long the circuit stays open before a single trial request is let through
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+export class ServiceM8RequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ServiceM8RequestError";
+  }
+}
+
+export class ServiceM8CircuitOpenError extends ServiceM8RequestError {
+  constructor(retryInMs: number) {
+    super(retryInMs > 0
+      ? `ServiceM8 API unavailable after repeated failures, retrying in ${Math.ceil(retryInMs / 1000)}s`
+      : "ServiceM8 API unavailable after repeated failures, checking whether it has recovered");
+    this.name = "ServiceM8CircuitOpenError";
+  }
+}
+
+export interface ServiceM8RequestOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+const circuit = {
+  consecutiveFailures: 0,
+  openedAt: null as number | null,
+  trialInFlight: false,
+};
+
+export function getCircuitState(): { state: CircuitState; consecutiveFailures: number; openedAt: Date | null } {
+  let state: CircuitState = "closed";
+  if (circuit.openedAt !== null) {
+    state = Date.now() - circuit.openedAt >= CIRCUIT_COOLDOWN_MS ? "half_open" : "open";
+  }
+  return {
+    state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt !== null ? new Date(circuit.openedAt) : null,
+  };
+}
+
+// Fetch a ServiceM8 URL. Resolves with the response for any non-retryable status (including 4xx such
+// as 404, which callers handle); throws ServiceM8RequestError once retries are used up.
+export async function servicem8Request(url: string, init: RequestInit = {}, options: ServiceM8RequestOptions = {}): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  enterCircuit();
+
+  let lastError: ServiceM8RequestError | undefined;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetchWithTimeout(url, init, timeoutMs);
+      if (response.status !== 429 && response.status < 500) {
+        recordSuccess();
+        return response;
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      lastError = new ServiceM8RequestError(`ServiceM8 API Error: ${response.status} ${response.statusText}`, response.status);
+    } catch (error: any) {
+      lastError = new ServiceM8RequestError(
+        error.name === "AbortError" ? `ServiceM8 request timed out after ${timeoutMs}ms` : `ServiceM8 request failed: ${error.message}`
+      );
+    }
+
+    if (attempt < maxRetries) {
+      const delay = Math.min(retryAfterMs ?? backoffDelay(attempt), MAX_RETRY_DELAY_MS);
+      console.log(`[ServiceM8] ${lastError.message} - retrying in ${delay}ms (attempt ${attempt + 1} of ${maxRetries})`);
+      await sleep(delay);
+    }
+  }
+
+  recordFailure();
+  throw lastError!;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, 4s...
+function backoffDelay(attempt: number): number {
+  const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(date - Date.now(), 0);
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Fail fast while the circuit is open. Once the cooldown has passed, one trial request goes through;
+// its outcome closes the circuit again or restarts the cooldown.
+function enterCircuit() {
+  if (circuit.openedAt === null) return;
+
+  const elapsed = Date.now() - circuit.openedAt;
+  if (elapsed < CIRCUIT_COOLDOWN_MS) {
+    throw new ServiceM8CircuitOpenError(CIRCUIT_COOLDOWN_MS - elapsed);
+  }
+  if (circuit.trialInFlight) {
+    throw new ServiceM8CircuitOpenError(0);
+  }
+  circuit.trialInFlight = true;
+}
+
+function recordSuccess() {
+  if (circuit.openedAt !== null) {
+    console.log("[ServiceM8] API recovered, closing circuit");
+  }
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure() {
+  circuit.consecutiveFailures++;
+  circuit.trialInFlight = false;
+  if (circuit.openedAt !== null || circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+    console.error(`[ServiceM8] ${circuit.consecutiveFailures} failed requests in a row, pausing API calls for ${CIRCUIT_COOLDOWN_MS / 1000}s`);
+  }
+}
@@ -0,0 +1,100 @@
+import { storage } from "./storage";
+import type { ServiceM8Client, ServiceM8Staff } from "./servicem8";
+import { automationActor } from "./audit";
+import type { Staff } from "@shared/schema";
+
+// Keeping the staff table in step with ServiceM8 staff, and linking jobs to staff members. Sync owns
+// name, email, mobile and whether the member is active; role, skills, capacity and colour are only
+// ever set here.
+
+export type StaffSyncResult = { created: number; updated: number; staff: Staff[] };
+
+export async function syncStaffFromServiceM8(sm8Client: ServiceM8Client): Promise<StaffSyncResult> {
+  const records = await sm8Client.fetchStaff();
+  const existing = await storage.getAllStaff();
+  const byUuid = new Map(existing.filter(member => member.serviceM8Uuid).map(member => [member.serviceM8Uuid!, member]));
+  const usedIds = new Set(existing.map(member => member.id));
+  const now = new Date();
+  let created = 0;
+  let updated = 0;
+
+  for (const record of records) {
+    if (!record.uuid) continue;
+    const name = staffName(record);
+    const fields = {
+      name,
+      email: record.email?.trim() || null,
+      mobile: record.mobile?.trim() || null,
+      active: String(record.active) === "1",
+      serviceM8Uuid: record.uuid,
+      syncedAt: now,
+    };
+
+    // Members added here before staff were synced are linked by name the first time round
+    const member = byUuid.get(record.uuid)
+      ?? existing.find(member => !member.serviceM8Uuid && sameName(member.name, name));
+
+    if (member) {
+      const changed = member.name !== fields.name || member.email !== fields.email || member.mobile !== fields.mobile
+        || member.active !== fields.active || member.serviceM8Uuid !== fields.serviceM8Uuid;
+      if (changed) {
+        await storage.updateStaffMember(member.id, fields);
+        updated++;
+      } else {
+        await storage.updateStaffMember(member.id, { syncedAt: now });
+      }
+      member.serviceM8Uuid = record.uuid;
+      continue;
+    }
+
+    if (!fields.active) continue; // No point adding someone who has already left
+    const id = uniqueStaffId(name, record.uuid, usedIds);
+    usedIds.add(id);
+    await storage.createStaffMember({ id, role: "sales", ...fields });
+    created++;
+  }
+
+  console.log(`[Staff] Synced ${records.length} ServiceM8 staff: ${created} created, ${updated} updated`);
+  return { created, updated, staff: await storage.getAllStaff() };
+}
+
+// The staff member a job's assigned staff text refers to: an exact name match, else a unique first name match
+export function matchStaffId(assignedStaff: string | null | undefined, staffMembers: Staff[]): string | null {
+  const name = assignedStaff?.trim();
+  if (!name || name === "Unassigned") return null;
+
+  const exact = staffMembers.find(member => sameName(member.name, name) || member.id === name);
+  if (exact) return exact.id;
+
+  const firstName = name.split(/\s+/)[0].toLowerCase();
+  const byFirstName = staffMembers.filter(member => member.name.split(/\s+/)[0].toLowerCase() === firstName);
+  return byFirstName.length === 1 ? byFirstName[0].id : null;
+}
+
+// Relink every job after the staff list changes. Returns how many jobs changed.
+export async function linkJobsToStaff(staffMembers: Staff[]): Promise<number> {
+  let linked = 0;
+  for (const job of await storage.getAllJobs()) {
+    const assignedStaffId = matchStaffId(job.assignedStaff, staffMembers);
+    if (assignedStaffId === job.assignedStaffId) continue;
+    await storage.updateJob(job.id, { assignedStaffId }, automationActor("Staff linking"));
+    linked++;
+  }
+  if (linked > 0) console.log(`[Staff] Relinked ${linked} jobs to staff`);
+  return linked;
+}
+
+function staffName(record: ServiceM8Staff): string {
+  return [record.first, record.last].map(part => part?.trim()).filter(Boolean).join(" ") || record.email || "ServiceM8 staff";
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Ids follow the seeded style ('dave_turner'), falling back to the ServiceM8 uuid when taken
+function uniqueStaffId(name: string, uuid: string, usedIds: Set<string>): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+  if (slug && !usedIds.has(slug)) return slug;
+  return `sm8_${uuid.replace(/-/g, "").slice(0, 12)}`;
+}
@@ -0,0 +1,151 @@
+import { storage } from "./storage";
+import { calculateQuoteAge } from "./servicem8";
+import { getCompanySettings } from "./companySettings";
+import { getLeadsColumns } from "./pipelineMoves";
+import { automationActor } from "./audit";
+import {
+  classifyJob,
+  columnMappingRules,
+  DEFAULT_STATUS_RULES,
+  STATUS_RULES_SETTING_KEY,
+  statusRulesSchema,
+  type JobPlacement,
+  type StatusRule,
+  type StatusRulePreview,
+  type StatusRulePreviewChange,
+} from "@shared/statusRules";
+import type { QuoteAgingBand } from "@shared/companySettings";
+import type { AuditActor, InsertJob, SelectJob } from "@shared/schema";
+import type { StatusRulesSetting } from "@shared/api";
+
+// Loading, previewing and applying the ServiceM8 status mapping rules kept in appSettings
+
+// Saved rules, or the built-in defaults if none are saved (or the saved value no longer validates),
+// with the setting's version to save changes against
+export async function getStatusRules(): Promise<StatusRulesSetting> {
+  const { value: saved, version } = await storage.getAppSettingEntry(STATUS_RULES_SETTING_KEY);
+  if (saved === null) {
+    return { rules: DEFAULT_STATUS_RULES, isDefault: true, version };
+  }
+
+  const parsed = statusRulesSchema.safeParse(saved);
+  if (!parsed.success) {
+    console.error("[StatusRules] Saved status rules are invalid, using defaults:", parsed.error.message);
+    return { rules: DEFAULT_STATUS_RULES, isDefault: true, version };
+  }
+  return { rules: parsed.data, isDefault: false, version };
+}
+
+// What sync classifies jobs with: the mapped Leads Pipeline columns, then the given (or saved) rules
+export async function getSyncStatusRules(rules?: StatusRule[]): Promise<StatusRule[]> {
+  return [...columnMappingRules(await getLeadsColumns()), ...(rules ?? (await getStatusRules()).rules)];
+}
+
+// Where each synced job would end up under the given rules, listing only the jobs that would move
+export async function previewStatusRules(candidateRules: StatusRule[]): Promise<StatusRulePreview> {
+  const jobs = await storage.getAllJobs();
+  const { quoteAgingBands } = await getCompanySettings();
+  const rules = await getSyncStatusRules(candidateRules);
+  const ruleNames = new Map(rules.map(rule => [rule.id, rule.name]));
+  const now = new Date();
+
+  let evaluated = 0;
+  let skipped = 0;
+  const changes: StatusRulePreviewChange[] = [];
+
+  for (const job of jobs) {
+    // Jobs synced before the raw status was stored can't be reclassified until their next sync
+    if (job.serviceM8Status === null) {
+      skipped++;
+      continue;
+    }
+    evaluated++;
+
+    const before = placementOf(job);
+    const { after, ruleId } = reclassify(rules, job, quoteAgingBands, now);
+    if (samePlacement(before, after)) continue;
+
+    changes.push({
+      jobId: job.id,
+      jobNumber: job.jobId,
+      customerName: job.customerName,
+      serviceM8Status: job.serviceM8Status,
+      ruleId,
+      ruleName: ruleId ? ruleNames.get(ruleId) ?? null : null,
+      before,
+      after,
+    });
+  }
+
+  return { evaluated, skipped, changes };
+}
+
+// Save the rules, if the saved ones are still at expectedVersion, and move existing jobs to where the
+// rules now put them. Nothing is saved or moved if someone else has saved rules since.
+export async function applyStatusRules(
+  rules: StatusRule[],
+  expectedVersion: number,
+  actor: AuditActor
+): Promise<{ saved: true; version: number; reclassified: number } | { saved: false }> {
+  const result = await storage.saveAppSettingIfVersion(STATUS_RULES_SETTING_KEY, rules, expectedVersion, actor);
+  if (!result.saved) return { saved: false };
+  const remapActor = automationActor(`Status rules, saved by ${actor.name}`);
+
+  const { changes } = await previewStatusRules(rules);
+  for (const change of changes) {
+    const update: Partial<InsertJob> = {
+      lifecyclePhase: change.after.lifecyclePhase,
+      schedulerStage: change.after.schedulerStage,
+      status: change.after.status,
+      salesStage: change.after.salesStage,
+    };
+    await storage.updateJob(change.jobId, update, remapActor);
+  }
+
+  console.log(`[StatusRules] Saved ${rules.length} rules, reclassified ${changes.length} jobs`);
+  return { saved: true, version: result.version, reclassified: changes.length };
+}
+
+function placementOf(job: SelectJob): JobPlacement {
+  return {
+    lifecyclePhase: job.lifecyclePhase,
+    schedulerStage: job.schedulerStage,
+    status: job.status,
+    salesStage: job.salesStage,
+  };
+}
+
+function reclassify(rules: StatusRule[], job: SelectJob, quoteAgingBands: QuoteAgingBand[], now: Date): { after: JobPlacement; ruleId: string | null } {
+  const { daysSinceQuoteSent } = calculateQuoteAge(job.quoteSentAt, now);
+  const classification = classifyJob(rules, {
+    status: job.serviceM8Status || "",
+    badges: job.badges || [],
+    customFields: job.serviceM8CustomFields || {},
+    quoteSent: job.quoteSentAt !== null || job.status === "quote_sent",
+    daysSinceQuoteSent,
+    quoteAgingBands,
+  });
+
+  return {
+    after: {
+      lifecyclePhase: classification.lifecyclePhase,
+      // Sync keeps a job's scheduler stage once it's on the board, so only a phase change moves it
+      schedulerStage: classification.lifecyclePhase !== job.lifecyclePhase
+        ? classification.schedulerStage
+        : job.schedulerStage,
+      // Like sync, a column set by hand stays while the job is in the same phase
+      status: job.statusOverride && classification.lifecyclePhase === job.lifecyclePhase
+        ? job.statusOverride
+        : classification.appStatus,
+      salesStage: classification.salesStage,
+    },
+    ruleId: classification.ruleId,
+  };
+}
+
+function samePlacement(a: JobPlacement, b: JobPlacement): boolean {
+  return a.lifecyclePhase === b.lifecyclePhase
+    && a.schedulerStage === b.schedulerStage
+    && a.status === b.status
+    && a.salesStage === b.salesStage;
+}
@@ -1,26 +1,80 @@
-import { type SelectJob, type InsertJob, jobs, type Staff, type InsertStaff, staff, type SyncLog, type InsertSyncLog, syncLog, type OAuthToken, type InsertOAuthToken, oauthTokens, type WorkType, type InsertWorkType, workTypes, type WorkTypeStage, type InsertWorkTypeStage, workTypeStages, type JobStageProgress, type InsertJobStageProgress, jobStageProgress, appSettings } from "@shared/schema";
+import { type SelectJob, type InsertJob, jobs, type Staff, type InsertStaff, staff, type SyncLog, type InsertSyncLog, syncLog, type OAuthToken, type InsertOAuthToken, oauthTokens, type WorkType, type InsertWorkType, workTypes, type WorkTypeStage, type InsertWorkTypeStage, workTypeStages, type JobStageProgress, type InsertJobStageProgress, jobStageProgress, appSettings, type SyncCursor, syncCursors, type FieldChange, type SyncLogSummary, syncConflicts, type SyncConflict, type SyncConflictWithJob, communications, type Communication, type InsertCommunication, type CommunicationSearchResult, type AppSettingEntry, users, type User, type InsertUser, auditLog, type AuditActor, type AuditEntry, type InsertAuditEntry, undoEntries, type UndoEntry, type InsertUndoEntry } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, asc } from "drizzle-orm";
+import { eq, desc, and, asc, count, sql, isNull, isNotNull, ilike, inArray, or } from "drizzle-orm";
+import { publishJob, publishStageProgress } from "./events";
+import { diffFields } from "./changes";
+import { AUDIT_IGNORED_JOB_FIELDS, recordEntry, settingChanges, SYNC_ACTOR, updateEntries } from "./audit";
+import { jobColumnValue, LOCAL_JOB_FIELDS, mergeSyncedFields, recordUserEdits, type FieldConflict } from "./provenance";
+
+export type UpsertJobResult = {
+  job: SelectJob;
+  outcome: 'created' | 'updated' | 'unchanged';
+  changes: FieldChange[];
+  conflicts: string[]; // Fields held back because they were edited here too
+};
+
+// Times sync reads and merges a job that keeps being edited while it does, before giving up on it
+const SYNC_MERGE_ATTEMPTS = 3;
+
+// A save made against an expected version found the record had been changed since. current is the
+// record as it now stands, for the client to merge against.
+export class VersionConflictError<T> extends Error {
+  constructor(public readonly current: T) {
+    super("Record was changed by someone else");
+    this.name = "VersionConflictError";
+  }
+}
 
 export interface IStorage {
   // Jobs
   getAllJobs(): Promise<SelectJob[]>;
+  getUnarchivedJobs(): Promise<SelectJob[]>;
+  getArchivedJobs(): Promise<SelectJob[]>;
   getJob(id: number): Promise<SelectJob | undefined>;
   getJobByServiceM8Uuid(uuid: string): Promise<SelectJob | undefined>;
   createJob(job: InsertJob): Promise<SelectJob>;
-  updateJob(id: number, job: Partial<InsertJob>): Promise<SelectJob | undefined>;
-  upsertJobByServiceM8Uuid(job: InsertJob): Promise<SelectJob>;
+  updateJob(id: number, job: Partial<InsertJob>, actor: AuditActor, expectedVersion?: number): Promise<SelectJob | undefined>;
+  updateJobByUser(id: number, job: Partial<InsertJob>, actor: AuditActor, expectedVersion?: number): Promise<SelectJob | undefined>;
+  upsertJobByServiceM8Uuid(job: InsertJob): Promise<UpsertJobResult>;
+  archiveJob(id: number, reason: string): Promise<SelectJob | undefined>;
+  
+  // Communications
+  saveCommunications(records: InsertCommunication[]): Promise<void>;
+  getJobCommunications(jobServiceM8Uuid: string): Promise<Communication[]>;
+  searchCommunications(query: string, limit: number): Promise<CommunicationSearchResult[]>;
+  
+  // Sync Conflicts
+  getPendingSyncConflicts(): Promise<SyncConflictWithJob[]>;
+  getSyncConflict(id: number): Promise<SyncConflict | undefined>;
+  resolveSyncConflict(id: number, keep: 'local' | 'servicem8', actor: AuditActor): Promise<SyncConflict | undefined>;
   
   // Staff
   getAllStaff(): Promise<Staff[]>;
   getStaffMember(id: string): Promise<Staff | undefined>;
   createStaffMember(member: InsertStaff): Promise<Staff>;
   updateStaffMember(id: string, member: Partial<InsertStaff>): Promise<Staff | undefined>;
+  deleteStaffMember(id: string): Promise<boolean>;
+  
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   
   // Sync Logs
   createSyncLog(log: InsertSyncLog): Promise<SyncLog>;
   updateSyncLog(id: number, log: Partial<InsertSyncLog>): Promise<SyncLog | undefined>;
   getLatestSyncLog(): Promise<SyncLog | undefined>;
+  getLastCompletedSync(syncType: string): Promise<SyncLog | undefined>;
+  getSyncLog(id: number): Promise<SyncLog | undefined>;
+  getSyncLogSummaries(limit: number, offset: number): Promise<{ items: SyncLogSummary[]; total: number }>;
+  
+  // Sync Cursors
+  getSyncCursors(): Promise<SyncCursor[]>;
+  saveSyncCursor(objectType: string, lastEditDate: string): Promise<void>;
   
   // OAuth Tokens
   getOAuthToken(provider: string): Promise<OAuthToken | undefined>;
@@ -30,22 +84,31 @@ export interface IStorage {
   // Work Types
   getAllWorkTypes(): Promise<WorkType[]>;
   getWorkType(id: number): Promise<WorkType | undefined>;
-  createWorkType(workType: InsertWorkType): Promise<WorkType>;
-  updateWorkType(id: number, workType: Partial<InsertWorkType>): Promise<WorkType | undefined>;
-  deleteWorkType(id: number): Promise<boolean>;
+  createWorkType(workType: InsertWorkType, actor: AuditActor): Promise<WorkType>;
+  updateWorkType(id: number, workType: Partial<InsertWorkType>, actor: AuditActor): Promise<WorkType | undefined>;
+  deleteWorkType(id: number, actor: AuditActor): Promise<boolean>;
   
   // Work Type Stages
   getStagesForWorkType(workTypeId: number): Promise<WorkTypeStage[]>;
   getWorkTypeStage(id: number): Promise<WorkTypeStage | undefined>;
-  createWorkTypeStage(stage: InsertWorkTypeStage): Promise<WorkTypeStage>;
-  updateWorkTypeStage(id: number, stage: Partial<InsertWorkTypeStage>): Promise<WorkTypeStage | undefined>;
-  deleteWorkTypeStage(id: number): Promise<boolean>;
-  reorderStages(workTypeId: number, stageIds: number[]): Promise<void>;
+  createWorkTypeStage(stage: InsertWorkTypeStage, actor: AuditActor): Promise<WorkTypeStage>;
+  updateWorkTypeStage(id: number, stage: Partial<InsertWorkTypeStage>, actor: AuditActor): Promise<WorkTypeStage | undefined>;
+  deleteWorkTypeStage(id: number, actor: AuditActor): Promise<boolean>;
+  reorderStages(workTypeId: number, stageIds: number[], actor: AuditActor): Promise<void>;
   
   // Job Stage Progress
   getJobStageProgress(jobId: number): Promise<JobStageProgress[]>;
-  updateJobStageProgress(jobId: number, stageId: number, progress: Partial<InsertJobStageProgress>): Promise<JobStageProgress | undefined>;
+  updateJobStageProgress(jobId: number, stageId: number, progress: Partial<InsertJobStageProgress>, actor: AuditActor, expectedVersion?: number): Promise<JobStageProgress | undefined>;
   initializeJobStages(jobId: number, workTypeId: number): Promise<void>;
+  
+  // Audit Log
+  recordAudit(entries: InsertAuditEntry[]): Promise<void>;
+  getJobAuditLog(jobId: number): Promise<AuditEntry[]>;
+  
+  // Undo
+  pushUndoEntry(entry: InsertUndoEntry, depth: number): Promise<UndoEntry>;
+  getLatestUndoEntry(userId: number, undone: boolean): Promise<UndoEntry | undefined>;
+  setUndoEntryUndone(id: number, undoneAt: Date | null): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -54,6 +117,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(jobs).orderBy(desc(jobs.createdAt));
   }
 
+  // Jobs still active in ServiceM8 - what the boards show
+  async getUnarchivedJobs(): Promise<SelectJob[]> {
+    return await db.select().from(jobs).where(isNull(jobs.archivedAt)).orderBy(desc(jobs.createdAt));
+  }
+
+  async getArchivedJobs(): Promise<SelectJob[]> {
+    return await db.select().from(jobs).where(isNotNull(jobs.archivedAt)).orderBy(desc(jobs.archivedAt));
+  }
+
   async getJob(id: number): Promise<SelectJob | undefined> {
     const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
     return job || undefined;
@@ -69,53 +141,251 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
-  async updateJob(id: number, insertJob: Partial<InsertJob>): Promise<SelectJob | undefined> {
-    const updateData: any = { ...insertJob, updatedAt: new Date() };
+  // With expectedVersion, throws VersionConflictError unless the job is still at that version
+  async updateJob(id: number, insertJob: Partial<InsertJob>, actor: AuditActor, expectedVersion?: number): Promise<SelectJob | undefined> {
+    const existing = await this.getJob(id);
+    if (!existing) return undefined;
+    const job = await this.writeJob(id, insertJob, expectedVersion);
+    await this.recordAudit(updateEntries(
+      { entityType: 'job', entityId: id, jobId: id },
+      diffFields(existing, insertJob, AUDIT_IGNORED_JOB_FIELDS),
+      actor
+    ));
+    // Sync announces its changes once the run finishes rather than job by job
+    if (job && actor.source !== 'sync') publishJob(job);
+    return job;
+  }
+
+  private async writeJob(id: number, insertJob: Partial<InsertJob>, expectedVersion?: number): Promise<SelectJob | undefined> {
+    const updateData: any = { ...insertJob, version: sql`${jobs.version} + 1`, updatedAt: new Date() };
     const [job] = await db
       .update(jobs)
       .set(updateData)
-      .where(eq(jobs.id, id))
+      .where(expectedVersion === undefined ? eq(jobs.id, id) : and(eq(jobs.id, id), eq(jobs.version, expectedVersion)))
       .returning();
+    if (!job && expectedVersion !== undefined) {
+      const current = await this.getJob(id);
+      if (current) throw new VersionConflictError(current);
+    }
     return job || undefined;
   }
 
-  async upsertJobByServiceM8Uuid(insertJob: InsertJob): Promise<SelectJob> {
+  // A change made by someone in the app, recorded in the job's field provenance
+  async updateJobByUser(id: number, insertJob: Partial<InsertJob>, actor: AuditActor, expectedVersion?: number): Promise<SelectJob | undefined> {
+    const existing = await this.getJob(id);
+    if (!existing) return undefined;
+    return this.updateJob(id, { ...insertJob, fieldProvenance: recordUserEdits(existing, insertJob) }, actor, expectedVersion);
+  }
+
+  // The merge is written only if the job is still as it was read, so an edit made in the app
+  // meanwhile isn't overwritten; the job is read and merged again instead
+  async upsertJobByServiceM8Uuid(insertJob: InsertJob): Promise<UpsertJobResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.mergeSyncedJob(insertJob);
+      } catch (error) {
+        if (!(error instanceof VersionConflictError) || attempt === SYNC_MERGE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  private async mergeSyncedJob(insertJob: InsertJob): Promise<UpsertJobResult> {
     const existing = await this.getJobByServiceM8Uuid(insertJob.serviceM8Uuid);
     if (existing) {
-      // Preserve local-only fields that shouldn't be overwritten by sync
-      const preservedFields = {
-        workTypeId: existing.workTypeId,
-        currentStageId: existing.currentStageId,
-        schedulerStage: existing.schedulerStage,
-        tentativePostDate: existing.tentativePostDate,
-        tentativePanelDate: existing.tentativePanelDate,
-        tentativeNotes: existing.tentativeNotes,
-        postInstallDate: existing.postInstallDate,
-        panelInstallDate: existing.panelInstallDate,
-        installStage: existing.installStage,
-        purchaseOrderStatus: existing.purchaseOrderStatus,
-        estimatedProductionDuration: existing.estimatedProductionDuration,
-        postInstallDuration: existing.postInstallDuration,
-        postInstallCrewSize: existing.postInstallCrewSize,
-        panelInstallDuration: existing.panelInstallDuration,
-        panelInstallCrewSize: existing.panelInstallCrewSize,
-      };
-      
-      // Merge: sync data + preserved local fields (local fields take priority where they exist)
+      // Merge: sync data + local-only fields (local values take priority where they exist)
       const mergedJob = { ...insertJob };
-      for (const [key, value] of Object.entries(preservedFields)) {
+      for (const field of LOCAL_JOB_FIELDS) {
+        const value = existing[field];
         if (value !== null && value !== undefined) {
-          (mergedJob as any)[key] = value;
+          (mergedJob as any)[field] = value;
+        }
+      }
+
+      // A pipeline column set by hand stays until the job's status or phase changes in ServiceM8
+      if (existing.statusOverride) {
+        const statusUnchanged = (insertJob.serviceM8Status ?? existing.serviceM8Status) === existing.serviceM8Status;
+        if (statusUnchanged && insertJob.lifecyclePhase === existing.lifecyclePhase) {
+          mergedJob.status = existing.statusOverride;
+        } else {
+          mergedJob.statusOverride = null;
         }
       }
       
-      const updated = await this.updateJob(existing.id, mergedJob);
-      return updated!;
+      // A job that's active in ServiceM8 again comes back onto the boards
+      if (existing.archivedAt) {
+        mergedJob.archivedAt = null;
+        mergedJob.archivedReason = null;
+        console.log(`[Sync] Job ${existing.jobId} is active in ServiceM8 again, restoring it`);
+      }
+
+      // Fields edited here and not since changed in ServiceM8 keep the local value; ones changed on
+      // both sides are queued for review
+      const { conflicts, matched } = mergeSyncedFields(existing, mergedJob);
+      const conflictFields = conflicts.map(conflict => conflict.field);
+      
+      const changes = diffFields(existing, mergedJob, ['syncedAt', 'updatedAt', 'createdAt', 'fieldProvenance']);
+      if (changes.length === 0) {
+        // Nothing changed - just record that the job was seen, without touching updatedAt or version
+        const [job] = await db
+          .update(jobs)
+          .set({ syncedAt: mergedJob.syncedAt ?? new Date(), fieldProvenance: mergedJob.fieldProvenance })
+          .where(and(eq(jobs.id, existing.id), eq(jobs.version, existing.version)))
+          .returning();
+        if (!job) throw new VersionConflictError(existing);
+        await this.recordSyncConflicts(existing.id, conflicts, matched);
+        return { job, outcome: 'unchanged', changes, conflicts: conflictFields };
+      }
+      
+      const updated = await this.writeJob(existing.id, mergedJob, existing.version);
+      await this.recordSyncConflicts(existing.id, conflicts, matched);
+      await this.recordAudit(updateEntries(
+        { entityType: 'job', entityId: existing.id, jobId: existing.id },
+        changes.filter(change => !AUDIT_IGNORED_JOB_FIELDS.includes(change.field)),
+        SYNC_ACTOR
+      ));
+      return { job: updated!, outcome: 'updated', changes, conflicts: conflictFields };
     } else {
-      return await this.createJob(insertJob);
+      const job = await this.createJob(insertJob);
+      await this.recordAudit([recordEntry({ entityType: 'job', entityId: job.id, jobId: job.id }, 'create', job, SYNC_ACTOR)]);
+      return { job, outcome: 'created', changes: [], conflicts: [] };
+    }
+  }
+
+  // Hide a job that's no longer active in ServiceM8. The job and its local data are kept.
+  async archiveJob(id: number, reason: string): Promise<SelectJob | undefined> {
+    return this.updateJob(id, { archivedAt: new Date(), archivedReason: reason }, SYNC_ACTOR);
+  }
+
+  // Communications
+  async saveCommunications(records: InsertCommunication[]): Promise<void> {
+    // Chunked so a full sync's feed doesn't become one enormous statement
+    for (let i = 0; i < records.length; i += 500) {
+      await db
+        .insert(communications)
+        .values(records.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: communications.serviceM8Uuid,
+          set: {
+            type: sql`excluded.type`,
+            direction: sql`excluded.direction`,
+            confidence: sql`excluded.confidence`,
+            classificationReason: sql`excluded.classification_reason`,
+            author: sql`excluded.author`,
+            message: sql`excluded.message`,
+            occurredAt: sql`excluded.occurred_at`,
+            syncedAt: new Date(),
+          },
+        });
     }
   }
 
+  async getJobCommunications(jobServiceM8Uuid: string): Promise<Communication[]> {
+    return await db
+      .select()
+      .from(communications)
+      .where(eq(communications.jobServiceM8Uuid, jobServiceM8Uuid))
+      .orderBy(desc(communications.occurredAt));
+  }
+
+  async searchCommunications(query: string, limit: number): Promise<CommunicationSearchResult[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    const rows = await db
+      .select({ communication: communications, jobId: jobs.id, jobNumber: jobs.jobId, customerName: jobs.customerName })
+      .from(communications)
+      .leftJoin(jobs, eq(communications.jobServiceM8Uuid, jobs.serviceM8Uuid))
+      .where(or(ilike(communications.message, pattern), ilike(communications.author, pattern)))
+      .orderBy(desc(communications.occurredAt))
+      .limit(limit);
+    return rows.map(({ communication, ...job }) => ({ ...communication, ...job }));
+  }
+
+  // Sync Conflicts
+  private async recordSyncConflicts(jobId: number, conflicts: FieldConflict[], matched: string[]): Promise<void> {
+    if (conflicts.length === 0 && matched.length === 0) return;
+    const pending = await db
+      .select()
+      .from(syncConflicts)
+      .where(and(eq(syncConflicts.jobId, jobId), eq(syncConflicts.status, 'pending')));
+    const pendingByField = new Map(pending.map(conflict => [conflict.field, conflict]));
+
+    for (const conflict of conflicts) {
+      const open = pendingByField.get(conflict.field);
+      if (open) {
+        // Still unresolved - keep one entry per field, showing the latest values
+        await db
+          .update(syncConflicts)
+          .set({ localValue: conflict.localValue, serviceM8Value: conflict.serviceM8Value })
+          .where(eq(syncConflicts.id, open.id));
+      } else {
+        await db.insert(syncConflicts).values({ jobId, ...conflict });
+      }
+    }
+
+    for (const field of matched) {
+      const open = pendingByField.get(field);
+      if (open) {
+        await db
+          .update(syncConflicts)
+          .set({ status: 'matched', resolvedAt: new Date() })
+          .where(eq(syncConflicts.id, open.id));
+      }
+    }
+  }
+
+  async getPendingSyncConflicts(): Promise<SyncConflictWithJob[]> {
+    const rows = await db
+      .select({ conflict: syncConflicts, job: jobs })
+      .from(syncConflicts)
+      .innerJoin(jobs, eq(syncConflicts.jobId, jobs.id))
+      .where(eq(syncConflicts.status, 'pending'))
+      .orderBy(desc(syncConflicts.detectedAt));
+    return rows.map(({ conflict, job }) => ({
+      ...conflict,
+      jobNumber: job.jobId,
+      customerName: job.customerName,
+      currentValue: (job as any)[conflict.field] ?? null,
+    }));
+  }
+
+  async getSyncConflict(id: number): Promise<SyncConflict | undefined> {
+    const [conflict] = await db.select().from(syncConflicts).where(eq(syncConflicts.id, id));
+    return conflict || undefined;
+  }
+
+  // Keep the value here (ServiceM8 isn't updated) or take ServiceM8's, and close the conflict
+  async resolveSyncConflict(id: number, keep: 'local' | 'servicem8', actor: AuditActor): Promise<SyncConflict | undefined> {
+    const conflict = await this.getSyncConflict(id);
+    if (!conflict) return undefined;
+    const job = await this.getJob(conflict.jobId);
+    if (!job) return undefined;
+
+    const provenance = { ...(job.fieldProvenance || {}) };
+    const now = new Date();
+    if (keep === 'local') {
+      // ServiceM8's value is now the one the local edit replaced, so it isn't flagged again
+      // unless ServiceM8 changes the field once more
+      provenance[conflict.field] = {
+        source: 'user',
+        changedAt: provenance[conflict.field]?.changedAt ?? now.toISOString(),
+        serviceM8Value: conflict.serviceM8Value,
+      };
+      await this.updateJob(job.id, { fieldProvenance: provenance }, actor);
+    } else {
+      provenance[conflict.field] = { source: 'sync', changedAt: now.toISOString() };
+      await this.updateJob(job.id, {
+        [conflict.field]: jobColumnValue(conflict.field, conflict.serviceM8Value),
+        fieldProvenance: provenance,
+      }, actor);
+    }
+
+    const [resolved] = await db
+      .update(syncConflicts)
+      .set({ status: keep === 'local' ? 'kept_local' : 'took_servicem8', resolvedAt: now })
+      .where(eq(syncConflicts.id, id))
+      .returning();
+    return resolved;
+  }
+
   // Staff
   async getAllStaff(): Promise<Staff[]> {
     return await db.select().from(staff);
@@ -131,6 +401,11 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
+  async deleteStaffMember(id: string): Promise<boolean> {
+    const deleted = await db.delete(staff).where(eq(staff.id, id)).returning({ id: staff.id });
+    return deleted.length > 0;
+  }
+
   async updateStaffMember(id: string, insertStaff: Partial<InsertStaff>): Promise<Staff | undefined> {
     const updateData: any = insertStaff;
     const [member] = await db
@@ -141,6 +416,48 @@ export class DatabaseStorage implements IStorage {
     return member || undefined;
   }
 
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username.trim().toLowerCase()));
+    return user || undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [row] = await db.select({ total: count() }).from(users);
+    return row?.total ?? 0;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Create the user only if there are no users yet, else undefined. The check and the insert hold
+  // a transaction lock so two setups at once can't both create an account.
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('first_user'))`);
+      const [row] = await tx.select({ total: count() }).from(users);
+      if ((row?.total ?? 0) > 0) return undefined;
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      return user;
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
   // Sync Logs
   async createSyncLog(insertLog: InsertSyncLog): Promise<SyncLog> {
     const [log] = await db.insert(syncLog).values(insertLog).returning();
@@ -161,6 +478,60 @@ export class DatabaseStorage implements IStorage {
     return log || undefined;
   }
 
+  // A 'partial' sync ran to the end with one sub-fetch failing, so it counts as completed
+  async getLastCompletedSync(syncType: string): Promise<SyncLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(syncLog)
+      .where(and(eq(syncLog.syncType, syncType), inArray(syncLog.status, ["success", "partial"])))
+      .orderBy(desc(syncLog.startedAt))
+      .limit(1);
+    return log || undefined;
+  }
+
+  async getSyncLog(id: number): Promise<SyncLog | undefined> {
+    const [log] = await db.select().from(syncLog).where(eq(syncLog.id, id));
+    return log || undefined;
+  }
+
+  // Newest first; per-job reports stay in the database until a single sync is opened
+  async getSyncLogSummaries(limit: number, offset: number): Promise<{ items: SyncLogSummary[]; total: number }> {
+    const items = await db
+      .select({
+        id: syncLog.id,
+        syncType: syncLog.syncType,
+        status: syncLog.status,
+        jobsProcessed: syncLog.jobsProcessed,
+        errorMessage: syncLog.errorMessage,
+        startedAt: syncLog.startedAt,
+        completedAt: syncLog.completedAt,
+        trigger: sql<SyncLogSummary['trigger']>`${syncLog.metadata}->>'trigger'`,
+        counts: sql<SyncLogSummary['counts']>`${syncLog.metadata}->'counts'`,
+        fetched: sql<SyncLogSummary['fetched']>`${syncLog.metadata}->'fetched'`,
+      })
+      .from(syncLog)
+      .orderBy(desc(syncLog.startedAt))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await db.select({ total: count() }).from(syncLog);
+    return { items, total };
+  }
+
+  // Sync Cursors
+  async getSyncCursors(): Promise<SyncCursor[]> {
+    return await db.select().from(syncCursors);
+  }
+
+  async saveSyncCursor(objectType: string, lastEditDate: string): Promise<void> {
+    await db
+      .insert(syncCursors)
+      .values({ objectType, lastEditDate, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: syncCursors.objectType,
+        set: { lastEditDate, updatedAt: new Date() }
+      });
+  }
+
   // OAuth Tokens
   async getOAuthToken(provider: string): Promise<OAuthToken | undefined> {
     const [token] = await db.select().from(oauthTokens).where(eq(oauthTokens.provider, provider)).orderBy(desc(oauthTokens.updatedAt)).limit(1);
@@ -197,23 +568,34 @@ export class DatabaseStorage implements IStorage {
     return workType || undefined;
   }
 
-  async createWorkType(insertWorkType: InsertWorkType): Promise<WorkType> {
+  async createWorkType(insertWorkType: InsertWorkType, actor: AuditActor): Promise<WorkType> {
     const [workType] = await db.insert(workTypes).values(insertWorkType).returning();
+    await this.recordAudit([recordEntry({ entityType: 'work_type', entityId: workType.id }, 'create', workType, actor)]);
     return workType;
   }
 
-  async updateWorkType(id: number, updateData: Partial<InsertWorkType>): Promise<WorkType | undefined> {
+  async updateWorkType(id: number, updateData: Partial<InsertWorkType>, actor: AuditActor): Promise<WorkType | undefined> {
+    const existing = await this.getWorkType(id);
+    if (!existing) return undefined;
     const data: any = { ...updateData, updatedAt: new Date() };
     const [workType] = await db
       .update(workTypes)
       .set(data)
       .where(eq(workTypes.id, id))
       .returning();
+    await this.recordAudit(updateEntries(
+      { entityType: 'work_type', entityId: id },
+      diffFields(existing, updateData, ['id', 'createdAt', 'updatedAt']),
+      actor
+    ));
     return workType || undefined;
   }
 
-  async deleteWorkType(id: number): Promise<boolean> {
-    const result = await db.delete(workTypes).where(eq(workTypes.id, id));
+  async deleteWorkType(id: number, actor: AuditActor): Promise<boolean> {
+    const [deleted] = await db.delete(workTypes).where(eq(workTypes.id, id)).returning();
+    if (deleted) {
+      await this.recordAudit([recordEntry({ entityType: 'work_type', entityId: id }, 'delete', deleted, actor)]);
+    }
     return true;
   }
 
@@ -231,32 +613,51 @@ export class DatabaseStorage implements IStorage {
     return stage || undefined;
   }
 
-  async createWorkTypeStage(insertStage: InsertWorkTypeStage): Promise<WorkTypeStage> {
+  async createWorkTypeStage(insertStage: InsertWorkTypeStage, actor: AuditActor): Promise<WorkTypeStage> {
     const [stage] = await db.insert(workTypeStages).values(insertStage).returning();
+    await this.recordAudit([recordEntry({ entityType: 'work_type_stage', entityId: stage.id }, 'create', stage, actor)]);
     return stage;
   }
 
-  async updateWorkTypeStage(id: number, updateData: Partial<InsertWorkTypeStage>): Promise<WorkTypeStage | undefined> {
+  async updateWorkTypeStage(id: number, updateData: Partial<InsertWorkTypeStage>, actor: AuditActor): Promise<WorkTypeStage | undefined> {
+    const existing = await this.getWorkTypeStage(id);
+    if (!existing) return undefined;
     const [stage] = await db
       .update(workTypeStages)
       .set(updateData)
       .where(eq(workTypeStages.id, id))
       .returning();
+    await this.recordAudit(updateEntries(
+      { entityType: 'work_type_stage', entityId: id },
+      diffFields(existing, updateData, ['id', 'createdAt']),
+      actor
+    ));
     return stage || undefined;
   }
 
-  async deleteWorkTypeStage(id: number): Promise<boolean> {
-    await db.delete(workTypeStages).where(eq(workTypeStages.id, id));
+  async deleteWorkTypeStage(id: number, actor: AuditActor): Promise<boolean> {
+    const [deleted] = await db.delete(workTypeStages).where(eq(workTypeStages.id, id)).returning();
+    if (deleted) {
+      await this.recordAudit([recordEntry({ entityType: 'work_type_stage', entityId: id }, 'delete', deleted, actor)]);
+    }
     return true;
   }
 
-  async reorderStages(workTypeId: number, stageIds: number[]): Promise<void> {
+  // Recorded against the work type as a change to its stage order
+  async reorderStages(workTypeId: number, stageIds: number[], actor: AuditActor): Promise<void> {
+    const before = (await this.getStagesForWorkType(workTypeId)).map(stage => stage.id);
     for (let i = 0; i < stageIds.length; i++) {
       await db
         .update(workTypeStages)
         .set({ orderIndex: i })
         .where(and(eq(workTypeStages.id, stageIds[i]), eq(workTypeStages.workTypeId, workTypeId)));
     }
+    const after = (await this.getStagesForWorkType(workTypeId)).map(stage => stage.id);
+    await this.recordAudit(updateEntries(
+      { entityType: 'work_type', entityId: workTypeId },
+      diffFields({ stageOrder: before }, { stageOrder: after }),
+      actor
+    ));
   }
 
   // Job Stage Progress
@@ -267,63 +668,105 @@ export class DatabaseStorage implements IStorage {
       .where(eq(jobStageProgress.jobId, jobId));
   }
 
-  async updateJobStageProgress(jobId: number, stageId: number, updateData: Partial<InsertJobStageProgress>): Promise<JobStageProgress | undefined> {
+  // With expectedVersion, throws VersionConflictError unless the stage is still at that version
+  async updateJobStageProgress(jobId: number, stageId: number, updateData: Partial<InsertJobStageProgress>, actor: AuditActor, expectedVersion?: number): Promise<JobStageProgress | undefined> {
+    const [current] = await db
+      .select()
+      .from(jobStageProgress)
+      .where(and(eq(jobStageProgress.jobId, jobId), eq(jobStageProgress.stageId, stageId)));
+
+    // Completing a stage records when and by whom; reopening it clears them
+    const changes: Partial<InsertJobStageProgress> = { ...updateData };
+    if (updateData.status === 'completed' && current?.status !== 'completed') {
+      changes.completedAt = new Date();
+      changes.completedBy = actor.name;
+    } else if (updateData.status && updateData.status !== 'completed') {
+      changes.completedAt = null;
+      changes.completedBy = null;
+    }
+
     // First try to update existing record
-    const data: any = { ...updateData, updatedAt: new Date() };
-    const [existing] = await db
-      .update(jobStageProgress)
-      .set(data)
-      .where(and(eq(jobStageProgress.jobId, jobId), eq(jobStageProgress.stageId, stageId)))
-      .returning();
-    
-    if (existing) return existing;
+    if (current) {
+      const data: any = { ...changes, version: sql`${jobStageProgress.version} + 1`, updatedAt: new Date() };
+      const [updated] = await db
+        .update(jobStageProgress)
+        .set(data)
+        .where(expectedVersion === undefined
+          ? eq(jobStageProgress.id, current.id)
+          : and(eq(jobStageProgress.id, current.id), eq(jobStageProgress.version, expectedVersion)))
+        .returning();
+      if (!updated) {
+        const [latest] = await db.select().from(jobStageProgress).where(eq(jobStageProgress.id, current.id));
+        throw new VersionConflictError(latest ?? current);
+      }
+      await this.recordStageProgressAudit(current, changes, actor);
+      await this.publishStageProgress(updated);
+      return updated;
+    }
     
     // If no existing record, create one
     const insertData: any = { 
       jobId, 
       stageId, 
       status: updateData.status || 'pending',
-      ...updateData 
+      ...changes 
     };
-    if (updateData.status === 'completed') {
-      insertData.completedAt = new Date();
-    }
     
     const [created] = await db
       .insert(jobStageProgress)
       .values(insertData)
       .returning();
+    await this.recordAudit([recordEntry({ entityType: 'stage_progress', entityId: `${jobId}:${stageId}`, jobId }, 'create', created, actor)]);
+    await this.publishStageProgress(created);
     return created;
   }
 
+  // Live update for the job's stage progress, sent to whoever can see the job
+  private async publishStageProgress(progress: JobStageProgress): Promise<void> {
+    publishStageProgress(progress, await this.getJob(progress.jobId));
+  }
+
+  private async recordStageProgressAudit(before: JobStageProgress, changes: Partial<InsertJobStageProgress>, actor: AuditActor): Promise<void> {
+    await this.recordAudit(updateEntries(
+      { entityType: 'stage_progress', entityId: `${before.jobId}:${before.stageId}`, jobId: before.jobId },
+      diffFields(before, changes, ['id', 'createdAt', 'updatedAt', 'timerStartedAt']),
+      actor
+    ));
+  }
+
   async initializeJobStages(jobId: number, workTypeId: number): Promise<void> {
     const stages = await this.getStagesForWorkType(workTypeId);
     for (const stage of stages) {
-      await db.insert(jobStageProgress).values({
+      const [created] = await db.insert(jobStageProgress).values({
         jobId,
         stageId: stage.id,
         status: 'pending',
-      }).onConflictDoNothing();
+      }).onConflictDoNothing().returning();
+      if (created) await this.publishStageProgress(created);
     }
   }
 
   // Timer operations
-  async startTimer(jobId: number, stageId: number): Promise<JobStageProgress | undefined> {
+  async startTimer(jobId: number, stageId: number, actor: AuditActor): Promise<JobStageProgress | undefined> {
     const now = new Date();
+    const [current] = await db
+      .select()
+      .from(jobStageProgress)
+      .where(and(eq(jobStageProgress.jobId, jobId), eq(jobStageProgress.stageId, stageId)));
+    if (!current) return undefined;
+
+    const changes = { timerRunning: true, timerStartedAt: now, status: 'in_progress' };
     const [progress] = await db
       .update(jobStageProgress)
-      .set({ 
-        timerRunning: true, 
-        timerStartedAt: now,
-        status: 'in_progress',
-        updatedAt: now 
-      })
-      .where(and(eq(jobStageProgress.jobId, jobId), eq(jobStageProgress.stageId, stageId)))
+      .set({ ...changes, version: sql`${jobStageProgress.version} + 1`, updatedAt: now })
+      .where(eq(jobStageProgress.id, current.id))
       .returning();
+    await this.recordStageProgressAudit(current, changes, actor);
+    if (progress) await this.publishStageProgress(progress);
     return progress || undefined;
   }
 
-  async stopTimer(jobId: number, stageId: number): Promise<JobStageProgress | undefined> {
+  async stopTimer(jobId: number, stageId: number, actor: AuditActor): Promise<JobStageProgress | undefined> {
     // First get current state to calculate elapsed time
     const [current] = await db
       .select()
@@ -338,16 +781,14 @@ export class DatabaseStorage implements IStorage {
     const elapsed = Math.floor((now.getTime() - current.timerStartedAt.getTime()) / 1000);
     const newTotal = (current.totalTimeSeconds || 0) + elapsed;
     
+    const changes = { timerRunning: false, timerStartedAt: null, totalTimeSeconds: newTotal };
     const [progress] = await db
       .update(jobStageProgress)
-      .set({ 
-        timerRunning: false, 
-        timerStartedAt: null,
-        totalTimeSeconds: newTotal,
-        updatedAt: now 
-      })
+      .set({ ...changes, version: sql`${jobStageProgress.version} + 1`, updatedAt: now })
       .where(and(eq(jobStageProgress.jobId, jobId), eq(jobStageProgress.stageId, stageId)))
       .returning();
+    await this.recordStageProgressAudit(current, changes, actor);
+    if (progress) await this.publishStageProgress(progress);
     return progress || undefined;
   }
 
@@ -381,21 +822,121 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async setAppSetting(key: string, value: any): Promise<void> {
+  async getAppSettingEntry(key: string): Promise<AppSettingEntry> {
+    const [row] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return { key, value: row?.value ?? null, version: row?.version ?? 0 };
+  }
+
+  async getAppSettingVersions(): Promise<Record<string, number>> {
+    const rows = await db.select({ key: appSettings.key, version: appSettings.version }).from(appSettings);
+    return Object.fromEntries(rows.map(row => [row.key, row.version]));
+  }
+
+  async setAppSetting(key: string, value: any, actor: AuditActor): Promise<void> {
+    const before = await this.getAppSetting(key);
     await db
       .insert(appSettings)
       .values({ key, value, updatedAt: new Date() })
       .onConflictDoUpdate({
         target: appSettings.key,
-        set: { value, updatedAt: new Date() }
+        set: { value, version: sql`${appSettings.version} + 1`, updatedAt: new Date() }
       });
+    await this.recordSettingAudit(key, before ?? null, value, actor);
   }
 
-  async saveAllAppSettings(settings: Record<string, any>): Promise<void> {
+  async saveAllAppSettings(settings: Record<string, any>, actor: AuditActor): Promise<void> {
     for (const [key, value] of Object.entries(settings)) {
-      await this.setAppSetting(key, value);
+      await this.setAppSetting(key, value, actor);
+    }
+  }
+
+  // Save only if the stored setting is still at expectedVersion (0 for a key that doesn't exist yet).
+  // Otherwise nothing is written and the current entry is returned.
+  async saveAppSettingIfVersion(
+    key: string,
+    value: any,
+    expectedVersion: number,
+    actor: AuditActor
+  ): Promise<{ saved: true; version: number } | { saved: false; current: AppSettingEntry }> {
+    const before = await this.getAppSetting(key);
+    const [row] = expectedVersion === 0
+      ? await db
+          .insert(appSettings)
+          .values({ key, value, updatedAt: new Date() })
+          .onConflictDoNothing({ target: appSettings.key })
+          .returning({ version: appSettings.version })
+      : await db
+          .update(appSettings)
+          .set({ value, version: sql`${appSettings.version} + 1`, updatedAt: new Date() })
+          .where(and(eq(appSettings.key, key), eq(appSettings.version, expectedVersion)))
+          .returning({ version: appSettings.version });
+
+    if (row) {
+      await this.recordSettingAudit(key, before ?? null, value, actor);
+      return { saved: true, version: row.version };
     }
+    return { saved: false, current: await this.getAppSettingEntry(key) };
+  }
+
+  async deleteAppSetting(key: string, actor: AuditActor): Promise<void> {
+    const [deleted] = await db.delete(appSettings).where(eq(appSettings.key, key)).returning();
+    if (deleted) {
+      await this.recordAudit([recordEntry({ entityType: 'setting', entityId: key }, 'delete', deleted.value, actor)]);
+    }
+  }
+
+  private async recordSettingAudit(key: string, before: unknown, after: unknown, actor: AuditActor): Promise<void> {
+    await this.recordAudit(updateEntries({ entityType: 'setting', entityId: key }, settingChanges(before, after), actor));
+  }
+
+  // Audit Log
+  async recordAudit(entries: InsertAuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLog).values(entries);
   }
+
+  // Newest first
+  async getJobAuditLog(jobId: number): Promise<AuditEntry[]> {
+    return await db
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.jobId, jobId))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id));
+  }
+
+  // Undo
+  // Add an edit to the user's undo stack, dropping their redo stack and anything past depth
+  async pushUndoEntry(entry: InsertUndoEntry, depth: number): Promise<UndoEntry> {
+    await db.delete(undoEntries).where(and(eq(undoEntries.userId, entry.userId), isNotNull(undoEntries.undoneAt)));
+    const [created] = await db.insert(undoEntries).values(entry).returning();
+    const keep = await db
+      .select({ id: undoEntries.id })
+      .from(undoEntries)
+      .where(eq(undoEntries.userId, entry.userId))
+      .orderBy(desc(undoEntries.id))
+      .limit(depth);
+    await db.delete(undoEntries).where(and(
+      eq(undoEntries.userId, entry.userId),
+      sql`${undoEntries.id} < ${keep[keep.length - 1].id}`
+    ));
+    return created;
+  }
+
+  // The edit undo would revert (undone false), or the undone edit redo would reapply (undone true)
+  async getLatestUndoEntry(userId: number, undone: boolean): Promise<UndoEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(undoEntries)
+      .where(and(eq(undoEntries.userId, userId), undone ? isNotNull(undoEntries.undoneAt) : isNull(undoEntries.undoneAt)))
+      .orderBy(undone ? desc(undoEntries.undoneAt) : desc(undoEntries.id))
+      .limit(1);
+    return entry || undefined;
+  }
+
+  async setUndoEntryUndone(id: number, undoneAt: Date | null): Promise<void> {
+    await db.update(undoEntries).set({ undoneAt }).where(eq(undoEntries.id, id));
+  }
+
 }
 
 export const storage = new DatabaseStorage();
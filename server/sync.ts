@@ -0,0 +1,740 @@
+import { storage } from "./storage";
+import { createServiceM8Client, calculateQuoteAge, type ServiceM8Client, type ServiceM8Job } from "./servicem8";
+import { getSyncStatusRules } from "./statusMapping";
+import { getCompanySettings } from "./companySettings";
+import { getCustomFieldMappings } from "./customFields";
+import { linkJobsToStaff, matchStaffId, syncStaffFromServiceM8 } from "./staffSync";
+import { SYNC_ACTOR } from "./audit";
+import { publishEvent } from "./events";
+import { COMM_RULES_SETTING_KEY, commRulesSchema, DEFAULT_COMM_RULES, emptyContactPoints, type ClassifierContacts, type CommRule } from "./commClassifier";
+import type { StatusRule } from "@shared/statusRules";
+import type { CustomFieldMapping } from "@shared/customFields";
+import { deriveSalesStage, type QuoteAgingBand } from "@shared/companySettings";
+import type { InsertJob, SelectJob, Staff, SyncObjectType, SyncJobOutcome, SyncJobReport, SyncLogMetadata } from "@shared/schema";
+
+// ServiceM8 sync engine - the manual sync route, the auto-sync timer and the webhook receiver all go through here
+
+export type SyncMode = "full" | "incremental";
+type SyncCursorMap = Partial<Record<SyncObjectType, string>>;
+type LastCommunication = { date: Date; type: string; direction?: "inbound" | "outbound" | "unknown" };
+
+export type SyncResult = {
+  syncLogId: number;
+  syncType: string; // 'full' | 'incremental' | 'webhook'
+  status: "success" | "partial" | "error";
+  jobsProcessed: number;
+  counts: Record<SyncJobOutcome, number>;
+  fetchErrors?: Record<string, string>;
+  errorMessage?: string;
+};
+
+// Bulk fetches besides the job list itself. If one fails the sync carries on as 'partial' and the
+// fields it feeds keep their stored values.
+type SubFetch = "contacts" | "companies" | "customFields" | "notes" | "clientContacts" | "badges" | "communications" | "staff";
+
+// High-water marks held back when a sub-fetch fails, so the records it missed are fetched again next run
+const SUB_FETCH_CURSORS: Record<SubFetch, SyncObjectType[]> = {
+  contacts: ["jobcontact"],
+  companies: ["company"],
+  customFields: ["job"],
+  notes: ["feeditem", "note"],
+  clientContacts: ["feeditem"],
+  badges: ["job"],
+  communications: ["feeditem", "note"],
+  staff: [],
+};
+
+// Everything the per-job step needs from the bulk fetches
+type SyncContext = {
+  sm8Client: ServiceM8Client;
+  mode: SyncMode;
+  companyMap: Map<string, string>;
+  contactMap: Map<string, { first: string; last: string }>;
+  customFieldMap: Map<string, Record<string, string>>;
+  customFieldMappings: CustomFieldMapping[];
+  notesMap: Map<string, LastCommunication>;
+  clientContactMap: Map<string, LastCommunication>;
+  badgeDefinitions: Map<string, string>;
+  staffMembers: Staff[]; // For linking jobs to staff
+  statusRules: StatusRule[];
+  quoteAgingBands: QuoteAgingBand[];
+  existingJobs: Map<string, SelectJob>;
+  relatedJobUuids: Set<string>; // Jobs fetched individually because only their feed items or contacts changed
+  failedFetches: Set<SubFetch>;
+};
+
+// Only one sync runs at a time, so a manual sync can't overlap the auto-sync timer and a webhook
+// can't write jobs while a full or incremental sync is working through them
+let runningSync: Promise<unknown> | null = null;
+
+export function isSyncRunning(): boolean {
+  return runningSync !== null;
+}
+
+// Run a sync holding the lock. Callers check isSyncRunning (or wait for it) first, with no await in between.
+async function holdingSyncLock<T>(run: () => Promise<T>): Promise<T> {
+  const sync = run();
+  runningSync = sync;
+  try {
+    return await sync;
+  } finally {
+    runningSync = null;
+  }
+}
+
+// Wait for the running sync, if any, to finish. Returns with no sync running.
+async function waitForSyncLock(): Promise<void> {
+  while (runningSync) {
+    await runningSync.catch(() => undefined);
+  }
+}
+
+// Pull jobs from ServiceM8 and upsert them. Returns null when ServiceM8 isn't configured.
+export async function runServiceM8Sync(options: { trigger: "manual" | "automatic"; mode?: SyncMode }): Promise<SyncResult | null> {
+  const { timeZone, quoteAgingBands } = await getCompanySettings();
+  const sm8Client = createServiceM8Client(undefined, { timeZone });
+  if (!sm8Client) return null;
+  if (isSyncRunning()) {
+    throw new Error("A ServiceM8 sync is already running");
+  }
+
+  return holdingSyncLock(async () => {
+    const { mode, since } = await resolveSyncMode(options.mode);
+    const metadata: SyncLogMetadata = { trigger: options.trigger, since };
+
+    const syncLog = await storage.createSyncLog({
+      syncType: mode,
+      status: "in_progress",
+      startedAt: new Date(),
+      jobsProcessed: 0,
+      metadata,
+    });
+    const progress = createProgressReporter(syncLog.id, metadata);
+    sm8Client.setProgressListener((fetched) => progress.report(fetched));
+
+    const reports: SyncJobReport[] = [];
+    try {
+      await loadCommClassifier(sm8Client, mode);
+
+      // Staff first, so this run can link jobs to anyone new. If it fails, jobs link to the staff already stored.
+      let staffMembers: Staff[];
+      let staffError: string | undefined;
+      try {
+        const staffSync = await syncStaffFromServiceM8(sm8Client);
+        staffMembers = staffSync.staff;
+        if (staffSync.created + staffSync.updated > 0) await linkJobsToStaff(staffMembers);
+      } catch (error: any) {
+        staffError = error.message || String(error);
+        console.error("[Sync] Failed to sync staff, linking jobs to stored staff:", staffError);
+        staffMembers = await storage.getAllStaff();
+      }
+
+      // Bulk fetch all data in parallel for speed (including custom fields for staff assignment and badge definitions)
+      const [jobsResult, ...subFetchResults] = await Promise.allSettled([
+        sm8Client.fetchJobs(since.job),
+        sm8Client.fetchAllJobContacts(since.jobcontact),
+        sm8Client.fetchAllCompanies(since.company),
+        sm8Client.fetchAllJobCustomFields(since.job),
+        sm8Client.fetchAllJobNotes(since.feeditem, since.note),
+        sm8Client.fetchLastClientContact(since.feeditem), // When the CLIENT last contacted us
+        sm8Client.fetchBadges(),
+        sm8Client.fetchAllCommunications(since.feeditem, since.note)
+      ]);
+      if (jobsResult.status === "rejected") throw jobsResult.reason;
+      const changedJobs = jobsResult.value;
+
+      const fetchErrors: Partial<Record<SubFetch, string>> = {};
+      if (staffError) fetchErrors.staff = staffError;
+      const [contactMap, companyMap, customFieldMap, notesMap, clientContactMap, badgeDefinitions] = [
+        settledOrEmpty(subFetchResults[0], "contacts", fetchErrors),
+        settledOrEmpty(subFetchResults[1], "companies", fetchErrors),
+        settledOrEmpty(subFetchResults[2], "customFields", fetchErrors),
+        settledOrEmpty(subFetchResults[3], "notes", fetchErrors),
+        settledOrEmpty(subFetchResults[4], "clientContacts", fetchErrors),
+        settledOrEmpty(subFetchResults[5], "badges", fetchErrors),
+      ];
+
+      // Every feed item and note is kept for the job timelines
+      const communicationsResult = subFetchResults[6];
+      if (communicationsResult.status === "fulfilled") {
+        await storage.saveCommunications(communicationsResult.value);
+      } else {
+        fetchErrors.communications = communicationsResult.reason?.message || String(communicationsResult.reason);
+        console.error("[Sync] Failed to fetch communications, timelines keep what they have:", fetchErrors.communications);
+      }
+      const failedFetches = new Set(Object.keys(fetchErrors) as SubFetch[]);
+      if (failedFetches.size > 0) metadata.fetchErrors = fetchErrors;
+
+      // Incremental runs also pick up jobs that only had new feed items or contacts
+      const relatedJobs = mode === "incremental"
+        ? await fetchRelatedJobs(sm8Client, changedJobs, [...Array.from(notesMap.keys()), ...Array.from(clientContactMap.keys()), ...Array.from(contactMap.keys())])
+        : [];
+
+      const context: SyncContext = {
+        sm8Client,
+        mode,
+        companyMap,
+        contactMap,
+        customFieldMap,
+        customFieldMappings: (await getCustomFieldMappings()).mappings,
+        notesMap,
+        clientContactMap,
+        badgeDefinitions,
+        staffMembers,
+        statusRules: await getSyncStatusRules(),
+        quoteAgingBands,
+        existingJobs: mode === "incremental"
+          ? new Map((await storage.getAllJobs()).map(job => [job.serviceM8Uuid, job]))
+          : new Map(),
+        relatedJobUuids: new Set(relatedJobs.map(job => job.uuid)),
+        failedFetches,
+      };
+
+      for (const sm8Job of [...changedJobs, ...relatedJobs]) {
+        reports.push(await syncJobSafely(context, sm8Job));
+      }
+
+      if (mode === "full") {
+        reports.push(...await archiveMissingJobs(sm8Client, changedJobs));
+      }
+
+      if (mode === "incremental") {
+        await refreshTimeDerivedFields(quoteAgingBands);
+      }
+      const cursors = sm8Client.getHighWaterMarks();
+      failedFetches.forEach(subFetch => SUB_FETCH_CURSORS[subFetch].forEach(objectType => delete cursors[objectType]));
+      await saveSyncCursors(cursors, since);
+
+      await progress.flush();
+      return await finishSyncLog(syncLog.id, mode, reports, { ...metadata, cursors, fetched: sm8Client.getFetchCounts() });
+    } catch (error: any) {
+      console.error(`[Sync] ${mode} sync failed:`, error.message);
+      await progress.flush();
+      return await finishSyncLog(syncLog.id, mode, reports, { ...metadata, fetched: sm8Client.getFetchCounts() }, error.message);
+    }
+  });
+}
+
+// Re-sync only the jobs affected by a ServiceM8 webhook callback, after any sync already running.
+// Returns null when ServiceM8 isn't configured.
+export async function runWebhookSync(object: string, recordUuids: string[]): Promise<SyncResult | null> {
+  const { timeZone, quoteAgingBands } = await getCompanySettings();
+  const sm8Client = createServiceM8Client(undefined, { timeZone });
+  if (!sm8Client) return null;
+
+  await waitForSyncLock();
+  return holdingSyncLock(() => syncWebhookJobs(sm8Client, quoteAgingBands, object, recordUuids));
+}
+
+async function syncWebhookJobs(
+  sm8Client: ServiceM8Client,
+  quoteAgingBands: QuoteAgingBand[],
+  object: string,
+  recordUuids: string[]
+): Promise<SyncResult> {
+  const metadata: SyncLogMetadata = { trigger: "webhook", object, recordUuids };
+  const syncLog = await storage.createSyncLog({
+    syncType: "webhook",
+    status: "in_progress",
+    startedAt: new Date(),
+    jobsProcessed: 0,
+    metadata,
+  });
+
+  const reports: SyncJobReport[] = [];
+  try {
+    const jobUuids = await resolveWebhookJobUuids(sm8Client, object, recordUuids);
+
+    // Single jobs are looked up one by one, and communication fields are left to the
+    // scheduled sync, which reads the whole feed
+    const context: SyncContext = {
+      sm8Client,
+      mode: "incremental",
+      companyMap: new Map(),
+      contactMap: new Map(),
+      customFieldMap: new Map(),
+      customFieldMappings: (await getCustomFieldMappings()).mappings,
+      notesMap: new Map(),
+      clientContactMap: new Map(),
+      badgeDefinitions: jobUuids.length > 0 ? await sm8Client.fetchBadges() : new Map(),
+      staffMembers: await storage.getAllStaff(),
+      statusRules: await getSyncStatusRules(),
+      quoteAgingBands,
+      existingJobs: new Map(),
+      relatedJobUuids: new Set(),
+      failedFetches: new Set(),
+    };
+
+    for (const jobUuid of jobUuids) {
+      const sm8Job = await sm8Client.fetchJob(jobUuid);
+      if (!isActiveInServiceM8(sm8Job)) {
+        const existing = await storage.getJobByServiceM8Uuid(jobUuid);
+        reports.push(existing && !existing.archivedAt
+          ? await archiveJob(existing, inactiveReason(sm8Job))
+          : { serviceM8Uuid: jobUuid, outcome: "skipped", reason: "Job is not active in ServiceM8" });
+        continue;
+      }
+      const customFields = await sm8Client.fetchJobCustomFields(jobUuid);
+      customFields.forEach((fields, uuid) => context.customFieldMap.set(uuid, fields));
+      reports.push(await syncJobSafely(context, sm8Job));
+    }
+
+    return await finishSyncLog(syncLog.id, "webhook", reports, metadata);
+  } catch (error: any) {
+    console.error("[Sync] Webhook sync failed:", error.message);
+    return await finishSyncLog(syncLog.id, "webhook", reports, metadata, error.message);
+  }
+}
+
+// Archive local jobs a full sync didn't see, which ServiceM8 has deleted or deactivated. Each one is
+// looked up first, so a job missing from the list for any other reason stays on the boards.
+async function archiveMissingJobs(sm8Client: ServiceM8Client, activeJobs: ServiceM8Job[]): Promise<SyncJobReport[]> {
+  // An empty job list more likely means the wrong account or a ServiceM8 fault than no jobs at all
+  if (activeJobs.length === 0) {
+    console.warn("[Sync] ServiceM8 returned no active jobs, not archiving anything");
+    return [];
+  }
+
+  const activeUuids = new Set(activeJobs.map(job => job.uuid));
+  const reports: SyncJobReport[] = [];
+  for (const job of await storage.getUnarchivedJobs()) {
+    if (activeUuids.has(job.serviceM8Uuid)) continue;
+    try {
+      const sm8Job = await sm8Client.fetchJob(job.serviceM8Uuid);
+      if (!isActiveInServiceM8(sm8Job)) reports.push(await archiveJob(job, inactiveReason(sm8Job)));
+    } catch (error: any) {
+      console.error(`[Sync] Failed to check whether job ${job.jobId} is still in ServiceM8:`, error.message);
+      reports.push({
+        serviceM8Uuid: job.serviceM8Uuid,
+        jobId: job.id,
+        jobNumber: job.jobId,
+        customerName: job.customerName,
+        outcome: "skipped",
+        reason: `Error: couldn't check whether the job is still active in ServiceM8 - ${error.message}`,
+      });
+    }
+  }
+  return reports;
+}
+
+function isActiveInServiceM8(sm8Job: ServiceM8Job | null): sm8Job is ServiceM8Job {
+  return !!sm8Job && Number(sm8Job.active) === 1;
+}
+
+function inactiveReason(sm8Job: ServiceM8Job | null): string {
+  return sm8Job ? "Deactivated in ServiceM8" : "Deleted in ServiceM8";
+}
+
+async function archiveJob(job: SelectJob, reason: string): Promise<SyncJobReport> {
+  await storage.archiveJob(job.id, reason);
+  console.log(`[Sync] Archived job ${job.jobId}: ${reason}`);
+  return {
+    serviceM8Uuid: job.serviceM8Uuid,
+    jobId: job.id,
+    jobNumber: job.jobId,
+    customerName: job.customerName,
+    outcome: "archived",
+    reason,
+  };
+}
+
+// Map one ServiceM8 job and upsert it, reporting what changed
+async function syncJob(context: SyncContext, sm8Job: ServiceM8Job): Promise<SyncJobReport> {
+  const { sm8Client, mode } = context;
+
+  const { failedFetches } = context;
+
+  // When the bulk company or contact fetch failed, look names up one by one as incremental runs do
+  const lookUpMissingNames = mode === "incremental" || failedFetches.has("companies") || failedFetches.has("contacts");
+  const customerName = await resolveCustomerName(sm8Client, sm8Job, context.companyMap, context.contactMap, lookUpMissingNames);
+
+  // Custom fields were only fetched for edited jobs (or not at all), so the status rules see the stored
+  // values and the current staff assignment and other mapped attributes are kept
+  const customFieldsMissing = context.relatedJobUuids.has(sm8Job.uuid) || failedFetches.has("customFields");
+  let customFieldMap = context.customFieldMap;
+  if (customFieldsMissing) {
+    const existing = context.existingJobs.get(sm8Job.uuid) ?? await storage.getJobByServiceM8Uuid(sm8Job.uuid);
+    customFieldMap = new Map([[sm8Job.uuid, existing?.serviceM8CustomFields ?? {}]]);
+  }
+
+  const mappedJob = sm8Client.mapServiceM8JobToInsertJob(sm8Job, {
+    customerName,
+    customFieldMap,
+    customFieldMappings: context.customFieldMappings,
+    badgeDefinitions: context.badgeDefinitions,
+    statusRules: context.statusRules,
+    quoteAgingBands: context.quoteAgingBands,
+  });
+
+  if (customFieldsMissing) {
+    delete mappedJob.assignedStaff;
+    delete mappedJob.fenceLength;
+    delete mappedJob.gateCount;
+    delete mappedJob.leadSource;
+    delete mappedJob.extraFields;
+    delete mappedJob.serviceM8CustomFields;
+  }
+  if (mappedJob.assignedStaff !== undefined) {
+    mappedJob.assignedStaffId = matchStaffId(mappedJob.assignedStaff, context.staffMembers);
+  }
+  // Without badge definitions the badges would be stored as raw uuids
+  if (failedFetches.has("badges")) {
+    delete mappedJob.badges;
+  }
+
+  applyCommunicationFields(
+    mappedJob,
+    context.notesMap.get(sm8Job.uuid),
+    context.clientContactMap.get(sm8Job.uuid),
+    mode,
+    context.existingJobs.get(sm8Job.uuid),
+    failedFetches
+  );
+
+  const { job, outcome, changes, conflicts } = await storage.upsertJobByServiceM8Uuid(mappedJob);
+  if (conflicts.length > 0) {
+    console.log(`[Sync] Job ${job.jobId}: ${conflicts.join(", ")} changed in ServiceM8 and here, queued for review`);
+  }
+  return {
+    serviceM8Uuid: sm8Job.uuid,
+    jobId: job.id,
+    jobNumber: job.jobId,
+    customerName: job.customerName,
+    outcome,
+    ...(outcome === "updated" ? { changes } : {}),
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+  };
+}
+
+// One bad job shouldn't abort the whole sync - report it as skipped instead
+async function syncJobSafely(context: SyncContext, sm8Job: ServiceM8Job): Promise<SyncJobReport> {
+  try {
+    return await syncJob(context, sm8Job);
+  } catch (error: any) {
+    console.error(`[Sync] Failed to sync job ${sm8Job.uuid}:`, error.message);
+    return {
+      serviceM8Uuid: sm8Job.uuid,
+      jobNumber: sm8Job.generated_job_id ? `#${sm8Job.generated_job_id}` : undefined,
+      outcome: "skipped",
+      reason: `Error: ${error.message}`,
+    };
+  }
+}
+
+// Value of a settled sub-fetch, or an empty map (recording the error) if it failed
+function settledOrEmpty<K, V>(
+  result: PromiseSettledResult<Map<K, V>>,
+  subFetch: SubFetch,
+  fetchErrors: Partial<Record<SubFetch, string>>
+): Map<K, V> {
+  if (result.status === "fulfilled") return result.value;
+  fetchErrors[subFetch] = result.reason?.message || String(result.reason);
+  console.error(`[Sync] Failed to fetch ${subFetch}, keeping existing values:`, fetchErrors[subFetch]);
+  return new Map();
+}
+
+// How often fetch progress is written to an in-progress sync log
+const PROGRESS_INTERVAL_MS = 2000;
+
+// Record running fetch counts on the sync log while pages are still coming in, at most every PROGRESS_INTERVAL_MS.
+// flush() waits for the last write so it can't land on top of the final sync log update.
+function createProgressReporter(syncLogId: number, metadata: SyncLogMetadata) {
+  let lastWrite = 0;
+  let pending: Promise<unknown> = Promise.resolve();
+  return {
+    report(fetched: Record<string, number>) {
+      const now = Date.now();
+      if (now - lastWrite < PROGRESS_INTERVAL_MS) return;
+      lastWrite = now;
+      pending = pending
+        .then(() => storage.updateSyncLog(syncLogId, { metadata: { ...metadata, fetched } }))
+        .catch((error) => console.error("[Sync] Failed to record fetch progress:", error.message));
+    },
+    flush: () => pending,
+  };
+}
+
+// Write the per-job report and final status to the sync log
+async function finishSyncLog(
+  syncLogId: number,
+  syncType: string,
+  reports: SyncJobReport[],
+  metadata: SyncLogMetadata,
+  errorMessage?: string
+): Promise<SyncResult> {
+  const counts: Record<SyncJobOutcome, number> = { created: 0, updated: 0, unchanged: 0, skipped: 0, archived: 0 };
+  for (const report of reports) {
+    counts[report.outcome]++;
+  }
+  const jobsProcessed = reports.length - counts.skipped;
+  const hadJobErrors = reports.some(report => report.reason?.startsWith("Error:"));
+  const hadFetchErrors = Object.keys(metadata.fetchErrors || {}).length > 0;
+  const status = errorMessage ? "error" : hadJobErrors || hadFetchErrors ? "partial" : "success";
+
+  await storage.updateSyncLog(syncLogId, {
+    status,
+    jobsProcessed,
+    errorMessage: errorMessage ?? null,
+    completedAt: new Date(),
+    metadata: { ...metadata, counts, jobs: reports },
+  });
+
+  console.log(`[Sync] ${syncType} sync ${status}: ${counts.created} created, ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.skipped} skipped, ${counts.archived} archived`);
+  publishEvent({ type: "sync_completed", syncType, status, counts });
+  return { syncLogId, syncType, status, jobsProcessed, counts, fetchErrors: metadata.fetchErrors, errorMessage };
+}
+
+// Staff and customer contacts for the communication classifier. Reading every job contact is too
+// slow for each incremental run, so they're reloaded on full syncs or once they're this old.
+const CLASSIFIER_CONTACTS_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+let classifierContacts: { contacts: ClassifierContacts; loadedAt: number } | null = null;
+
+async function loadCommClassifier(sm8Client: ServiceM8Client, mode: SyncMode): Promise<void> {
+  if (mode === "full" || !classifierContacts || Date.now() - classifierContacts.loadedAt > CLASSIFIER_CONTACTS_MAX_AGE_MS) {
+    try {
+      classifierContacts = { contacts: await sm8Client.fetchClassifierContacts(), loadedAt: Date.now() };
+    } catch (error: any) {
+      // Classifying by item types and wording alone is still better than not syncing
+      console.error("[Sync] Failed to load contacts for the communication classifier:", error.message);
+    }
+  }
+  const contacts = classifierContacts?.contacts ?? { staff: emptyContactPoints(), customers: emptyContactPoints() };
+  sm8Client.setCommClassifier(contacts, await getCommRules());
+}
+
+// Saved classifier rules, or the built-in defaults if none are saved (or they no longer validate)
+async function getCommRules(): Promise<CommRule[]> {
+  const saved = await storage.getAppSetting(COMM_RULES_SETTING_KEY);
+  if (saved === undefined || saved === null) return DEFAULT_COMM_RULES;
+
+  const parsed = commRulesSchema.safeParse(saved);
+  if (!parsed.success) {
+    console.error("[Sync] Saved communication classifier rules are invalid, using defaults:", parsed.error.message);
+    return DEFAULT_COMM_RULES;
+  }
+  return parsed.data;
+}
+
+// Even when an incremental sync is possible, run a full one at least this often. It catches anything
+// edit_date deltas can't see, such as jobs that were deleted or deactivated in ServiceM8, which it archives.
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Decide whether this run can be incremental, and which high-water marks it resumes from
+async function resolveSyncMode(requestedMode?: SyncMode): Promise<{ mode: SyncMode; since: SyncCursorMap }> {
+  if (requestedMode === "full") return { mode: "full", since: {} };
+
+  const since: SyncCursorMap = {};
+  for (const cursor of await storage.getSyncCursors()) {
+    since[cursor.objectType as SyncObjectType] = cursor.lastEditDate;
+  }
+  // Nothing synced yet - start with everything
+  if (!since.job) return { mode: "full", since: {} };
+
+  if (requestedMode !== "incremental") {
+    // A full sync that ended 'partial' still counts, or one flaky endpoint would force full syncs until a clean run
+    const lastFullSync = await storage.getLastCompletedSync("full");
+    if (!lastFullSync || Date.now() - lastFullSync.startedAt.getTime() > FULL_SYNC_INTERVAL_MS) {
+      return { mode: "full", since: {} };
+    }
+  }
+
+  return { mode: "incremental", since };
+}
+
+// Store the newest edit_date seen per object type, never moving a cursor backwards
+async function saveSyncCursors(highWaterMarks: SyncCursorMap, previous: SyncCursorMap) {
+  for (const [objectType, lastEditDate] of Object.entries(highWaterMarks)) {
+    const previousEditDate = previous[objectType as SyncObjectType];
+    if (lastEditDate && (!previousEditDate || lastEditDate > previousEditDate)) {
+      await storage.saveSyncCursor(objectType, lastEditDate);
+    }
+  }
+}
+
+// A new feed item or contact doesn't touch the job's own edit_date, so fetch those jobs one by one
+async function fetchRelatedJobs(sm8Client: ServiceM8Client, changedJobs: ServiceM8Job[], relatedJobUuids: string[]): Promise<ServiceM8Job[]> {
+  const seen = new Set(changedJobs.map(job => job.uuid));
+  const relatedJobs: ServiceM8Job[] = [];
+  for (const jobUuid of relatedJobUuids) {
+    if (seen.has(jobUuid)) continue;
+    seen.add(jobUuid);
+    const sm8Job = await sm8Client.fetchJob(jobUuid);
+    if (sm8Job && Number(sm8Job.active) === 1) {
+      relatedJobs.push(sm8Job);
+    }
+  }
+  return relatedJobs;
+}
+
+// Customer name: prioritize company name, then job contact. Incremental runs only fetched changed
+// companies and contacts, so with lookUpMissing anything missing from the maps is looked up individually.
+async function resolveCustomerName(
+  sm8Client: ServiceM8Client,
+  sm8Job: ServiceM8Job,
+  companyMap: Map<string, string>,
+  contactMap: Map<string, { first: string; last: string }>,
+  lookUpMissing: boolean
+): Promise<string> {
+  // First try company name (this is the main customer record in ServiceM8)
+  if (sm8Job.company_uuid) {
+    let companyName = companyMap.get(sm8Job.company_uuid);
+    if (!companyName && lookUpMissing) {
+      const company = await sm8Client.fetchCompany(sm8Job.company_uuid);
+      if (company && company.name !== "Unknown") companyName = company.name;
+    }
+    if (companyName) return companyName;
+  }
+
+  // Fall back to job contact name if no company
+  const contact = contactMap.get(sm8Job.uuid) || (lookUpMissing ? await sm8Client.fetchJobContact(sm8Job.uuid) : null);
+  if (contact && (contact.first || contact.last)) {
+    return `${contact.first} ${contact.last}`.trim();
+  }
+
+  return "Unknown Customer";
+}
+
+// A full sync sees the whole feed, so a job with no communication gets its fields cleared.
+// An incremental sync only sees new feed items, so it can move the fields forward but never clear them.
+// If the feed couldn't be fetched at all, the stored fields are left alone.
+function applyCommunicationFields(
+  mappedJob: InsertJob,
+  lastComm: LastCommunication | undefined,
+  lastClientContact: LastCommunication | undefined,
+  mode: SyncMode,
+  existing: SelectJob | undefined,
+  failedFetches: Set<SubFetch>
+) {
+  const daysSince = (date: Date) => Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+  // Add communication history (any direction - inbound or outbound)
+  if (failedFetches.has("notes")) {
+    delete mappedJob.daysSinceLastContact;
+  } else if (lastComm && (mode === "full" || !existing?.lastCommunicationDate || lastComm.date >= existing.lastCommunicationDate)) {
+    mappedJob.lastCommunicationDate = lastComm.date;
+    mappedJob.lastCommunicationType = lastComm.type;
+    mappedJob.lastCommunicationDirection = lastComm.direction;
+    mappedJob.daysSinceLastContact = daysSince(lastComm.date);
+  } else if (mode === "full") {
+    mappedJob.lastCommunicationDate = null;
+    mappedJob.lastCommunicationType = null;
+    mappedJob.lastCommunicationDirection = null;
+    mappedJob.daysSinceLastContact = null;
+  } else {
+    delete mappedJob.daysSinceLastContact;
+  }
+
+  // Add CLIENT contact tracking (inbound only - when client contacted US)
+  if (failedFetches.has("clientContacts")) {
+    return;
+  }
+  if (lastClientContact && (mode === "full" || !existing?.lastClientContactDate || lastClientContact.date >= existing.lastClientContactDate)) {
+    mappedJob.lastClientContactDate = lastClientContact.date;
+    mappedJob.lastClientContactType = lastClientContact.type;
+    mappedJob.daysSinceClientContact = daysSince(lastClientContact.date);
+  } else if (mode === "full") {
+    mappedJob.lastClientContactDate = null;
+    mappedJob.lastClientContactType = null;
+    mappedJob.daysSinceClientContact = null;
+  }
+}
+
+// Incremental syncs only rewrite changed jobs, so recompute the "days since" counters and the
+// recency-based Quotes Pipeline column for every other job from its stored timestamps
+async function refreshTimeDerivedFields(quoteAgingBands: QuoteAgingBand[]) {
+  const now = new Date();
+  // Only jobs sitting in an aging column move on; columns set by hand (in discussion, on hold...) stay put
+  const agingStages = new Set(quoteAgingBands.map(band => band.stage));
+  const daysSince = (date: Date) => Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+  for (const job of await storage.getUnarchivedJobs()) {
+    const updates: Partial<InsertJob> = {};
+
+    if (job.quoteSentAt) {
+      const { daysSinceQuoteSent, hoursSinceQuoteSent } = calculateQuoteAge(job.quoteSentAt, now);
+      if (daysSinceQuoteSent !== job.daysSinceQuoteSent) updates.daysSinceQuoteSent = daysSinceQuoteSent;
+      if (hoursSinceQuoteSent !== job.hoursSinceQuoteSent) updates.hoursSinceQuoteSent = hoursSinceQuoteSent;
+      if (job.salesStage && agingStages.has(job.salesStage)) {
+        const salesStage = deriveSalesStage(daysSinceQuoteSent, quoteAgingBands);
+        if (salesStage !== job.salesStage) updates.salesStage = salesStage;
+      }
+    }
+    if (job.lastCommunicationDate && daysSince(job.lastCommunicationDate) !== job.daysSinceLastContact) {
+      updates.daysSinceLastContact = daysSince(job.lastCommunicationDate);
+    }
+    if (job.lastClientContactDate && daysSince(job.lastClientContactDate) !== job.daysSinceClientContact) {
+      updates.daysSinceClientContact = daysSince(job.lastClientContactDate);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await storage.updateJob(job.id, updates, SYNC_ACTOR);
+    }
+  }
+}
+
+// Work out which jobs a callback affects: job events name the job, company events affect all of
+// that customer's active jobs, and note events affect the job the note is attached to
+async function resolveWebhookJobUuids(sm8Client: ServiceM8Client, object: string, recordUuids: string[]): Promise<string[]> {
+  const jobUuids = new Set<string>();
+
+  for (const uuid of recordUuids) {
+    if (object === "job") {
+      jobUuids.add(uuid);
+    } else if (object === "company") {
+      for (const sm8Job of await sm8Client.fetchJobsForCompany(uuid)) {
+        jobUuids.add(sm8Job.uuid);
+      }
+    } else if (object === "note") {
+      const note = await sm8Client.fetchNote(uuid);
+      if (note?.related_object === "job" && note.related_object_uuid) {
+        jobUuids.add(note.related_object_uuid);
+      }
+    } else {
+      console.log(`[Webhook] Ignoring unsupported object type "${object}"`);
+    }
+  }
+
+  return Array.from(jobUuids);
+}
+
+// Auto-sync function that runs periodically
+async function runAutoSync() {
+  if (isSyncRunning()) {
+    console.log("[AutoSync] Previous sync still running, skipping");
+    return;
+  }
+
+  try {
+    console.log("[AutoSync] Starting automatic sync...");
+    const result = await runServiceM8Sync({ trigger: "automatic" });
+    if (!result) {
+      console.log("[AutoSync] ServiceM8 not configured, skipping sync");
+      return;
+    }
+
+    if (result.status === "error") {
+      console.error("[AutoSync] Error:", result.errorMessage);
+    } else {
+      console.log(`[AutoSync] Successfully synced ${result.jobsProcessed} jobs (${result.syncType})`);
+    }
+  } catch (error: any) {
+    console.error("[AutoSync] Failed:", error.message);
+  }
+}
+
+// Start auto-sync with configurable interval (default: 15 minutes)
+export function startAutoSync(intervalMinutes: number = 15) {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  
+  // Run initial sync after 10 seconds (give server time to start)
+  setTimeout(() => {
+    runAutoSync();
+  }, 10000);
+  
+  // Then run every intervalMinutes
+  setInterval(() => {
+    runAutoSync();
+  }, intervalMs);
+  
+  console.log(`[AutoSync] Scheduled to run every ${intervalMinutes} minutes`);
+}
@@ -0,0 +1,33 @@
+import type { FieldChange, SelectJob } from "@shared/schema";
+import { diffFields, valuesEqual } from "./changes";
+
+// Each user's undo stack of job edits made from the boards and scheduler. An entry keeps only the
+// fields the edit asked for; anything the server changed alongside them (a ServiceM8 write for a
+// pipeline move, field provenance) follows from reapplying those fields.
+
+export const UNDO_DEPTH = 20;
+
+const UNDO_IGNORED_FIELDS = ["updatedAt", "fieldProvenance"];
+
+// The requested fields that actually changed, read before the edit was saved
+export function undoChanges(existing: SelectJob, requested: Record<string, unknown>): FieldChange[] {
+  return diffFields(existing, requested, UNDO_IGNORED_FIELDS);
+}
+
+// 'Change install stage and post install date on #1042'
+export function describeUndo(job: SelectJob, changes: FieldChange[]): string {
+  const fields = changes.map(change => change.field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase());
+  const list = fields.length > 1 ? `${fields.slice(0, -1).join(", ")} and ${fields[fields.length - 1]}` : fields[0];
+  return `Change ${list} on ${job.jobId}`;
+}
+
+// Whether the job still holds the values on one side of the edit. If someone or something else has
+// changed those fields since, undoing or redoing would overwrite their work.
+export function jobMatches(job: SelectJob, changes: FieldChange[], side: "before" | "after"): boolean {
+  return changes.every(change => valuesEqual((job as Record<string, unknown>)[change.field], change[side]));
+}
+
+// The fields to write to take the job to one side of the edit
+export function undoValues(changes: FieldChange[], side: "before" | "after"): Record<string, unknown> {
+  return Object.fromEntries(changes.map(change => [change.field, change[side]]));
+}
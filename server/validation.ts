@@ -0,0 +1,23 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+import type { ApiIssue } from "@shared/api";
+
+// Checks the request body against one of the schemas in shared/api.ts before the handler runs.
+// A body that doesn't match is refused with 400 and an issue per field, e.g.
+// { error: [{ path: ["installStage"], message: "Invalid enum value..." }] }. Otherwise req.body is
+// replaced with the parsed result, so handlers see coerced values and nothing the schema doesn't list.
+export function validateBody(schema: z.ZodTypeAny) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: apiIssues(result.error) });
+    }
+    req.body = result.data;
+    next();
+  };
+}
+
+// A failed parse as the issue list a 400 carries. prefix puts the issues under a field of the body.
+export function apiIssues(error: z.ZodError, prefix: (string | number)[] = []): ApiIssue[] {
+  return error.errors.map(issue => ({ path: [...prefix, ...issue.path], message: issue.message }));
+}
@@ -0,0 +1,326 @@
+import { z } from "zod";
+import {
+  INSTALL_STAGES,
+  PURCHASE_ORDER_STATUSES,
+  SCHEDULER_STAGES,
+  STAGE_CATEGORIES,
+  STAGE_PROGRESS_STATUSES,
+  SYNC_JOB_OUTCOMES,
+  createUserSchema,
+  insertStaffSchema,
+  insertWorkTypeSchema,
+  insertWorkTypeStageSchema,
+  updateUserSchema,
+  type AppSettingEntry,
+  type SelectJob,
+  type SyncJobOutcome,
+  type SyncLogSummary,
+} from "./schema";
+import { statusRulesSchema } from "./statusRules";
+import { customFieldMappingsSchema } from "./customFields";
+import { isValidTimeZone, quoteAgingBandsSchema } from "./companySettings";
+import type { AuthUser } from "./permissions";
+
+// The API contract: request bodies as zod schemas, which the server enforces with validateBody
+// (server/validation.ts), and response schemas for what the routes answer. The client imports only
+// the types from here (see client/src/lib/api.ts), so none of this ends up in its bundle.
+
+// ============== REQUESTS ==============
+
+// POST /api/auth/login
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Optional on job and stage progress PATCH bodies: the version the client edited. A stale edit is
+// refused with 409 and the current record, rather than overwriting someone else's change.
+const expectedVersion = z.number().int().min(1).optional();
+
+// Sent as ISO strings; null clears the date
+const nullableDate = z.coerce.date().nullable();
+const nullableCount = z.number().int().min(0).nullable();
+
+// PATCH /api/jobs/:id. Only the fields the boards and scheduler edit: everything else comes from
+// ServiceM8 or is worked out by the server, so any other field is refused.
+export const jobUpdateSchema = z.object({
+  status: z.string().trim().min(1),
+  salesStage: z.string().trim().min(1).nullable(),
+  schedulerStage: z.enum(SCHEDULER_STAGES),
+  installStage: z.enum(INSTALL_STAGES),
+  purchaseOrderStatus: z.enum(PURCHASE_ORDER_STATUSES),
+  workTypeId: z.number().int().positive().nullable(),
+  currentStageId: z.number().int().positive().nullable(),
+  postInstallDate: nullableDate,
+  panelInstallDate: nullableDate,
+  tentativePostDate: nullableDate,
+  tentativePanelDate: nullableDate,
+  tentativeNotes: z.string().nullable(),
+  estimatedProductionDuration: nullableCount,
+  postInstallDuration: nullableCount,
+  postInstallCrewSize: nullableCount,
+  panelInstallDuration: nullableCount,
+  panelInstallCrewSize: nullableCount,
+}).partial().extend({ expectedVersion }).strict();
+
+// PATCH /api/jobs/:jobId/stage-progress/:stageId. Completion time and who completed it are set by the server.
+export const stageProgressUpdateSchema = z.object({
+  status: z.enum(STAGE_PROGRESS_STATUSES),
+  notes: z.string().nullable(),
+  subStageProgress: z.array(z.object({
+    id: z.string(),
+    completed: z.boolean(),
+    completedAt: z.string().optional(),
+  })).nullable(),
+}).partial().extend({ expectedVersion }).strict();
+
+// POST /api/jobs/:jobId/initialize-stages
+export const initializeStagesSchema = z.object({
+  workTypeId: z.number().int().positive(),
+});
+
+// The version of an app setting the client loaded (0 for a key that isn't saved yet). A save from a
+// stale copy is refused with 409 and the current value.
+const settingVersion = z.number().int().min(0);
+
+// PUT /api/settings/:key. The value is checked against the key's own schema by the route.
+export const settingUpdateSchema = z.object({
+  value: z.any().refine(value => value !== undefined, { message: "value is required" }),
+  expectedVersion: settingVersion,
+});
+
+// The 'pipelines' setting: each board's columns in order. Sync reads the Leads Pipeline's ServiceM8 links.
+const pipelineColumnSchema = z.object({
+  id: z.string().trim().min(1),
+  title: z.string(),
+  color: z.string().optional(),
+  serviceM8Status: z.string().optional(),
+  serviceM8Badge: z.string().optional(),
+}).passthrough();
+
+export const pipelinesSettingSchema = z.object({
+  leads: z.array(pipelineColumnSchema),
+  quotes: z.array(pipelineColumnSchema),
+  production: z.array(pipelineColumnSchema),
+}).passthrough();
+
+// The 'appSettings' blob. Only the fields sync reads are checked; the rest is the client's.
+export const appSettingsSettingSchema = z.object({
+  companyTimezone: z.string().refine(isValidTimeZone, { message: "Unknown timezone" }).optional(),
+  quoteAgingBands: quoteAgingBandsSchema.optional(),
+}).passthrough();
+
+// POST /api/status-rules/preview
+export const statusRulesRequestSchema = z.object({
+  rules: statusRulesSchema,
+});
+
+// PUT /api/status-rules
+export const statusRulesUpdateSchema = statusRulesRequestSchema.extend({
+  expectedVersion: settingVersion,
+});
+
+// PUT /api/custom-field-mappings
+export const customFieldMappingsRequestSchema = z.object({
+  mappings: customFieldMappingsSchema,
+  expectedVersion: settingVersion,
+});
+
+// POST /api/sync/servicem8. Without a mode the sync picks full or incremental by itself.
+export const syncRequestSchema = z.object({
+  mode: z.enum(["full", "incremental"]).optional(),
+});
+
+// POST /api/sync-conflicts/:id/resolve
+export const resolveSyncConflictSchema = z.object({
+  keep: z.enum(["local", "servicem8"]),
+});
+
+// POST /api/messaging/sms. Numbers without a country code are taken as Australian.
+export const smsSchema = z.object({
+  to: z.string().trim().min(1, "Phone number is required"),
+  message: z.string().trim().min(1, "Message is required"),
+  jobUuid: z.string().optional(),
+  staffUuid: z.string().optional(), // Sent as this ServiceM8 staff member
+});
+
+// POST /api/messaging/email
+export const emailSchema = z.object({
+  to: z.string().trim().email("Invalid email address"),
+  subject: z.string().trim().min(1, "Subject is required"),
+  body: z.string().trim().min(1, "Message is required"),
+  jobUuid: z.string().optional(),
+  staffUuid: z.string().optional(),
+});
+
+// POST /api/staff and PATCH /api/staff/:id
+export const staffCreateSchema = insertStaffSchema.omit({ createdAt: true, syncedAt: true });
+export const staffUpdateSchema = staffCreateSchema.omit({ id: true }).partial();
+
+// POST /api/work-types and PATCH /api/work-types/:id
+export const workTypeCreateSchema = insertWorkTypeSchema.omit({ createdAt: true, updatedAt: true });
+export const workTypeUpdateSchema = workTypeCreateSchema.partial();
+
+// POST /api/work-types/:workTypeId/stages and PATCH /api/work-types/:workTypeId/stages/:stageId.
+// The work type comes from the URL.
+export const workTypeStageCreateSchema = insertWorkTypeStageSchema
+  .omit({ workTypeId: true, createdAt: true })
+  .extend({ category: z.enum(STAGE_CATEGORIES).optional() });
+export const workTypeStageUpdateSchema = workTypeStageCreateSchema.partial();
+
+// POST /api/work-types/:workTypeId/stages/reorder, stage ids in their new order
+export const reorderStagesSchema = z.object({
+  stageIds: z.array(z.number().int().positive()),
+});
+
+// POST /api/import, the body GET /api/export returns. Ids are the exporting database's: work types
+// get new ones, and workTypeStages is keyed by the old work type id.
+export const importSchema = z.object({
+  settings: z.record(z.any()).optional(),
+  workTypes: z.array(workTypeCreateSchema.extend({ id: z.number().int() })).optional(),
+  workTypeStages: z.record(z.array(workTypeStageCreateSchema)).optional(),
+});
+
+export type LoginRequest = z.infer<typeof loginSchema>;
+export type CreateUserRequest = z.input<typeof createUserSchema>; // Also POST /api/auth/setup, which ignores isAdmin and staffId
+export type UpdateUserRequest = z.input<typeof updateUserSchema>;
+export type JobUpdate = z.input<typeof jobUpdateSchema>;
+export type StageProgressUpdate = z.input<typeof stageProgressUpdateSchema>;
+export type SettingUpdate = z.infer<typeof settingUpdateSchema>;
+export type StatusRulesUpdate = z.infer<typeof statusRulesUpdateSchema>;
+export type CustomFieldMappingsRequest = z.infer<typeof customFieldMappingsRequestSchema>;
+export type SyncRequest = z.infer<typeof syncRequestSchema>;
+export type ResolveSyncConflict = z.infer<typeof resolveSyncConflictSchema>;
+export type SmsRequest = z.infer<typeof smsSchema>;
+export type EmailRequest = z.infer<typeof emailSchema>;
+export type StaffCreate = z.infer<typeof staffCreateSchema>;
+export type StaffUpdate = z.infer<typeof staffUpdateSchema>;
+export type WorkTypeCreate = z.infer<typeof workTypeCreateSchema>;
+export type WorkTypeUpdate = z.infer<typeof workTypeUpdateSchema>;
+export type WorkTypeStageCreate = z.infer<typeof workTypeStageCreateSchema>;
+export type WorkTypeStageUpdate = z.infer<typeof workTypeStageUpdateSchema>;
+export type ImportRequest = z.infer<typeof importSchema>;
+
+// ============== RESPONSES ==============
+// Schemas for what each route answers, with the types taken from them. Records the server reads from
+// its own tables (jobs, users, settings entries, sync logs) are carried by their table type and only
+// checked to be objects.
+
+const tableRow = <T>() => z.custom<T>(value => typeof value === "object" && value !== null);
+
+// One field that failed validation. path is empty when the body as a whole is wrong.
+export const apiIssueSchema = z.object({ path: z.array(z.union([z.string(), z.number()])), message: z.string() });
+
+// Every failed request answers with this. error is the issue list for a 400 from validateBody,
+// and a sentence otherwise; some routes add a longer message.
+export const apiErrorBodySchema = z.object({ error: z.union([z.string(), z.array(apiIssueSchema)]), message: z.string().optional() });
+
+// 409 from PATCH /api/jobs/:id, PATCH .../stage-progress/:stageId and PUT /api/settings/:key, with
+// the schema of the record current carries
+export const versionConflictBodySchema = <T extends z.ZodTypeAny>(current: T) => z.object({ error: z.string(), current });
+
+// POST /api/auth/login and /api/auth/setup
+export const signedInSchema = z.object({ user: tableRow<AuthUser>() });
+
+// PATCH /api/jobs/:id. undoable is false when the edit changed nothing Undo would put back.
+export const jobUpdatedSchema = tableRow<SelectJob>().and(z.object({ undoable: z.boolean() }));
+
+// POST /api/undo and /api/redo
+export const undoResultSchema = z.object({ job: tableRow<SelectJob>(), description: z.string() });
+
+// PUT /api/settings/:key
+export const settingSavedSchema = tableRow<AppSettingEntry>();
+
+// GET /api/status-rules (the built-in rules until some are saved), and current in a 409 from PUT
+export const statusRulesSettingSchema = z.object({ rules: statusRulesSchema, isDefault: z.boolean(), version: z.number().int() });
+
+// PUT /api/status-rules
+export const statusRulesSavedSchema = z.object({ rules: statusRulesSchema, reclassified: z.number().int(), version: z.number().int() });
+
+// GET /api/custom-field-mappings without the discovered fields, and current in a 409 from PUT
+export const customFieldMappingsSettingSchema = z.object({ mappings: customFieldMappingsSchema, isDefault: z.boolean(), version: z.number().int() });
+
+// PUT /api/custom-field-mappings
+export const customFieldMappingsSavedSchema = z.object({ mappings: customFieldMappingsSchema, updated: z.number().int(), version: z.number().int() });
+
+// POST /api/sync/servicem8
+export const syncRunResultSchema = z.object({
+  success: z.literal(true),
+  mode: z.enum(["full", "incremental"]),
+  status: z.enum(["success", "partial"]),
+  syncLogId: z.number().int(),
+  jobsProcessed: z.number().int(),
+  counts: z.object(Object.fromEntries(SYNC_JOB_OUTCOMES.map(outcome => [outcome, z.number().int()])) as Record<SyncJobOutcome, z.ZodNumber>),
+  fetchErrors: z.record(z.string()).optional(),
+  message: z.string(),
+});
+
+// GET /api/sync/history
+export const syncHistoryPageSchema = z.object({
+  items: z.array(tableRow<SyncLogSummary>()),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+});
+
+// POST /api/messaging/sms and /api/messaging/email
+export const messageSentSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  messageId: z.string().optional(),
+  to: z.string().optional(),
+});
+
+// GET /api/auth/servicem8/status
+export const serviceM8OAuthStatusSchema = z.object({
+  connected: z.boolean(),
+  message: z.string(),
+  expiresAt: z.string().nullable().optional(),
+  scope: z.string().nullable().optional(),
+});
+
+export const companyContactSchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  email: z.string(),
+  mobile: z.string(),
+  phone: z.string(),
+  isPrimary: z.boolean(),
+});
+
+// GET /api/servicem8/job-company/:jobUuid, the job's customer and their contacts
+export const jobCompanySchema = z.object({
+  companyName: z.string(),
+  companyEmail: z.string(),
+  companyPhone: z.string(),
+  companyMobile: z.string(),
+  contacts: z.array(companyContactSchema),
+});
+
+// GET /api/servicem8/job-contact/:jobUuid, the job's own contact. Empty strings when it has none.
+export const jobContactSchema = z.object({
+  first: z.string().optional(),
+  last: z.string().optional(),
+  phone: z.string(),
+  mobile: z.string(),
+  email: z.string(),
+});
+
+export type ApiIssue = z.infer<typeof apiIssueSchema>;
+export type ApiErrorBody = z.infer<typeof apiErrorBodySchema>;
+export type VersionConflictBody<T> = { error: string; current: T };
+export type SignedIn = z.infer<typeof signedInSchema>;
+export type JobUpdated = z.infer<typeof jobUpdatedSchema>;
+export type UndoResult = z.infer<typeof undoResultSchema>;
+export type SettingSaved = z.infer<typeof settingSavedSchema>;
+export type StatusRulesSetting = z.infer<typeof statusRulesSettingSchema>;
+export type StatusRulesSaved = z.infer<typeof statusRulesSavedSchema>;
+export type CustomFieldMappingsSetting = z.infer<typeof customFieldMappingsSettingSchema>;
+export type CustomFieldMappingsSaved = z.infer<typeof customFieldMappingsSavedSchema>;
+export type SyncRunResult = z.infer<typeof syncRunResultSchema>;
+export type SyncHistoryPage = z.infer<typeof syncHistoryPageSchema>;
+export type MessageSent = z.infer<typeof messageSentSchema>;
+export type ServiceM8OAuthStatus = z.infer<typeof serviceM8OAuthStatusSchema>;
+export type CompanyContact = z.infer<typeof companyContactSchema>;
+export type JobCompany = z.infer<typeof jobCompanySchema>;
+export type JobContact = z.infer<typeof jobContactSchema>;
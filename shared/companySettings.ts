@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+// Company-wide settings that sync depends on. They live in the 'appSettings' blob that the client
+// settings context saves, alongside companyName and the install stages.
+
+export const APP_SETTINGS_KEY = "appSettings";
+
+// ServiceM8 returns timestamps as local wall-clock time ('YYYY-MM-DD HH:mm:ss') in the account's timezone
+export const DEFAULT_COMPANY_TIMEZONE = "Australia/Perth";
+
+// A Quotes Pipeline column for sent quotes up to maxDays old. Bands are checked in order and the
+// last one (maxDays null) takes everything older.
+export const quoteAgingBandSchema = z.object({
+  stage: z.string().trim().min(1), // Quotes Pipeline column id
+  maxDays: z.number().int().min(0).nullable(),
+});
+
+export const quoteAgingBandsSchema = z.array(quoteAgingBandSchema).min(1).refine(
+  bands => bands.every((band, i) => (i === bands.length - 1) === (band.maxDays === null)),
+  { message: "Only the last band may be open-ended, and it must be" }
+).refine(
+  bands => bands.every((band, i) => i === 0 || band.maxDays === null || band.maxDays > bands[i - 1].maxDays!),
+  { message: "Band limits must increase" }
+);
+
+export type QuoteAgingBand = z.infer<typeof quoteAgingBandSchema>;
+
+export const DEFAULT_QUOTE_AGING_BANDS: QuoteAgingBand[] = [
+  { stage: "fresh", maxDays: 3 },
+  { stage: "awaiting_reply", maxDays: 10 },
+  { stage: "follow_up", maxDays: null },
+];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-AU", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Quotes Pipeline column for a sent quote, based on how long ago it was sent. A quote with no sent
+// date is never counted as fresh, so it skips the first band.
+export function deriveSalesStage(daysSinceQuoteSent: number | null, bands: QuoteAgingBand[] = DEFAULT_QUOTE_AGING_BANDS): string {
+  if (daysSinceQuoteSent === null) {
+    return bands[Math.min(1, bands.length - 1)].stage;
+  }
+  const band = bands.find(band => band.maxDays === null || daysSinceQuoteSent <= band.maxDays);
+  return (band ?? bands[bands.length - 1]).stage;
+}
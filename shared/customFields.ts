@@ -0,0 +1,86 @@
+import { z } from "zod";
+
+// Which ServiceM8 custom fields fill which job attributes. Custom field names differ between
+// ServiceM8 accounts, so an admin maps the fields sync has seen to the attributes the app shows.
+
+export const CUSTOM_FIELD_MAPPINGS_SETTING_KEY = "customFieldMappings";
+
+export const CUSTOM_FIELD_TARGETS = ["assignedStaff", "fenceLength", "gateCount", "leadSource", "extra"] as const;
+export type CustomFieldTarget = typeof CUSTOM_FIELD_TARGETS[number];
+
+export const customFieldMappingSchema = z.object({
+  fieldName: z.string().trim().min(1), // Custom field name as ServiceM8 returns it
+  target: z.enum(CUSTOM_FIELD_TARGETS),
+  label: z.string().trim().optional(), // Shown on the job card for 'extra' fields; defaults to the field name
+});
+
+export const customFieldMappingsSchema = z.array(customFieldMappingSchema).refine(
+  mappings => new Set(mappings.map(mapping => mapping.fieldName)).size === mappings.length,
+  { message: "Each custom field can only be mapped once" }
+);
+
+export type CustomFieldMapping = z.infer<typeof customFieldMappingSchema>;
+
+// The keys getStaffAssigned used to look for
+export const DEFAULT_CUSTOM_FIELD_MAPPINGS: CustomFieldMapping[] = [
+  { fieldName: "customfield_staff_assigned", target: "assignedStaff" },
+  { fieldName: "Staff Assigned", target: "assignedStaff" },
+  { fieldName: "staff_assigned", target: "assignedStaff" },
+];
+
+// A custom field seen on synced jobs, for the mapping screen
+export type DiscoveredCustomField = {
+  fieldName: string;
+  jobCount: number;
+  sampleValue: string | null;
+};
+
+export type MappedCustomFields = {
+  assignedStaff: string;
+  fenceLength: number | null;
+  gateCount: number | null;
+  leadSource: string | null;
+  extraFields: Record<string, string>; // Label -> value
+};
+
+// Job attributes from a job's custom field values. Where several fields map to the same attribute,
+// the first mapping with a value wins.
+export function applyCustomFieldMappings(customFields: Record<string, string>, mappings: CustomFieldMapping[]): MappedCustomFields {
+  const mapped: MappedCustomFields = { assignedStaff: "Unassigned", fenceLength: null, gateCount: null, leadSource: null, extraFields: {} };
+  const filled = new Set<CustomFieldTarget>();
+
+  for (const mapping of mappings) {
+    const value = customFields[mapping.fieldName]?.toString().trim();
+    if (!value) continue;
+
+    switch (mapping.target) {
+      case "extra":
+        mapped.extraFields[mapping.label || mapping.fieldName] = value;
+        continue;
+      case "fenceLength": {
+        const metres = parseNumber(value);
+        if (metres === null || filled.has("fenceLength")) continue;
+        mapped.fenceLength = metres;
+        break;
+      }
+      case "gateCount": {
+        const gates = parseNumber(value);
+        if (gates === null || filled.has("gateCount")) continue;
+        mapped.gateCount = Math.round(gates);
+        break;
+      }
+      default:
+        if (filled.has(mapping.target)) continue;
+        mapped[mapping.target] = value;
+    }
+    filled.add(mapping.target);
+  }
+
+  return mapped;
+}
+
+// First number in values like '24.5m' or '2 gates'
+function parseNumber(value: string): number | null {
+  const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
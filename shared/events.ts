@@ -0,0 +1,16 @@
+import type { JobStageProgress, SelectJob, SyncJobOutcome } from "./schema";
+
+// Events the server pushes to everyone signed in over GET /api/events (Server-Sent Events), so
+// boards stay in step between people without refetching. Each is sent as an SSE message named by
+// its type, with the event as JSON data.
+
+export const SERVER_EVENT_TYPES = ["job", "stage_progress", "sync_completed"] as const;
+export type ServerEventType = typeof SERVER_EVENT_TYPES[number];
+
+export type ServerEvent =
+  // A job changed in the app. job is null when it has left the user's boards: archived, or no
+  // longer a job their role can see.
+  | { type: "job"; jobId: number; job: SelectJob | null }
+  | { type: "stage_progress"; jobId: number; progress: JobStageProgress }
+  // Jobs changed by a sync aren't sent one by one; clients reload them when the sync finishes
+  | { type: "sync_completed"; syncType: string; status: "success" | "partial" | "error"; counts: Record<SyncJobOutcome, number> };
@@ -0,0 +1,64 @@
+import type { InstallAllocations, PublicUser, SelectJob } from "./schema";
+
+// What each role may do. Admins are users with isAdmin; everyone else takes the role of the staff
+// member they're linked to. A user who is neither has no role and can't do anything until an admin
+// links them. The server checks these on every route; the client only uses them to hide what a role
+// can't use.
+
+export const ROLES = ["admin", "sales", "production", "install"] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  "sales.view", // Sales view: leads and quotes pipelines
+  "production.view", // Production view
+  "scheduler.view", // Scheduler view, and the work order jobs it shows
+  "jobs.view", // Every job, its communications and its ServiceM8 details
+  "jobs.edit", // Edit, move and schedule jobs
+  "messages.send", // SMS and email customers
+  "stages.update", // Stage progress and timers on any job
+  "stages.updateOwn", // Stage progress and timers on jobs the user is assigned to or booked on
+  "workTypes.edit",
+  "settings.edit", // Pipelines, general settings, status rules and custom field mappings
+  "staff.edit",
+  "sync.run", // Run a ServiceM8 sync, see sync history and settle sync conflicts
+  "users.manage",
+  "system.manage", // Import, export, archived jobs, connecting ServiceM8 and the debug routes
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  sales: ["sales.view", "scheduler.view", "jobs.view", "jobs.edit", "messages.send", "sync.run"],
+  production: [
+    "production.view", "scheduler.view", "jobs.view", "jobs.edit", "messages.send", "stages.update",
+    "workTypes.edit", "settings.edit", "staff.edit", "sync.run",
+  ],
+  install: ["scheduler.view", "stages.updateOwn"],
+};
+
+// A signed-in user, as the API returns it
+export type AuthUser = PublicUser & { role: Role | null };
+
+export function roleFor(user: Pick<PublicUser, "isAdmin">, staffRole: string | null | undefined): Role | null {
+  if (user.isAdmin) return "admin";
+  return ROLES.find(role => role !== "admin" && role === staffRole) ?? null;
+}
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Users who only see the scheduler only see its work orders, and nobody sees archived jobs on the boards
+export function canSeeJob(role: Role | null | undefined, job: Pick<SelectJob, "archivedAt" | "lifecyclePhase">): boolean {
+  return !job.archivedAt && (hasPermission(role, "jobs.view") || job.lifecyclePhase === "work_order");
+}
+
+// Whether a job is the staff member's own: assigned to them, or they're booked on one of its installs
+export function isOwnJob(
+  job: { assignedStaffId?: string | null; installAllocations?: InstallAllocations | null },
+  staffMember: { id: string; serviceM8Uuid: string | null },
+): boolean {
+  if (job.assignedStaffId === staffMember.id) return true;
+  const staffUuid = staffMember.serviceM8Uuid;
+  return !!staffUuid && Object.values(job.installAllocations ?? {}).some(allocation => !!allocation?.activities[staffUuid]);
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,6 +18,44 @@ export const SCHEDULER_STAGES = [
 ] as const;
 export type SchedulerStage = typeof SCHEDULER_STAGES[number];
 
+// Where a job's posts and panels installs are up to
+export const INSTALL_STAGES = [
+  'pending_posts',
+  'tentative_posts',
+  'posts_scheduled',
+  'measuring',
+  'manufacturing_panels',
+  'pending_panels',
+  'tentative_panels',
+  'panels_scheduled',
+  'completed'
+] as const;
+export type InstallStage = typeof INSTALL_STAGES[number];
+
+export const PURCHASE_ORDER_STATUSES = ['none', 'ordered', 'received', 'delayed'] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+// Confirmed install bookings written to ServiceM8 as job activities, one per crew member
+export const INSTALL_BOOKING_TYPES = ['posts', 'panels'] as const;
+export type InstallBookingType = typeof INSTALL_BOOKING_TYPES[number];
+export type InstallAllocation = {
+  start: string; // ServiceM8 local start time, 'YYYY-MM-DD HH:mm:ss'
+  end: string;
+  activities: Record<string, string>; // ServiceM8 staff uuid -> jobactivity uuid
+};
+export type InstallAllocations = Partial<Record<InstallBookingType, InstallAllocation>>;
+
+// Who last changed each job field. For a user edit of a field that sync also writes, serviceM8Value
+// is what ServiceM8 had at the time, so sync can tell whether ServiceM8 has changed it since.
+export const FIELD_SOURCES = ['sync', 'user'] as const;
+export type FieldSource = typeof FIELD_SOURCES[number];
+export type FieldProvenance = {
+  source: FieldSource;
+  changedAt: string; // ISO timestamp
+  serviceM8Value?: unknown;
+};
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
 // Jobs Table
 export const jobs = pgTable("jobs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -29,18 +67,24 @@ export const jobs = pgTable("jobs", {
   quoteValue: real("quote_value"),
   status: text("status").notNull(),
   lifecyclePhase: text("lifecycle_phase").notNull().default("quote"), // 'quote' | 'work_order'
-  schedulerStage: text("scheduler_stage").notNull().default("new_jobs_won"), // Kanban column for work orders
+  schedulerStage: text("scheduler_stage").notNull().default("new_jobs_won"), // SchedulerStage
+  quoteSentAt: timestamp("quote_sent_at"), // When the quote was emailed (ServiceM8 quote_sent_stamp)
   daysSinceQuoteSent: integer("days_since_quote_sent"),
   hoursSinceQuoteSent: integer("hours_since_quote_sent"), // For quotes sent < 24 hours ago
   daysSinceLastContact: integer("days_since_last_contact"),
   assignedStaff: text("assigned_staff"),
+  assignedStaffId: text("assigned_staff_id").references(() => staff.id, { onDelete: "set null" }), // Staff member matching assignedStaff, if any
+  fenceLength: real("fence_length"), // Metres, from a mapped ServiceM8 custom field
+  gateCount: integer("gate_count"), // From a mapped ServiceM8 custom field
+  leadSource: text("lead_source"), // From a mapped ServiceM8 custom field
+  extraFields: jsonb("extra_fields").$type<Record<string, string>>(), // Other mapped custom fields, label -> value
   lastNote: text("last_note"),
   urgency: text("urgency").notNull(),
   lastContactWho: text("last_contact_who"),
   dueDate: timestamp("due_date"),
-  purchaseOrderStatus: text("purchase_order_status").notNull().default("none"),
+  purchaseOrderStatus: text("purchase_order_status").notNull().default("none"), // PurchaseOrderStatus
   productionTasks: jsonb("production_tasks").$type<{ id: string; name: string; completed: boolean; assignedTo?: string }[]>(),
-  installStage: text("install_stage").notNull().default("pending_posts"),
+  installStage: text("install_stage").notNull().default("pending_posts"), // InstallStage
   postInstallDate: timestamp("post_install_date"),
   panelInstallDate: timestamp("panel_install_date"),
   tentativePostDate: timestamp("tentative_post_date"),
@@ -53,6 +97,7 @@ export const jobs = pgTable("jobs", {
   panelInstallCrewSize: integer("panel_crew_size"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  version: integer("version").notNull().default(1), // Bumped on every save, so an edit made from a stale copy can be refused
   syncedAt: timestamp("synced_at"),
   workTypeId: integer("work_type_id"), // References work_types table for dynamic stages
   currentStageId: integer("current_stage_id"), // Current active stage
@@ -64,6 +109,14 @@ export const jobs = pgTable("jobs", {
   daysSinceClientContact: integer("days_since_client_contact"), // Days since client last contacted us
   salesStage: text("sales_stage"), // For Quotes Pipeline: 'fresh', 'awaiting_reply', etc.
   badges: text("badges").array(), // ServiceM8 badges like 'Hot Lead', 'VIP', etc.
+  serviceM8Status: text("service_m8_status"), // Raw ServiceM8 status text, input to the status mapping rules
+  serviceM8CustomFields: jsonb("service_m8_custom_fields").$type<Record<string, string>>(), // Custom field values from the last sync
+  installAllocations: jsonb("install_allocations").$type<InstallAllocations>(), // ServiceM8 bookings for the confirmed install dates
+  allocationError: text("allocation_error"), // Why the last write of install bookings to ServiceM8 failed
+  statusOverride: text("status_override"), // Pipeline column set by hand with no ServiceM8 equivalent; kept across syncs until the ServiceM8 status changes
+  fieldProvenance: jsonb("field_provenance").$type<FieldProvenanceMap>(), // Field name -> who last changed it and when
+  archivedAt: timestamp("archived_at"), // Set when the job is no longer active in ServiceM8; cleared if it comes back
+  archivedReason: text("archived_reason"), // e.g. 'Deactivated in ServiceM8'
 });
 
 export const insertJobSchema = createInsertSchema(jobs, {
@@ -90,6 +143,10 @@ export const staff = pgTable("staff", {
   skills: jsonb("skills").$type<string[]>(),
   color: text("color").notNull().default("bg-gray-500"),
   active: boolean("active").notNull().default(true),
+  serviceM8Uuid: text("service_m8_uuid").unique(), // Set once the member is linked to a ServiceM8 staff record
+  email: text("email"), // From ServiceM8
+  mobile: text("mobile"), // From ServiceM8
+  syncedAt: timestamp("synced_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -102,6 +159,43 @@ export const insertStaffSchema = createInsertSchema(staff, {
 export type InsertStaff = typeof staff.$inferInsert;
 export type Staff = typeof staff.$inferSelect;
 
+// Command Center logins. A user can be linked to the staff member they are.
+export const users = pgTable("users", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  username: text("username").notNull().unique(), // Stored lower case
+  displayName: text("display_name").notNull(),
+  passwordHash: text("password_hash").notNull(), // scrypt, 'salt:hash' in hex
+  isAdmin: boolean("is_admin").notNull().default(false),
+  active: boolean("active").notNull().default(true), // Inactive users can't sign in
+  staffId: text("staff_id").unique().references(() => staff.id, { onDelete: "set null" }),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertUser = typeof users.$inferInsert;
+export type User = typeof users.$inferSelect;
+// A user as the API returns it
+export type PublicUser = Omit<User, "passwordHash">;
+
+export const createUserSchema = z.object({
+  username: z.string().trim().toLowerCase().min(2).max(64).regex(/^[a-z0-9._@-]+$/, "Letters, numbers and . _ @ - only"),
+  displayName: z.string().trim().min(1),
+  password: z.string().min(8, "Passwords must be at least 8 characters"),
+  isAdmin: z.boolean().optional(),
+  staffId: z.string().nullable().optional(),
+});
+
+export const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).optional(),
+  isAdmin: z.boolean().optional(),
+  active: z.boolean().optional(),
+  staffId: z.string().nullable().optional(),
+});
+
+export const passwordSchema = z.object({
+  password: z.string().min(8, "Passwords must be at least 8 characters"),
+});
+
 // ServiceM8 Sync Log
 export const syncLog = pgTable("sync_log", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -123,6 +217,57 @@ export const insertSyncLogSchema = createInsertSchema(syncLog, {
 export type InsertSyncLog = typeof syncLog.$inferInsert;
 export type SyncLog = typeof syncLog.$inferSelect;
 
+// What a sync did to each job - stored in syncLog.metadata.jobs
+export const SYNC_JOB_OUTCOMES = ['created', 'updated', 'unchanged', 'skipped', 'archived'] as const;
+export type SyncJobOutcome = typeof SYNC_JOB_OUTCOMES[number];
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+export type SyncJobReport = {
+  serviceM8Uuid: string;
+  jobId?: number; // Local jobs.id
+  jobNumber?: string; // Display ID like #1042
+  customerName?: string;
+  outcome: SyncJobOutcome;
+  changes?: FieldChange[]; // Only for 'updated'
+  conflicts?: string[]; // Fields ServiceM8 changed that were also edited here, held back for review
+  reason?: string; // Only for 'skipped' and 'archived'
+};
+
+export type SyncLogMetadata = {
+  trigger?: 'manual' | 'automatic' | 'webhook';
+  since?: Record<string, string>; // Incremental sync cursors this run started from
+  cursors?: Record<string, string>; // High-water marks reached by this run
+  object?: string; // Webhook object type
+  recordUuids?: string[]; // Webhook records
+  fetched?: Record<string, number>; // Records fetched per ServiceM8 endpoint, updated while the sync runs
+  fetchErrors?: Record<string, string>; // Bulk fetches that failed; the fields they feed kept their stored values
+  counts?: Record<SyncJobOutcome, number>;
+  jobs?: SyncJobReport[];
+};
+
+// Sync log row as listed in the sync history (metadata reduced to its summary)
+export type SyncLogSummary = Omit<SyncLog, 'metadata'> & {
+  trigger: SyncLogMetadata['trigger'] | null;
+  counts: SyncLogMetadata['counts'] | null;
+  fetched: SyncLogMetadata['fetched'] | null;
+};
+
+// ServiceM8 object types tracked by incremental sync
+export const SYNC_OBJECT_TYPES = ['job', 'company', 'jobcontact', 'feeditem', 'note'] as const;
+export type SyncObjectType = typeof SYNC_OBJECT_TYPES[number];
+
+// Sync Cursors Table - High-water mark (latest edit_date seen) per ServiceM8 object type
+export const syncCursors = pgTable("sync_cursors", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  objectType: text("object_type").notNull().unique(), // 'job' | 'company' | 'jobcontact' | 'feeditem' | 'note'
+  lastEditDate: text("last_edit_date").notNull(), // ServiceM8 timestamp as returned by the API, e.g. '2025-01-31 14:05:00'
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type InsertSyncCursor = typeof syncCursors.$inferInsert;
+export type SyncCursor = typeof syncCursors.$inferSelect;
+
 // OAuth Tokens Table (for ServiceM8 OAuth 2.0)
 export const oauthTokens = pgTable("oauth_tokens", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -196,12 +341,15 @@ export const insertWorkTypeStageSchema = createInsertSchema(workTypeStages, {
 export type InsertWorkTypeStage = typeof workTypeStages.$inferInsert;
 export type WorkTypeStage = typeof workTypeStages.$inferSelect;
 
+export const STAGE_PROGRESS_STATUSES = ['pending', 'in_progress', 'completed', 'skipped'] as const;
+export type StageProgressStatus = typeof STAGE_PROGRESS_STATUSES[number];
+
 // Job Stage Progress Table - Tracks completion of stages for each job
 export const jobStageProgress = pgTable("job_stage_progress", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   jobId: integer("job_id").notNull().references(() => jobs.id, { onDelete: 'cascade' }),
   stageId: integer("stage_id").notNull().references(() => workTypeStages.id, { onDelete: 'cascade' }),
-  status: text("status").notNull().default("pending"), // 'pending' | 'in_progress' | 'completed' | 'skipped'
+  status: text("status").notNull().default("pending"), // StageProgressStatus
   completedAt: timestamp("completed_at"),
   completedBy: text("completed_by"),
   notes: text("notes"),
@@ -212,6 +360,7 @@ export const jobStageProgress = pgTable("job_stage_progress", {
   totalTimeSeconds: integer("total_time_seconds").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  version: integer("version").notNull().default(1), // Bumped on every save, as for jobs
 });
 
 export const insertJobStageProgressSchema = createInsertSchema(jobStageProgress, {
@@ -222,11 +371,70 @@ export const insertJobStageProgressSchema = createInsertSchema(jobStageProgress,
 export type InsertJobStageProgress = typeof jobStageProgress.$inferInsert;
 export type JobStageProgress = typeof jobStageProgress.$inferSelect;
 
+// Communications Table - Every email, SMS, call and note on a job, copied from ServiceM8 feed items and notes during sync
+export const COMMUNICATION_TYPES = ['email', 'sms', 'call', 'note', 'system'] as const;
+export type CommunicationType = typeof COMMUNICATION_TYPES[number];
+export const COMMUNICATION_DIRECTIONS = ['inbound', 'outbound', 'unknown'] as const;
+export type CommunicationDirection = typeof COMMUNICATION_DIRECTIONS[number];
+
+export const communications = pgTable("communications", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  serviceM8Uuid: text("service_m8_uuid").unique().notNull(), // Feed item or note uuid
+  source: text("source").notNull(), // 'feeditem' | 'note'
+  jobServiceM8Uuid: text("job_service_m8_uuid").notNull(), // Not a foreign key: feed items can arrive before their job is synced
+  type: text("type").notNull(), // CommunicationType
+  direction: text("direction").notNull().default("unknown"), // CommunicationDirection
+  confidence: text("confidence"), // 'high' | 'medium' | 'low', from the classifier
+  classificationReason: text("classification_reason"), // Which classifier rules decided the type and direction
+  author: text("author"),
+  message: text("message").notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
+}, (table) => [
+  index("communications_job_idx").on(table.jobServiceM8Uuid, table.occurredAt),
+]);
+
+export type InsertCommunication = typeof communications.$inferInsert;
+export type Communication = typeof communications.$inferSelect;
+
+// Search hit, with enough of the job to show where it came from
+export type CommunicationSearchResult = Communication & {
+  jobId: number | null;
+  jobNumber: string | null;
+  customerName: string | null;
+};
+
+// Sync Conflicts Table - ServiceM8 changes to fields that were also edited here, waiting for someone to pick a side
+export const SYNC_CONFLICT_STATUSES = ['pending', 'kept_local', 'took_servicem8', 'matched'] as const;
+export type SyncConflictStatus = typeof SYNC_CONFLICT_STATUSES[number];
+
+export const syncConflicts = pgTable("sync_conflicts", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  jobId: integer("job_id").notNull().references(() => jobs.id, { onDelete: 'cascade' }),
+  field: text("field").notNull(),
+  localValue: jsonb("local_value"), // Value here when the conflict was last seen
+  serviceM8Value: jsonb("service_m8_value"), // Latest value from ServiceM8
+  status: text("status").notNull().default("pending"), // SyncConflictStatus; 'matched' when both sides came to agree on their own
+  detectedAt: timestamp("detected_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export type InsertSyncConflict = typeof syncConflicts.$inferInsert;
+export type SyncConflict = typeof syncConflicts.$inferSelect;
+
+// Pending conflict as listed in the review queue
+export type SyncConflictWithJob = SyncConflict & {
+  jobNumber: string;
+  customerName: string;
+  currentValue: unknown; // The job's value now, which 'keep local' keeps
+};
+
 // App Settings Table - Stores global app configuration
 export const appSettings = pgTable("app_settings", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   key: text("key").notNull().unique(),
   value: jsonb("value").notNull(),
+  version: integer("version").notNull().default(1), // Bumped on every save, so a save from a stale copy can be refused
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -237,3 +445,57 @@ export const insertAppSettingsSchema = createInsertSchema(appSettings, {
 
 export type InsertAppSettings = typeof appSettings.$inferInsert;
 export type AppSettingsRow = typeof appSettings.$inferSelect;
+
+// One setting as the client edits it. Version 0 means the key hasn't been saved yet.
+export type AppSettingEntry = { key: string; value: any; version: number };
+
+// Audit Log Table - Append-only history of changes to jobs, stage progress, work types and settings,
+// one row per changed field
+export const AUDIT_SOURCES = ['ui', 'sync', 'automation'] as const;
+export type AuditSource = typeof AUDIT_SOURCES[number];
+export const AUDIT_ENTITY_TYPES = ['job', 'stage_progress', 'work_type', 'work_type_stage', 'setting'] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const auditLog = pgTable("audit_log", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  entityType: text("entity_type").notNull(), // AuditEntityType
+  entityId: text("entity_id").notNull(), // Job id, work type id, setting key, or 'jobId:stageId' for stage progress
+  jobId: integer("job_id"), // Set for job and stage progress changes, so a job's history is one lookup. No foreign key: entries outlive what they describe.
+  action: text("action").notNull(), // 'create' | 'update' | 'delete'
+  field: text("field"), // Null for a create or delete recorded as a whole
+  before: jsonb("before"),
+  after: jsonb("after"),
+  source: text("source").notNull(), // AuditSource
+  actorUserId: integer("actor_user_id"), // The signed-in user, for 'ui' changes
+  actorName: text("actor_name").notNull(), // User's name, or e.g. 'ServiceM8 sync' or 'Status rules'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_job_idx").on(table.jobId, table.createdAt),
+  index("audit_log_entity_idx").on(table.entityType, table.entityId, table.createdAt),
+]);
+
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+// Who made a change
+export type AuditActor = { source: AuditSource; userId: number | null; name: string };
+
+// A job's audit entry as the history tab shows it, with the stage named for stage progress changes
+export type JobHistoryEntry = AuditEntry & { stageName: string | null };
+
+// Undo Entries Table - Each user's recent job edits, newest last, so they can be undone and redone.
+// An entry with undoneAt set is on the user's redo stack; a new edit clears those.
+export const undoEntries = pgTable("undo_entries", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  jobId: integer("job_id").notNull().references(() => jobs.id, { onDelete: 'cascade' }),
+  description: text("description").notNull(), // e.g. 'Change install stage and post install date on #1042'
+  changes: jsonb("changes").$type<FieldChange[]>().notNull(), // The fields the edit asked for, before and after
+  undoneAt: timestamp("undone_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("undo_entries_user_idx").on(table.userId, table.createdAt),
+]);
+
+export type InsertUndoEntry = typeof undoEntries.$inferInsert;
+export type UndoEntry = typeof undoEntries.$inferSelect;
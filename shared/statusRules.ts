@@ -0,0 +1,282 @@
+import { z } from "zod";
+import type { LifecyclePhase, SchedulerStage } from "./schema";
+import { deriveSalesStage, type QuoteAgingBand } from "./companySettings";
+
+// ServiceM8 status mapping rules. Each synced job is matched against the rules in order; the first
+// enabled rule whose conditions all match decides its lifecycle phase, scheduler stage and app status.
+// Rules are stored in appSettings under STATUS_RULES_SETTING_KEY and edited in Settings > Status Rules.
+
+export const STATUS_RULES_SETTING_KEY = "statusMappingRules";
+
+// Same values as LIFECYCLE_PHASES / SCHEDULER_STAGES in schema.ts, repeated here so the client can
+// use them without pulling the table definitions into the bundle
+export const STATUS_RULE_PHASES = ["quote", "work_order"] as const satisfies readonly LifecyclePhase[];
+export const STATUS_RULE_STAGES = [
+  "new_jobs_won",
+  "in_production",
+  "waiting_supplier",
+  "waiting_client",
+  "need_to_go_back",
+  "recently_completed",
+] as const satisfies readonly SchedulerStage[];
+
+export const STATUS_RULE_FIELDS = ["status", "badge", "customField"] as const;
+export const STATUS_RULE_OPERATORS = ["equals", "contains"] as const;
+
+export const statusRuleConditionSchema = z.object({
+  field: z.enum(STATUS_RULE_FIELDS),
+  customFieldName: z.string().optional(), // Required when field is 'customField'
+  operator: z.enum(STATUS_RULE_OPERATORS),
+  values: z.array(z.string().trim().min(1)).min(1), // Matches if any value matches (case-insensitive)
+}).refine(condition => condition.field !== "customField" || !!condition.customFieldName?.trim(), {
+  message: "Custom field conditions need a field name",
+  path: ["customFieldName"],
+});
+
+export const statusRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  enabled: z.boolean(),
+  conditions: z.array(statusRuleConditionSchema).min(1),
+  lifecyclePhase: z.enum(STATUS_RULE_PHASES),
+  schedulerStage: z.enum(STATUS_RULE_STAGES),
+  appStatus: z.string().trim().min(1),
+});
+
+export const statusRulesSchema = z.array(statusRuleSchema).refine(
+  rules => new Set(rules.map(rule => rule.id)).size === rules.length,
+  { message: "Rule ids must be unique" }
+);
+
+export type StatusRuleCondition = z.infer<typeof statusRuleConditionSchema>;
+export type StatusRule = z.infer<typeof statusRuleSchema>;
+
+// ServiceM8 status values that indicate Work Order phase
+const WORK_ORDER_STATUSES = ["work order", "in progress", "scheduled"];
+
+// The built-in mapping. Completed statuses are caught before the work order rules.
+export const DEFAULT_STATUS_RULES: StatusRule[] = [
+  {
+    id: "default-unsuccessful",
+    name: "Unsuccessful, lost or cancelled",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: ["unsuccessful", "lost", "cancelled", "canceled"] }],
+    lifecyclePhase: "quote",
+    schedulerStage: "new_jobs_won",
+    appStatus: "unsuccessful",
+  },
+  {
+    id: "default-complete",
+    name: "Completed",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: ["complete", "finished", "done"] }],
+    lifecyclePhase: "work_order",
+    schedulerStage: "recently_completed",
+    appStatus: "complete",
+  },
+  {
+    id: "default-in-production",
+    name: "Work order in progress",
+    enabled: true,
+    conditions: [
+      { field: "status", operator: "contains", values: WORK_ORDER_STATUSES },
+      { field: "status", operator: "contains", values: ["progress", "production"] },
+    ],
+    lifecyclePhase: "work_order",
+    schedulerStage: "in_production",
+    appStatus: "in_production",
+  },
+  {
+    id: "default-scheduled",
+    name: "Work order scheduled",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: ["scheduled"] }],
+    lifecyclePhase: "work_order",
+    schedulerStage: "in_production",
+    appStatus: "scheduled",
+  },
+  {
+    id: "default-work-order",
+    name: "Work order",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: WORK_ORDER_STATUSES }],
+    lifecyclePhase: "work_order",
+    schedulerStage: "new_jobs_won",
+    appStatus: "work_order",
+  },
+  {
+    id: "default-quote",
+    name: "Quote or estimate",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: ["quote", "estimate"] }],
+    lifecyclePhase: "quote",
+    schedulerStage: "new_jobs_won",
+    appStatus: "quote_pending",
+  },
+  {
+    id: "default-lead",
+    name: "Lead",
+    enabled: true,
+    conditions: [{ field: "status", operator: "contains", values: ["lead"] }],
+    lifecyclePhase: "quote",
+    schedulerStage: "new_jobs_won",
+    appStatus: "new_lead",
+  },
+];
+
+// A Leads Pipeline column linked to a ServiceM8 status and/or badge. Moving a card into the column
+// writes these to ServiceM8, and jobs synced with them are placed in the column.
+export interface PipelineColumnMapping {
+  id: string;
+  title: string;
+  serviceM8Status?: string;
+  serviceM8Badge?: string;
+}
+
+export function isMappedColumn(column: PipelineColumnMapping): boolean {
+  return !!(column.serviceM8Status?.trim() || column.serviceM8Badge?.trim());
+}
+
+// Rules for the mapped Leads Pipeline columns, checked ahead of the configured rules
+export function columnMappingRules(columns: PipelineColumnMapping[]): StatusRule[] {
+  return columns.filter(isMappedColumn).map(column => {
+    const conditions: StatusRuleCondition[] = [];
+    if (column.serviceM8Status?.trim()) {
+      conditions.push({ field: "status", operator: "equals", values: [column.serviceM8Status.trim()] });
+    }
+    if (column.serviceM8Badge?.trim()) {
+      conditions.push({ field: "badge", operator: "equals", values: [column.serviceM8Badge.trim()] });
+    }
+    return {
+      id: `column-${column.id}`,
+      name: `Leads column: ${column.title}`,
+      enabled: true,
+      conditions,
+      lifecyclePhase: "quote",
+      schedulerStage: "new_jobs_won",
+      appStatus: column.id,
+    };
+  });
+}
+
+// Used when no rule matches (will be processed based on quote_sent)
+export const FALLBACK_STATUS_MAPPING = {
+  lifecyclePhase: "quote" as LifecyclePhase,
+  schedulerStage: "new_jobs_won" as SchedulerStage,
+  appStatus: "quote_pending",
+};
+
+// Generic quote statuses are refined by whether the quote has actually been sent. A rule that names a
+// specific Leads Pipeline column (e.g. 'book_inspection') keeps it.
+const GENERIC_QUOTE_STATUSES = ["quote_pending", "new_lead"];
+
+export interface StatusRuleInput {
+  status: string;
+  badges: string[]; // Badge names
+  customFields: Record<string, string>;
+}
+
+export interface JobClassificationInput extends StatusRuleInput {
+  quoteSent: boolean;
+  daysSinceQuoteSent: number | null;
+  quoteAgingBands?: QuoteAgingBand[]; // Defaults to DEFAULT_QUOTE_AGING_BANDS
+}
+
+export interface JobClassification {
+  lifecyclePhase: LifecyclePhase;
+  schedulerStage: SchedulerStage;
+  appStatus: string;
+  salesStage: string | null;
+  ruleId: string | null; // null when no rule matched
+}
+
+// Custom field names are compared loosely: "Staff Assigned", "staff_assigned" and
+// "customfield_staff_assigned" all name the same field
+function normalizeFieldName(name: string): string {
+  return name.trim().toLowerCase().replace(/^customfield_/, "").replace(/[\s_-]+/g, "_");
+}
+
+function customFieldValue(customFields: Record<string, string>, name: string): string | undefined {
+  const wanted = normalizeFieldName(name);
+  const key = Object.keys(customFields).find(fieldName => normalizeFieldName(fieldName) === wanted);
+  return key !== undefined ? customFields[key] : undefined;
+}
+
+function conditionMatches(condition: StatusRuleCondition, input: StatusRuleInput): boolean {
+  let candidates: string[];
+  if (condition.field === "status") {
+    candidates = [input.status];
+  } else if (condition.field === "badge") {
+    candidates = input.badges;
+  } else {
+    const value = customFieldValue(input.customFields, condition.customFieldName || "");
+    candidates = value !== undefined && value !== null ? [String(value)] : [];
+  }
+
+  return candidates.some(candidate => {
+    const text = candidate.trim().toLowerCase();
+    return condition.values.some(value => {
+      const expected = value.trim().toLowerCase();
+      return condition.operator === "equals" ? text === expected : text.includes(expected);
+    });
+  });
+}
+
+// First enabled rule whose conditions all match, if any
+export function matchStatusRule(rules: StatusRule[], input: StatusRuleInput): StatusRule | null {
+  return rules.find(rule => rule.enabled && rule.conditions.every(condition => conditionMatches(condition, input))) ?? null;
+}
+
+// Work out where a job belongs: the matching rule gives phase, stage and status, then quote-phase
+// jobs are split into new leads and sent quotes (with their recency-based Quotes Pipeline column)
+export function classifyJob(rules: StatusRule[], input: JobClassificationInput): JobClassification {
+  const rule = matchStatusRule(rules, input);
+  let { lifecyclePhase, schedulerStage, appStatus } = rule ?? FALLBACK_STATUS_MAPPING;
+  let salesStage: string | null = null;
+
+  // For Quote phase jobs:
+  // - Leads Pipeline uses 'status': new_lead, quote_sent, etc.
+  // - Quotes Pipeline uses 'salesStage': fresh, awaiting_reply, follow_up (quote aging bands)
+  // - Jobs without quote sent go to "new_lead" column
+  // - Terminal statuses (unsuccessful/complete) keep their status and are excluded
+  if (lifecyclePhase === "quote" && appStatus !== "unsuccessful") {
+    const isGenericStatus = GENERIC_QUOTE_STATUSES.includes(appStatus);
+    if (input.quoteSent) {
+      // Quote jobs use 'new_jobs_won' as default scheduler stage (not displayed in scheduler anyway)
+      schedulerStage = "new_jobs_won";
+      if (isGenericStatus) appStatus = "quote_sent";
+      salesStage = deriveSalesStage(input.daysSinceQuoteSent, input.quoteAgingBands);
+    } else {
+      // No quote sent yet - this is a new lead
+      if (isGenericStatus) appStatus = "new_lead";
+      salesStage = "new_lead";
+    }
+  }
+
+  return { lifecyclePhase, schedulerStage, appStatus, salesStage, ruleId: rule?.id ?? null };
+}
+
+// Where current jobs would move under a set of rules
+export type JobPlacement = {
+  lifecyclePhase: string;
+  schedulerStage: string;
+  status: string;
+  salesStage: string | null;
+};
+
+export type StatusRulePreviewChange = {
+  jobId: number;
+  jobNumber: string;
+  customerName: string;
+  serviceM8Status: string;
+  ruleId: string | null;
+  ruleName: string | null;
+  before: JobPlacement;
+  after: JobPlacement;
+};
+
+export type StatusRulePreview = {
+  evaluated: number;
+  skipped: number; // Jobs synced before the ServiceM8 status was stored
+  changes: StatusRulePreviewChange[];
+};